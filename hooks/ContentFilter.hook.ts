@@ -8,23 +8,173 @@
  * content and must pass the content filter pipeline before an agent can
  * read it.
  *
- * Exit codes:
- *   0 — Allow (passthrough, clean content, or HUMAN_REVIEW)
+ * For Glob and Grep the pattern / search scope is expanded and every
+ * sandbox file the call would touch is filtered, as Read would filter it
+ * (large and binary files included); the call is blocked if any of them
+ * is BLOCKED or unreadable, naming the offending files.
+ *
+ * HUMAN_REVIEW results are surfaced as a structured "ask" permission
+ * decision (pattern IDs, severity tier, line numbers) unless the review
+ * policy auto-allows that format/severity combination.
+ *
+ * Exit codes / output:
+ *   0 — Allow (passthrough, clean content, or HUMAN_REVIEW allowed by policy)
+ *   0 — Ask (HUMAN_REVIEW): JSON with permissionDecision "ask" on stdout
  *   2 — Block (malicious content detected or infrastructure error)
  *
+ * BLOCKED files covered by a live bypass grant (`content-filter bypass
+ * grant`) are allowed; each use is counted in the grant store and logged
+ * to the audit trail. Glob/Grep only spend grants when every blocked file
+ * is covered.
+ *
+ * With CONTENT_FILTER_BASELINE set, review-severity findings recorded by
+ * `content-filter baseline create` no longer count; only new findings
+ * reach the review policy.
+ *
  * Fail-closed: any error in the filter pipeline → exit 2 (block on failure).
  * Use bypassFilter() to explicitly allow content that was blocked by error.
  *
  * Environment:
  *   CONTENT_FILTER_SANDBOX_DIR — directory where external content lives (required)
  *   CONTENT_FILTER_SHARED_DIR — deprecated alias (fallback if SANDBOX_DIR not set)
+ *   CONTENT_FILTER_CACHE_DIR — result cache location (default ~/.config/content-filter/cache)
+ *   CONTENT_FILTER_CACHE — set to "off" to disable the result cache
+ *   CONTENT_FILTER_REVIEW_POLICY — review policy file (default ~/.config/content-filter/review-policy.yaml)
+ *   CONTENT_FILTER_APPROVALS — set to "on" to honor remembered approvals
+ *   CONTENT_FILTER_APPROVALS_DIR — approval store (default ~/.config/content-filter/approvals)
+ *   CONTENT_FILTER_GRANTS — set to "off" to ignore bypass grants
+ *   CONTENT_FILTER_GRANTS_DIR — grant store (default ~/.config/content-filter/grants)
+ *   CONTENT_FILTER_BASELINE — baseline file(s) of known findings, ":"-separated
+ *   CONTENT_FILTER_AUDIT / CONTENT_FILTER_AUDIT_DIR — where filter decisions and grant
+ *     uses are logged (the `review` queue reads them)
  */
 
 import { filterContent } from "../src/lib/content-filter";
-import { existsSync } from "fs";
+import { filterFiles } from "../src/lib/directory-scanner";
+import { listSandboxFiles, resolveSearchScope } from "../src/lib/search-scope";
+import { resolveCacheConfig } from "../src/lib/result-cache";
+import { resolveApprovalStoreConfig } from "../src/lib/approval-store";
+import { resolveBaselines } from "../src/lib/baseline";
+import {
+  redeemBypassGrants,
+  resolveBypassGrantStore,
+} from "../src/lib/bypass-grants";
+import { resolveAuditConfig, resolveFilterAuditConfig } from "../src/lib/audit";
+import { settleAuditForwarding } from "../src/lib/audit-forward";
+import {
+  buildAskOutput,
+  resolveReviewPolicy,
+  reviewAction,
+  reviewSummary,
+} from "../src/lib/review-policy";
+import {
+  canonicalizePath,
+  isPathWithin,
+  resolveSandboxDir,
+  sandboxRepoName,
+} from "../src/lib/path-resolver";
+import { existsSync, readFileSync } from "fs";
+import type { AuditConfig, FilterResult } from "../src/lib/types";
 
 const GATED_TOOLS = new Set(["Read", "Glob", "Grep"]);
 
+/**
+ * Maximum offending files listed in a Glob/Grep block message.
+ */
+const MAX_LISTED_FILES = 10;
+
+/**
+ * Exit once live audit forwarding has settled. Exiting mid-delivery
+ * leaves the record claimed in the spool, and the next flush sends it
+ * again.
+ */
+async function exitAfterAudit(code: number): Promise<never> {
+  await settleAuditForwarding();
+  process.exit(code);
+}
+
+/**
+ * Summarize why a file was blocked (pattern IDs, encodings, schema).
+ */
+function blockReasons(result: FilterResult): string {
+  const patternIds = result.matches.map((m) => m.pattern_id).join(", ");
+  const encodingTypes = result.encodings.map((e) => e.type).join(", ");
+  const reasons: string[] = [];
+  if (patternIds) reasons.push(`patterns: ${patternIds}`);
+  if (encodingTypes) reasons.push(`encodings: ${encodingTypes}`);
+  if (!result.schema_valid) reasons.push("schema validation failed");
+  return reasons.join("; ");
+}
+
+/**
+ * Allow BLOCKED files through bypass grants. Returns the files that stay
+ * blocked. Grants are only used when every file is covered, so a call
+ * that is blocked anyway spends none.
+ */
+function redeemGrants(blocked: FilterResult[], sandboxDir: string): FilterResult[] {
+  const store = resolveBypassGrantStore();
+  if (!store) return blocked;
+  const claims = blocked.map((result) => ({
+    result,
+    content: readFileSync(result.file, "utf-8"),
+    key: { file: result.file, sourceRepo: sandboxRepoName(result.file, sandboxDir) ?? undefined },
+  }));
+  const redeemed = redeemBypassGrants(store, claims, resolveAuditConfig());
+  if (!redeemed) return blocked;
+
+  for (const { result, grant } of redeemed) {
+    const { id, uses, max_uses } = grant;
+    console.error(`[ContentFilter] ALLOWED by bypass grant ${id} (${uses}/${max_uses}): ${result.file}`);
+  }
+  return [];
+}
+
+/**
+ * Filter the sandbox files a Glob/Grep call would touch, each the way
+ * Read would filter it: no size ceiling, binary files through the
+ * pipeline too, and the file's sandbox repo as the source repo (so
+ * repo-scoped approvals apply). Files that cannot be read are returned
+ * separately; they block the call.
+ */
+function filterSearchFiles(
+  files: string[],
+  sandboxDir: string,
+  auditConfig: AuditConfig | undefined
+): { results: FilterResult[]; unreadable: string[] } {
+  const filterOpts = {
+    cacheConfig: resolveCacheConfig(),
+    approvalStore: resolveApprovalStoreConfig(),
+    baselines: resolveBaselines(),
+  };
+  const byRepo = new Map<string | undefined, string[]>();
+  for (const file of files) {
+    const repo = sandboxRepoName(file, sandboxDir) ?? undefined;
+    byRepo.set(repo, [...(byRepo.get(repo) ?? []), file]);
+  }
+
+  const results: FilterResult[] = [];
+  const unreadable: string[] = [];
+  for (const [sourceRepo, repoFiles] of byRepo) {
+    const scan = filterFiles(sandboxDir, repoFiles, {
+      ...filterOpts,
+      maxFileBytes: Infinity,
+      auditConfig,
+      auditOpts: { sourceRepo },
+    });
+    results.push(...scan.files);
+    for (const skipped of scan.skipped) {
+      if (skipped.reason === "unreadable") {
+        unreadable.push(skipped.file);
+      } else {
+        results.push(
+          filterContent(skipped.file, undefined, undefined, auditConfig, { sourceRepo }, filterOpts)
+        );
+      }
+    }
+  }
+  return { results, unreadable };
+}
+
 async function main(): Promise<void> {
   try {
     // Read stdin with timeout — prevents hang if stdin never closes
@@ -40,7 +190,11 @@ async function main(): Promise<void> {
       process.exit(2); // fail-closed: empty stdin
     }
 
-    let input: { tool_name?: string; tool_input?: Record<string, unknown> };
+    let input: {
+      tool_name?: string;
+      tool_input?: Record<string, unknown>;
+      cwd?: unknown;
+    };
     try {
       input = JSON.parse(raw);
     } catch {
@@ -56,7 +210,75 @@ async function main(): Promise<void> {
       process.exit(0); // passthrough
     }
 
-    // Extract file path from tool input
+    const sandboxDir = resolveSandboxDir();
+    if (!sandboxDir) {
+      process.exit(0); // no sandbox configured — passthrough
+    }
+    const cwd = typeof input.cwd === "string" ? input.cwd : process.cwd();
+    // Every filter decision is logged (fail-open), which feeds `review`
+    const auditConfig = resolveFilterAuditConfig();
+
+    // Glob/Grep: filter every sandbox file the search would touch
+    if (toolName === "Glob" || toolName === "Grep") {
+      const scope = resolveSearchScope(toolName, toolInput ?? {}, cwd);
+      if (!scope) {
+        console.error(`[ContentFilter] BLOCKED: cannot resolve ${toolName} search path (fail-closed)`);
+        return exitAfterAudit(2); // fail-closed: unresolvable scope
+      }
+      const files = listSandboxFiles(scope, sandboxDir);
+      if (files.length === 0) {
+        return exitAfterAudit(0); // search does not reach the sandbox
+      }
+
+      const { results, unreadable } = filterSearchFiles(files, sandboxDir, auditConfig);
+      if (unreadable.length > 0) {
+        console.error(
+          `[ContentFilter] BLOCKED: ${toolName} would read ${unreadable.length} unreadable sandbox file(s) (fail-closed):\n` +
+          unreadable.slice(0, MAX_LISTED_FILES).map((f) => `  ${f}`).join("\n")
+        );
+        return exitAfterAudit(2); // fail-closed: unscanned content
+      }
+
+      const blocked = redeemGrants(
+        results.filter((f) => f.decision === "BLOCKED"),
+        sandboxDir
+      );
+      if (blocked.length === 0) {
+        const policy = resolveReviewPolicy();
+        const review = results.filter((f) => reviewAction(f, policy) === "ask");
+        if (review.length > 0) {
+          const listed = review
+            .slice(0, MAX_LISTED_FILES)
+            .map((f) => `  ${f.file} — ${reviewSummary(f)}`);
+          if (review.length > MAX_LISTED_FILES) {
+            listed.push(`  ... and ${review.length - MAX_LISTED_FILES} more`);
+          }
+          console.log(
+            JSON.stringify(
+              buildAskOutput(
+                `[ContentFilter] HUMAN_REVIEW: ${toolName} would read ${review.length} sandbox file(s) needing review:\n` +
+                listed.join("\n")
+              )
+            )
+          );
+        }
+        return exitAfterAudit(0);
+      }
+
+      const listed = blocked
+        .slice(0, MAX_LISTED_FILES)
+        .map((f) => `  ${f.file} — ${blockReasons(f)}`);
+      if (blocked.length > MAX_LISTED_FILES) {
+        listed.push(`  ... and ${blocked.length - MAX_LISTED_FILES} more`);
+      }
+      console.error(
+        `[ContentFilter] BLOCKED: ${toolName} would read ${blocked.length} blocked sandbox file(s):\n` +
+        listed.join("\n")
+      );
+      return exitAfterAudit(2);
+    }
+
+    // Read: extract file path from tool input
     const filePath =
       typeof toolInput?.file_path === "string"
         ? toolInput.file_path
@@ -65,49 +287,67 @@ async function main(): Promise<void> {
           : null;
 
     if (!filePath) {
-      process.exit(0); // no file path to gate
+      return exitAfterAudit(0); // no file path to gate
     }
 
-    // Check if path is within sandbox directory
-    const sandboxDir =
-      process.env.CONTENT_FILTER_SANDBOX_DIR ??
-      process.env.CONTENT_FILTER_SHARED_DIR; // deprecated fallback
-    if (!sandboxDir || !filePath.startsWith(sandboxDir)) {
-      process.exit(0); // not in sandbox — passthrough
+    // Check if path is within sandbox directory (after cwd and symlink
+    // resolution). file_path is literal: `$x.md` or `notes?.md` is a file
+    // name, not something to expand.
+    const resolvedPath = canonicalizePath(filePath, cwd, { literal: true });
+    if (!resolvedPath) {
+      console.error(`[ContentFilter] BLOCKED: cannot resolve path: ${filePath} (fail-closed)`);
+      return exitAfterAudit(2); // fail-closed: unresolvable path
+    }
+    if (!isPathWithin(resolvedPath, sandboxDir)) {
+      return exitAfterAudit(0); // not in sandbox — passthrough
     }
 
     // Check file exists before filtering
-    if (!existsSync(filePath)) {
+    if (!existsSync(resolvedPath)) {
       console.error(`[ContentFilter] BLOCKED: file not found: ${filePath} (fail-closed)`);
-      process.exit(2); // fail-closed: file not found
+      return exitAfterAudit(2); // fail-closed: file not found
     }
 
-    // Run content filter
-    const result = filterContent(filePath);
+    // Run content filter (cached by content hash + config hash; baselined
+    // findings drop out; remembered approvals replace BLOCKED/HUMAN_REVIEW
+    // for unchanged content, matched on the file's sandbox repo)
+    const result = filterContent(
+      resolvedPath,
+      undefined,
+      undefined,
+      auditConfig,
+      { sourceRepo: sandboxRepoName(resolvedPath, sandboxDir) ?? undefined },
+      {
+        cacheConfig: resolveCacheConfig(),
+        approvalStore: resolveApprovalStoreConfig(),
+        baselines: resolveBaselines(),
+      }
+    );
 
-    if (result.decision === "BLOCKED") {
+    if (result.decision === "BLOCKED" && redeemGrants([result], sandboxDir).length > 0) {
       // Output block reason to stderr
-      const patternIds = result.matches.map((m) => m.pattern_id).join(", ");
-      const encodingTypes = result.encodings.map((e) => e.type).join(", ");
-      const reasons: string[] = [];
-      if (patternIds) reasons.push(`patterns: ${patternIds}`);
-      if (encodingTypes) reasons.push(`encodings: ${encodingTypes}`);
-      if (!result.schema_valid) reasons.push("schema validation failed");
-
       console.error(
-        `[ContentFilter] BLOCKED: ${filePath} — ${reasons.join("; ")}`
+        `[ContentFilter] BLOCKED: ${filePath} — ${blockReasons(result)}`
+      );
+      return exitAfterAudit(2);
+    }
+
+    if (reviewAction(result, resolveReviewPolicy()) === "ask") {
+      console.log(
+        JSON.stringify(
+          buildAskOutput(`[ContentFilter] HUMAN_REVIEW: ${filePath} — ${reviewSummary(result)}`)
+        )
       );
-      process.exit(2);
     }
 
-    // ALLOWED or HUMAN_REVIEW — allow through
-    process.exit(0);
+    // ALLOWED (possibly by a grant), or HUMAN_REVIEW (asked or allowed by policy)
+    return exitAfterAudit(0);
   } catch (e) {
     // Fail-closed: any uncaught error → block
     console.error(
       `[ContentFilter] BLOCKED (fail-closed): ${e instanceof Error ? e.message : String(e)}`
     );
-    process.exit(2);
+    return exitAfterAudit(2);
   }
 }
 
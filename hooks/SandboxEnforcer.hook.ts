@@ -4,9 +4,18 @@
  * PreToolUse hook: Sandbox enforcer for external content acquisition.
  *
  * Intercepts Bash tool calls that acquire external content (git clone,
- * curl -o, wget -O/-P) and blocks them if they target a path outside
- * the sandbox directory. The error message tells Claude the correct
- * command to use, causing an automatic retry to the sandbox.
+ * curl -o/-O, wget, `> file` and `| tee file` after a download, scp/rsync,
+ * svn/hg, gh release download, npm pack, pip download, huggingface-cli,
+ * aria2c, ...) and blocks them if they target a path outside the sandbox
+ * directory. The error message tells
+ * Claude the correct command to use, causing an automatic retry to the
+ * sandbox. Commands that write into the current repository (git fetch of
+ * a URL, gh pr checkout, git submodule add) have no rewrite and are
+ * blocked unless run inside the sandbox.
+ *
+ * Every segment of a compound command line is checked (&&, ||, ;, pipes,
+ * newlines, subshells, $(...) and backticks), with `cd` tracked from the
+ * tool call's cwd so relative destinations resolve correctly.
  *
  * Strategy: exit 2 + stderr instruction. Claude Code's updatedInput
  * mechanism does not apply in bypassPermissions mode, so we block
@@ -24,15 +33,8 @@
  *   CONTENT_FILTER_ENFORCER_MODE — "rewrite" (default) or "block"
  */
 
-import {
-  extractFirstCommand,
-  tokenize,
-  classifyCommand,
-} from "../src/lib/command-parser";
-import {
-  rewriteCommand,
-  buildHookOutput,
-} from "../src/lib/sandbox-rewriter";
+import { rewriteCommandLine } from "../src/lib/sandbox-rewriter";
+import { resolveSandboxDir } from "../src/lib/path-resolver";
 import type { EnforcerMode } from "../src/lib/types";
 
 async function main(): Promise<void> {
@@ -50,7 +52,11 @@ async function main(): Promise<void> {
       process.exit(2); // fail-closed: empty stdin
     }
 
-    let input: { tool_name?: string; tool_input?: Record<string, unknown> };
+    let input: {
+      tool_name?: string;
+      tool_input?: Record<string, unknown>;
+      cwd?: unknown;
+    };
     try {
       input = JSON.parse(raw);
     } catch {
@@ -72,8 +78,8 @@ async function main(): Promise<void> {
       process.exit(0); // no command to gate
     }
 
-    // Read environment
-    const sandboxDir = process.env.CONTENT_FILTER_SANDBOX_DIR;
+    // Read environment (sandbox dir canonicalized: ~, $VAR, symlinks)
+    const sandboxDir = resolveSandboxDir();
     if (!sandboxDir) {
       process.exit(0); // fail-open: no sandbox configured
     }
@@ -81,30 +87,29 @@ async function main(): Promise<void> {
     const modeRaw = process.env.CONTENT_FILTER_ENFORCER_MODE ?? "rewrite";
     const mode: EnforcerMode = modeRaw === "block" ? "block" : "rewrite";
 
-    // Parse and classify command
-    const firstCmd = extractFirstCommand(command);
-    const tokens = tokenize(firstCmd);
-    const parsed = classifyCommand(tokens);
-    const result = rewriteCommand(parsed, sandboxDir, mode);
-    const hookOutput = buildHookOutput(result, mode);
+    // Parse, classify and rewrite every segment of the command line
+    const cwd = typeof input.cwd === "string" ? input.cwd : process.cwd();
+    const result = rewriteCommandLine(command, sandboxDir, mode, cwd);
 
-    if (!hookOutput) {
-      process.exit(0); // passthrough: not an acquisition or already sandboxed
+    if (!result.changed) {
+      process.exit(0); // passthrough: no acquisition, or all already sandboxed
     }
 
-    // Acquisition command targeting outside sandbox — block with instruction
-    const rewrittenCmd = hookOutput.hookSpecificOutput.updatedInput?.command;
-    if (rewrittenCmd) {
+    // Acquisition segment targeting outside sandbox — block with instruction
+    if (result.rewritten) {
       console.error(
         `[SandboxEnforcer] BLOCKED: External content must go to sandbox. ` +
-        `Use this command instead: ${rewrittenCmd}`
+        `Use this command instead: ${result.rewritten}`
       );
       process.exit(2);
     }
 
-    // Block mode or no rewrite available
+    // Block mode or no rewrite available — name each offending segment
+    const offending = result.segments
+      .filter((s) => s.result.changed)
+      .map((s) => `${s.parsed.type} (${s.segment.text})`);
     console.error(
-      `[SandboxEnforcer] BLOCKED: ${parsed.type} must target sandbox directory ${sandboxDir}`
+      `[SandboxEnforcer] BLOCKED: ${offending.join(", ")} must target sandbox directory ${sandboxDir}`
     );
     process.exit(2);
   } catch (e) {
@@ -1,10 +1,49 @@
 #!/usr/bin/env bun
 
-import { filterContent } from "./lib/content-filter";
+import { filterContent, resolveConfig } from "./lib/content-filter";
+import { filterDirectory } from "./lib/directory-scanner";
+import { clearResultCache, resolveCacheConfig } from "./lib/result-cache";
+import { resolveApprovalStoreConfig } from "./lib/approval-store";
+import {
+  issueBypassGrant,
+  listBypassGrants,
+  resolveBypassGrantStore,
+  revokeBypassGrant,
+} from "./lib/bypass-grants";
 import { loadConfig, loadConfigFromString } from "./lib/pattern-matcher";
-import { readAuditLog, buildAuditConfig } from "./lib/audit";
-import { join } from "path";
-import { homedir } from "os";
+import { findSuppressionDirectives } from "./lib/suppressions";
+import { createBaseline, defaultBaselinePath, loadBaseline, writeBaseline } from "./lib/baseline";
+import {
+  readAuditLog,
+  buildAuditConfig,
+  hashContent,
+  resolveAuditConfig,
+  resolveFilterAuditConfig,
+  verifyAuditLog,
+  DEFAULT_AUDIT_DIR,
+} from "./lib/audit";
+import { migrateJsonlToSqlite } from "./lib/audit-sqlite";
+import { formatAuditSummary, summarizeAudit } from "./lib/audit-stats";
+import { exportAuditLog } from "./lib/audit-export";
+import {
+  buildForwardConfig,
+  flushAuditSpool,
+  resolveForwardConfig,
+  settleAuditForwarding,
+} from "./lib/audit-forward";
+import { AuditBackend, AuditExportFormat, AuditStatsBucket } from "./lib/types";
+import type {
+  AuditConfig,
+  AuditForwardConfig,
+  BypassGrantScope,
+  ReviewQueueItem,
+} from "./lib/types";
+import { listReviewQueue, runReviewSession } from "./lib/review-queue";
+import type { ReviewIO } from "./lib/review-queue";
+import { userInfo } from "os";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { DEFAULT_KEY_DIR, resolveSigningKeyDir, rotateSigningKey } from "./lib/audit-keys";
 import { DEFAULT_CONFIG_YAML } from "./lib/default-config";
 
 function printUsage(): void {
@@ -12,22 +51,179 @@ function printUsage(): void {
 
 Commands:
   check <file>     Check a file against the content filter
+  scan <dir>       Recursively check every text file in a directory
+  baseline create <dir>  Record a directory's current review-severity findings as known
   audit            Display audit trail entries
+  audit verify     Verify the audit log hash chain (current, rotated and past months)
+  audit migrate    Import all JSONL audit files into <log-dir>/audit.db (sqlite)
+  audit stats      Summarize decisions, patterns, approvers and the review backlog
+  audit export     Print audit entries as cef, syslog, ocsf or csv (oldest first)
+  audit flush      Deliver spooled entries to the live forward collector
   config           Display loaded filter configuration summary
+  suppressions <file>  List inline content-filter-ignore directives and their allowlist hashes
+  cache clear      Delete all cached filter results
+  keys rotate      Generate a new audit signing key and make it active
+  review           Decide pending HUMAN_REVIEW items one keystroke at a time
+  review list      List pending HUMAN_REVIEW items from the audit trail
+  bypass grant     Let the hook allow BLOCKED content by hash, path glob or repo, for a while
+  bypass list      List live bypass grants
+  bypass revoke <id>  Remove a bypass grant
 
 Options:
   --json               Machine-readable JSON output
   --config <path>      Path to filter-patterns.yaml (default: bundled config)
-  --format <fmt>       Override file format detection (yaml|json|markdown|mixed)
+  --format <fmt>       Override file format detection (yaml|json|markdown|mixed);
+                       audit export: cef|syslog|ocsf|csv
+  --include <glob>     Only scan files matching glob (scan; repeatable)
+  --exclude <glob>     Skip files matching glob (scan; repeatable)
+  --baseline <file>    Only findings not in this baseline count (check, scan; repeatable)
+  --output <file>      Baseline file to write (default: ~/.config/content-filter/baselines/<dir>.json)
   --last <N>           Show last N audit entries (default: 20)
   --decision <type>    Filter audit entries by decision (ALLOWED|BLOCKED|etc.)
   --log-dir <path>     Audit log directory
+  --backend <name>     Audit backend: jsonl (default) or sqlite
+  --since <date>       Audit entries at or after a date/ISO timestamp
+  --until <date>       Audit entries before a date/ISO timestamp
+  --session <id>       Audit entries for a session_id
+  --repo <name>        Audit entries for a source_repo; bypass grant for a sandbox repo
+  --file <glob>        Audit entries whose source_file matches a glob
+  --pattern <id>       Audit entries that matched a pattern ID
+  --approver <name>    Audit entries by an approver
+  --hash <sha256>      Audit entries for a content_hash
+  --bucket <period>    Audit stats trend period: day (default), week or month
+  --top <N>            Audit stats top-N list length (default: 10)
+  --forward <target>   Audit flush collector (default: CONTENT_FILTER_AUDIT_FORWARD)
+  --spool-dir <path>   Audit flush spool directory
+  --key-dir <path>     Audit signing key directory (audit: check signatures; keys)
+  --reviewer <name>    Identity recorded for review decisions and bypass grants and revocations (default: $USER)
+  --path <glob>        Bypass grant for files matching a path glob
+  --content <file>     Bypass grant for one file's exact content (also --hash <sha256>)
+  --reason <text>      Why a bypass grant is needed (required) or revoked
+  --ttl <duration>     Bypass grant lifetime, e.g. 30m, 4h, 2d (default: 4h)
+  --max-uses <N>       Bypass grant use limit (default: 100)
+  --blocked            Also queue BLOCKED content for override (review)
+  --tool-results       Also queue fetched URLs and searches; they can only be skipped (review)
+  --no-cache           Ignore the result cache (check, scan)
   -h, --help           Show this help message
 
 Exit codes:
   0  ALLOWED or HUMAN_REVIEW
   1  Error
-  2  BLOCKED`);
+  2  BLOCKED (scan: any file BLOCKED; audit verify: chain broken)`);
+}
+
+/**
+ * Collect every value of a repeatable flag (e.g. --include a --include b).
+ */
+function collectFlagValues(args: string[], flag: string): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < args.length - 1; i++) {
+    if (args[i] === flag) values.push(args[i + 1]!);
+  }
+  return values;
+}
+
+/**
+ * Value following a flag, or undefined when the flag is absent.
+ */
+function flagValue(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+/**
+ * Parse a duration such as "30m", "4h" or "2d" into milliseconds.
+ */
+function parseDuration(value: string): number | null {
+  const match = value.match(/^(\d+(?:\.\d+)?)([mhd])$/);
+  if (!match) return null;
+  const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as "m" | "h" | "d"];
+  return Number(match[1]) * unit;
+}
+
+/**
+ * Keystroke input for `review`. A terminal is put in raw mode so a
+ * decision is a single key; piped input is read character by character
+ * with newlines between keys ignored. Ctrl-C or Ctrl-D quits.
+ */
+function stdinReviewIO(): { io: ReviewIO; close(): void } {
+  const stdin = process.stdin;
+  const tty = stdin.isTTY === true;
+  const chars: string[] = [];
+  let ended = false;
+  let wake: (() => void) | null = null;
+
+  const onData = (chunk: Buffer) => {
+    chars.push(...chunk.toString("utf-8"));
+    wake?.();
+  };
+  const onEnd = () => {
+    ended = true;
+    wake?.();
+  };
+  if (tty) stdin.setRawMode(true);
+  stdin.on("data", onData);
+  stdin.on("end", onEnd);
+  stdin.resume();
+
+  async function nextChar(): Promise<string> {
+    while (chars.length === 0 && !ended) {
+      await new Promise<void>((r) => (wake = r));
+    }
+    wake = null;
+    return chars.shift() ?? "";
+  }
+
+  const io: ReviewIO = {
+    async readKey() {
+      for (;;) {
+        const c = await nextChar();
+        if (c === "\x03" || c === "\x04") return "";
+        if (c !== "\n" && c !== "\r") return c;
+      }
+    },
+    async readLine() {
+      let line = "";
+      for (;;) {
+        const c = await nextChar();
+        if (c === "" || c === "\x03" || c === "\x04") return null;
+        if (c === "\n" || c === "\r") {
+          if (line === "" && !tty) continue; // newline after the key
+          process.stdout.write("\n");
+          return line;
+        }
+        if (c === "\x7f") {
+          if (line.length > 0 && tty) process.stdout.write("\b \b");
+          line = line.slice(0, -1);
+          continue;
+        }
+        line += c;
+        if (tty) process.stdout.write(c);
+      }
+    },
+    write: (text) => {
+      process.stdout.write(text);
+    },
+  };
+
+  return {
+    io,
+    close() {
+      stdin.off("data", onData);
+      stdin.off("end", onEnd);
+      if (tty) stdin.setRawMode(false);
+      stdin.pause();
+    },
+  };
+}
+
+/**
+ * Exit once live audit forwarding has settled. Exiting mid-delivery
+ * leaves the record claimed in the spool, and the next flush sends it
+ * again. Returns at once; callers return right after.
+ */
+function exitAfterAudit(code: number): void {
+  void settleAuditForwarding().then(() => process.exit(code));
 }
 
 function main(): void {
@@ -44,6 +240,10 @@ function main(): void {
     configIdx >= 0 ? args[configIdx + 1] : undefined;
   const formatIdx = args.indexOf("--format");
   const formatOverride = formatIdx >= 0 ? args[formatIdx + 1] : undefined;
+  const cacheConfig = args.includes("--no-cache")
+    ? undefined
+    : resolveCacheConfig();
+  const approvalStore = resolveApprovalStoreConfig();
 
   const command = args[0];
 
@@ -54,7 +254,8 @@ function main(): void {
           i > 0 &&
           !a.startsWith("--") &&
           args[i - 1] !== "--config" &&
-          args[i - 1] !== "--format"
+          args[i - 1] !== "--format" &&
+          args[i - 1] !== "--baseline"
       );
 
       if (!filePath) {
@@ -67,7 +268,19 @@ function main(): void {
         const format = formatOverride
           ? (formatOverride as "yaml" | "json" | "markdown" | "mixed")
           : undefined;
-        const result = filterContent(filePath, format, configPath);
+        // Absolute path, so a queued review can re-read the file
+        const result = filterContent(
+          resolve(filePath),
+          format,
+          configPath,
+          resolveFilterAuditConfig(),
+          undefined,
+          {
+            cacheConfig,
+            approvalStore,
+            baselines: collectFlagValues(args, "--baseline").map(loadBaseline),
+          }
+        );
 
         if (jsonFlag) {
           console.log(JSON.stringify(result, null, 2));
@@ -75,6 +288,11 @@ function main(): void {
           console.log(`File: ${result.file}`);
           console.log(`Format: ${result.format}`);
           console.log(`Decision: ${result.decision}`);
+          if (result.approval) {
+            console.log(
+              `Approved by ${result.approval.approver} until ${result.approval.expires_at} (audit seq ${result.approval.audit_seq ?? "?"})`
+            );
+          }
 
           if (result.encodings.length > 0) {
             console.log(`\nEncoding detections:`);
@@ -94,13 +312,101 @@ function main(): void {
             }
           }
 
+          if (result.baselined_matches) {
+            console.log(`\nKnown findings (baseline): ${result.baselined_matches.length}`);
+          }
+
+          if (result.suppressed_matches) {
+            console.log(`\nSuppressed matches (allowlisted directives):`);
+            for (const m of result.suppressed_matches) {
+              console.log(
+                `  [${m.pattern_id}] ${m.pattern_name} line ${m.line}:${m.column} — ${m.suppression_reason}`
+              );
+            }
+          }
+
           if (!result.schema_valid) {
             console.log(`\nSchema validation: FAILED`);
           }
         }
 
         // Exit code: 0 for ALLOWED/HUMAN_REVIEW, 2 for BLOCKED
-        process.exit(result.decision === "BLOCKED" ? 2 : 0);
+        return exitAfterAudit(result.decision === "BLOCKED" ? 2 : 0);
+      } catch (e) {
+        if (jsonFlag) {
+          console.log(
+            JSON.stringify({
+              error: e instanceof Error ? e.message : String(e),
+            })
+          );
+        } else {
+          console.error(
+            `Error: ${e instanceof Error ? e.message : String(e)}`
+          );
+        }
+        return exitAfterAudit(1);
+      }
+    }
+
+    case "scan": {
+      const dirPath = args.find(
+        (a, i) =>
+          i > 0 &&
+          !a.startsWith("--") &&
+          args[i - 1] !== "--config" &&
+          args[i - 1] !== "--include" &&
+          args[i - 1] !== "--exclude" &&
+          args[i - 1] !== "--baseline"
+      );
+
+      if (!dirPath) {
+        console.error("Error: no directory specified");
+        console.error("Usage: content-filter scan <dir>");
+        process.exit(1);
+      }
+
+      try {
+        const result = filterDirectory(resolve(dirPath), {
+          include: collectFlagValues(args, "--include"),
+          exclude: collectFlagValues(args, "--exclude"),
+          configPath,
+          auditConfig: resolveFilterAuditConfig(),
+          cacheConfig,
+          approvalStore,
+          baselines: collectFlagValues(args, "--baseline").map(loadBaseline),
+        });
+
+        if (jsonFlag) {
+          console.log(JSON.stringify(result, null, 2));
+        } else {
+          console.log(`Directory: ${result.root}\n`);
+          for (const file of result.files) {
+            const ids = [
+              ...file.encodings.map((e) => `encoding:${e.type}`),
+              ...file.matches.map((m) => m.pattern_id),
+              ...(file.schema_valid ? [] : ["schema"]),
+            ];
+            const detail = ids.length > 0 ? `  (${[...new Set(ids)].join(", ")})` : "";
+            console.log(
+              `  ${file.decision.padEnd(14)}  ${file.file}${detail}`
+            );
+          }
+          for (const skip of result.skipped) {
+            console.log(`  ${"SKIPPED".padEnd(14)}  ${skip.file}  (${skip.reason})`);
+          }
+
+          const s = result.summary;
+          console.log(
+            `\nScanned ${s.scanned} files: ${s.allowed} allowed, ${s.human_review} human review, ${s.blocked} blocked, ${s.skipped} skipped`
+          );
+          const known = result.files.reduce((n, f) => n + (f.baselined_matches?.length ?? 0), 0);
+          if (known > 0) {
+            console.log(`Known findings (baseline): ${known}`);
+          }
+          console.log(`Verdict: ${result.decision}`);
+        }
+
+        return exitAfterAudit(result.decision === "BLOCKED" ? 2 : 0);
       } catch (e) {
         if (jsonFlag) {
           console.log(
@@ -113,8 +419,48 @@ function main(): void {
             `Error: ${e instanceof Error ? e.message : String(e)}`
           );
         }
+        return exitAfterAudit(1);
+      }
+    }
+
+    case "baseline": {
+      const dirPath = args.find(
+        (a, i) =>
+          i > 1 &&
+          !a.startsWith("--") &&
+          args[i - 1] !== "--config" &&
+          args[i - 1] !== "--include" &&
+          args[i - 1] !== "--exclude" &&
+          args[i - 1] !== "--output"
+      );
+      if (args[1] !== "create" || !dirPath) {
+        console.error("Usage: content-filter baseline create <dir> [--output <file>]");
+        process.exit(1);
+      }
+
+      try {
+        const baseline = createBaseline(dirPath, {
+          include: collectFlagValues(args, "--include"),
+          exclude: collectFlagValues(args, "--exclude"),
+          configPath,
+        });
+        const output = flagValue(args, "--output") ?? defaultBaselinePath(dirPath);
+        writeBaseline(output, baseline);
+        if (jsonFlag) {
+          console.log(JSON.stringify({ path: output, ...baseline }, null, 2));
+        } else {
+          const files = new Set(baseline.findings.map((f) => f.file)).size;
+          console.log(
+            `Baseline: ${baseline.findings.length} known findings in ${files} files under ${baseline.root}`
+          );
+          console.log(`Written to ${output}`);
+          console.log(`Use it with --baseline ${output} (or CONTENT_FILTER_BASELINE for the hook).`);
+        }
+      } catch (e) {
+        console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
         process.exit(1);
       }
+      break;
     }
 
     case "audit": {
@@ -122,7 +468,183 @@ function main(): void {
       const logDir =
         logDirIdx >= 0 && args[logDirIdx + 1]
           ? args[logDirIdx + 1]!
-          : join(homedir(), ".config", "content-filter", "audit");
+          : DEFAULT_AUDIT_DIR;
+      const keyDirIdx = args.indexOf("--key-dir");
+      const keyDir =
+        keyDirIdx >= 0 && args[keyDirIdx + 1]
+          ? args[keyDirIdx + 1]!
+          : resolveSigningKeyDir();
+      const backendValue =
+        flagValue(args, "--backend") ?? process.env.CONTENT_FILTER_AUDIT_BACKEND ?? "jsonl";
+      const backend = AuditBackend.safeParse(backendValue);
+      if (!backend.success) {
+        console.error(`Error: unknown audit backend: ${backendValue} (jsonl|sqlite)`);
+        process.exit(1);
+      }
+      const auditConfig = buildAuditConfig(logDir, {
+        signingKeyDir: keyDir,
+        backend: backend.data,
+      });
+
+      if (args[1] === "migrate") {
+        try {
+          const result = migrateJsonlToSqlite(auditConfig);
+          if (jsonFlag) {
+            console.log(JSON.stringify(result, null, 2));
+          } else {
+            console.log(`Migrated ${result.files.length} JSONL file(s) into ${result.db}:`);
+            console.log(`  Imported:  ${result.imported}`);
+            console.log(`  Skipped:   ${result.skipped} (already present)`);
+            console.log(`  Malformed: ${result.malformed}`);
+          }
+        } catch (e) {
+          console.error(
+            `Error migrating audit log: ${e instanceof Error ? e.message : String(e)}`
+          );
+          process.exit(1);
+        }
+        break;
+      }
+
+      if (args[1] === "verify") {
+        try {
+          const result = verifyAuditLog(auditConfig);
+          if (jsonFlag) {
+            console.log(JSON.stringify(result, null, 2));
+          } else if (result.files.length === 0) {
+            console.log("No audit log files found.");
+          } else {
+            console.log(`Audit chain: ${result.valid ? "INTACT" : "BROKEN"}`);
+            console.log(`  Files:   ${result.files.length}`);
+            console.log(`  Entries: ${result.entries} chained, ${result.legacy_entries} legacy`);
+            if (result.first_seq !== null) {
+              console.log(`  Seq:     ${result.first_seq}..${result.last_seq}`);
+              console.log(`  Head:    ${result.last_hash}`);
+            }
+            if (result.pruned) {
+              console.log("  Note:    oldest entries were removed by rotation");
+            }
+            if (result.break) {
+              const seq = result.break.seq !== undefined ? ` (seq ${result.break.seq})` : "";
+              console.log(
+                `  First broken link: ${result.break.file}:${result.break.line}${seq} — ${result.break.reason}`
+              );
+            }
+          }
+          process.exit(result.valid ? 0 : 2);
+        } catch (e) {
+          console.error(
+            `Error verifying audit log: ${e instanceof Error ? e.message : String(e)}`
+          );
+          process.exit(1);
+        }
+      }
+
+      for (const flag of ["--since", "--until"]) {
+        const value = flagValue(args, flag);
+        if (value !== undefined && isNaN(new Date(value).getTime())) {
+          console.error(`Error: invalid date for ${flag}: ${value}`);
+          process.exit(1);
+        }
+      }
+
+      if (args[1] === "stats") {
+        const bucketValue = flagValue(args, "--bucket") ?? "day";
+        const bucket = AuditStatsBucket.safeParse(bucketValue);
+        if (!bucket.success) {
+          console.error(`Error: unknown bucket: ${bucketValue} (day|week|month)`);
+          process.exit(1);
+        }
+        const topValue = flagValue(args, "--top");
+        const top = topValue !== undefined ? parseInt(topValue, 10) : undefined;
+        if (top !== undefined && !(top > 0)) {
+          console.error(`Error: --top must be a positive number: ${topValue}`);
+          process.exit(1);
+        }
+
+        try {
+          const summary = summarizeAudit(auditConfig, {
+            since: flagValue(args, "--since"),
+            until: flagValue(args, "--until"),
+            sourceRepo: flagValue(args, "--repo"),
+            bucket: bucket.data,
+            top,
+          });
+          console.log(
+            jsonFlag ? JSON.stringify(summary, null, 2) : formatAuditSummary(summary)
+          );
+        } catch (e) {
+          console.error(
+            `Error summarizing audit log: ${e instanceof Error ? e.message : String(e)}`
+          );
+          process.exit(1);
+        }
+        break;
+      }
+
+      const query = {
+        since: flagValue(args, "--since"),
+        until: flagValue(args, "--until"),
+        sessionId: flagValue(args, "--session"),
+        sourceRepo: flagValue(args, "--repo"),
+        sourceFile: flagValue(args, "--file"),
+        patternId: flagValue(args, "--pattern"),
+        approver: flagValue(args, "--approver"),
+        contentHash: flagValue(args, "--hash"),
+      };
+
+      if (args[1] === "export") {
+        const format = AuditExportFormat.safeParse(formatOverride);
+        if (!format.success) {
+          console.error("Usage: content-filter audit export --format cef|syslog|ocsf|csv");
+          process.exit(1);
+        }
+
+        try {
+          const decision = flagValue(args, "--decision");
+          for (const line of exportAuditLog(auditConfig, format.data, { ...query, decision })) {
+            console.log(line);
+          }
+        } catch (e) {
+          console.error(
+            `Error exporting audit log: ${e instanceof Error ? e.message : String(e)}`
+          );
+          process.exit(1);
+        }
+        break;
+      }
+
+      if (args[1] === "flush") {
+        let forward: AuditForwardConfig | undefined;
+        try {
+          const target = flagValue(args, "--forward");
+          const spoolDir = flagValue(args, "--spool-dir");
+          forward = target ? buildForwardConfig(target) : resolveForwardConfig();
+          if (forward && spoolDir) forward = { ...forward, spoolDir };
+        } catch (e) {
+          console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+          process.exit(1);
+        }
+        if (!forward) {
+          console.error(
+            "Error: no collector configured (--forward <target> or CONTENT_FILTER_AUDIT_FORWARD)"
+          );
+          process.exit(1);
+        }
+
+        flushAuditSpool(forward).then((result) => {
+          if (jsonFlag) {
+            console.log(JSON.stringify(result, null, 2));
+          } else {
+            console.log(`Delivered ${result.delivered} spooled record(s) to ${forward.target}.`);
+            if (result.pending > 0) console.log(`  Still spooled: ${result.pending}`);
+            if (result.error) console.log(`  Error: ${result.error}`);
+          }
+          process.exit(result.error ? 1 : 0);
+        });
+        break;
+      }
+
       const lastIdx = args.indexOf("--last");
       const last =
         lastIdx >= 0 && args[lastIdx + 1]
@@ -133,8 +655,8 @@ function main(): void {
         decisionIdx >= 0 ? args[decisionIdx + 1] : undefined;
 
       try {
-        const auditConfig = buildAuditConfig(logDir);
         const entries = readAuditLog(auditConfig, {
+          ...query,
           last,
           decision: decisionFilter,
         });
@@ -149,16 +671,42 @@ function main(): void {
             for (const entry of entries) {
               const ts = entry.timestamp.replace("T", " ").replace(/\.\d+Z$/, "Z");
               console.log(
-                `  ${ts}  ${entry.decision.padEnd(14)}  ${entry.source_file}`
+                `  ${ts}  ${entry.decision.padEnd(14)}  ${entry.source_file}${entry.cache_hit ? "  (cached)" : ""}`
               );
+              if (entry.signature_valid === false) {
+                console.log(
+                  `    SIGNATURE INVALID${entry.key_id ? ` (key ${entry.key_id})` : " (unsigned)"}`
+                );
+              }
               if (entry.matched_patterns.length > 0) {
                 console.log(
                   `    patterns: ${entry.matched_patterns.join(", ")}`
                 );
               }
+              if (entry.suppressed_patterns?.length) {
+                console.log(`    suppressed: ${entry.suppressed_patterns.join(", ")}`);
+              }
+              if (entry.baselined_patterns?.length) {
+                console.log(`    baselined: ${entry.baselined_patterns.join(", ")}`);
+              }
+              for (const ev of entry.evidence ?? []) {
+                const via = ev.encoding_type ? ` (${ev.encoding_type} at ${ev.encoded_line}:${ev.encoded_column})` : "";
+                console.log(`    evidence: ${ev.pattern_id} line ${ev.line}:${ev.column}${via} ${JSON.stringify(ev.snippet)}`);
+              }
               if (entry.approver) {
                 console.log(`    approver: ${entry.approver}`);
               }
+              if (entry.denial) {
+                console.log(`    denied ${entry.denial.action}: ${entry.denial.reason}`);
+              }
+              if (entry.grant) {
+                console.log(`    grant: ${entry.grant.id} (${entry.grant.uses}/${entry.grant.max_uses})`);
+              }
+              if (entry.quorum) {
+                console.log(
+                  `    quorum: ${entry.quorum.action} ${entry.quorum.approvers.length}/${entry.quorum.required} (${entry.quorum.approvers.join(", ")})`
+                );
+              }
               if (entry.reason) {
                 console.log(`    reason: ${entry.reason}`);
               }
@@ -186,6 +734,7 @@ function main(): void {
                 version: config.version,
                 pattern_count: config.patterns.length,
                 encoding_rule_count: config.encoding_rules.length,
+                suppression_count: config.suppressions?.length ?? 0,
                 categories: {
                   injection: config.patterns.filter(
                     (p) => p.category === "injection"
@@ -217,6 +766,7 @@ function main(): void {
           console.log(
             `  Encoding rules: ${config.encoding_rules.length}`
           );
+          console.log(`  Suppressions: ${config.suppressions?.length ?? 0}`);
         }
       } catch (e) {
         console.error(
@@ -227,6 +777,308 @@ function main(): void {
       break;
     }
 
+    case "suppressions": {
+      const filePath = args.find(
+        (a, i) => i > 0 && !a.startsWith("--") && args[i - 1] !== "--config"
+      );
+      if (!filePath) {
+        console.error("Usage: content-filter suppressions <file> [--config <path>]");
+        process.exit(1);
+      }
+
+      try {
+        const trusted = new Set((resolveConfig(configPath).suppressions ?? []).map((s) => s.hash));
+        const directives = findSuppressionDirectives(readFileSync(filePath, "utf-8")).map(
+          (d) => ({ ...d, allowlisted: trusted.has(d.hash) })
+        );
+        if (jsonFlag) {
+          console.log(JSON.stringify(directives, null, 2));
+          break;
+        }
+        if (directives.length === 0) {
+          console.log(`No content-filter-ignore directives in ${filePath}.`);
+          break;
+        }
+        for (const d of directives) {
+          console.log(
+            `  line ${d.line}  ${d.pattern_id}  ${d.allowlisted ? "allowlisted" : "not allowlisted"} — ${d.reason}`
+          );
+          console.log(`    hash: ${d.hash}`);
+        }
+        const missing = directives.filter((d) => !d.allowlisted);
+        if (missing.length > 0) {
+          console.log(`\nTo honour them, add to the filter config after review:\n\nsuppressions:`);
+          for (const d of missing) {
+            console.log(`  - hash: "${d.hash}"\n    note: "${filePath}:${d.line} ${d.pattern_id}"`);
+          }
+        }
+      } catch (e) {
+        console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+        process.exit(1);
+      }
+      break;
+    }
+
+    case "cache": {
+      if (args[1] !== "clear") {
+        console.error("Usage: content-filter cache clear");
+        process.exit(1);
+      }
+
+      const cache = resolveCacheConfig();
+      if (!cache) {
+        console.log("Result cache is disabled (CONTENT_FILTER_CACHE=off).");
+        break;
+      }
+
+      try {
+        clearResultCache(cache);
+        console.log(`Cleared result cache: ${cache.cacheDir}`);
+      } catch (e) {
+        console.error(
+          `Error clearing cache: ${e instanceof Error ? e.message : String(e)}`
+        );
+        process.exit(1);
+      }
+      break;
+    }
+
+    case "keys": {
+      if (args[1] !== "rotate") {
+        console.error("Usage: content-filter keys rotate [--key-dir <path>]");
+        process.exit(1);
+      }
+
+      const keyDirIdx = args.indexOf("--key-dir");
+      const keyDir =
+        keyDirIdx >= 0 && args[keyDirIdx + 1]
+          ? args[keyDirIdx + 1]!
+          : process.env.CONTENT_FILTER_KEY_DIR ?? DEFAULT_KEY_DIR;
+
+      try {
+        const key = rotateSigningKey(keyDir);
+        if (jsonFlag) {
+          console.log(JSON.stringify({ key_id: key.id, key_dir: keyDir }));
+        } else {
+          console.log(`New signing key ${key.id} is now active (${keyDir}).`);
+          console.log("Previous keys are kept so existing entries still verify.");
+        }
+      } catch (e) {
+        console.error(
+          `Error rotating key: ${e instanceof Error ? e.message : String(e)}`
+        );
+        process.exit(1);
+      }
+      break;
+    }
+
+    case "review": {
+      let auditConfig: AuditConfig | undefined;
+      try {
+        auditConfig = resolveAuditConfig();
+      } catch (e) {
+        console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+        process.exit(1);
+      }
+      if (!auditConfig) {
+        console.error("Error: the review queue needs the audit trail (CONTENT_FILTER_AUDIT=off)");
+        process.exit(1);
+      }
+      const logDir = flagValue(args, "--log-dir");
+      if (logDir) auditConfig = { ...auditConfig, logDir };
+      const backendValue = flagValue(args, "--backend");
+      if (backendValue) {
+        const backend = AuditBackend.safeParse(backendValue);
+        if (!backend.success) {
+          console.error(`Error: unknown audit backend: ${backendValue} (jsonl|sqlite)`);
+          process.exit(1);
+        }
+        auditConfig = { ...auditConfig, backend: backend.data };
+      }
+
+      let items: ReviewQueueItem[];
+      try {
+        items = listReviewQueue(auditConfig, {
+          includeBlocked: args.includes("--blocked"),
+          includeToolResults: args.includes("--tool-results"),
+          query: {
+            since: flagValue(args, "--since"),
+            until: flagValue(args, "--until"),
+            sourceRepo: flagValue(args, "--repo"),
+          },
+        });
+      } catch (e) {
+        console.error(
+          `Error reading review queue: ${e instanceof Error ? e.message : String(e)}`
+        );
+        process.exit(1);
+      }
+
+      if (args[1] === "list") {
+        if (jsonFlag) {
+          console.log(JSON.stringify(items, null, 2));
+        } else if (items.length === 0) {
+          console.log("No pending reviews.");
+        } else {
+          console.log(`Pending review (${items.length} items):\n`);
+          for (const item of items) {
+            const ids = item.matched_patterns.length > 0 ? `  (${item.matched_patterns.join(", ")})` : "";
+            const times = item.occurrences > 1 ? `  x${item.occurrences}` : "";
+            console.log(
+              `  ${item.first_seen}  ${(item.event_type === "filter_block" ? "BLOCKED" : "HUMAN_REVIEW").padEnd(12)}  ${item.source_file}${ids}${times}`
+            );
+          }
+        }
+        break;
+      }
+
+      if (items.length === 0) {
+        console.log("No pending reviews.");
+        break;
+      }
+
+      const reviewer = flagValue(args, "--reviewer") ?? process.env.USER ?? userInfo().username;
+      const { io, close } = stdinReviewIO();
+      runReviewSession(items, io, {
+        auditConfig,
+        reviewer,
+        configPath,
+        approvalStore,
+        color: process.stdout.isTTY === true && !process.env.NO_COLOR,
+      })
+        .then((summary) => {
+          close();
+          console.log(
+            `Reviewed: ${summary.approved} approved, ${summary.rejected} rejected, ` +
+              `${summary.overridden} overridden, ${summary.skipped} skipped, ${summary.remaining} remaining`
+          );
+          exitAfterAudit(0);
+        })
+        .catch((e) => {
+          close();
+          console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+          exitAfterAudit(1);
+        });
+      break;
+    }
+
+    case "bypass": {
+      const usage =
+        "Usage: content-filter bypass grant (--hash <sha256> | --content <file> | --path <glob> | --repo <name>)\n" +
+        "         --reason <text> [--ttl 4h] [--max-uses 100] [--reviewer <name>]\n" +
+        "       content-filter bypass list [--json]\n" +
+        "       content-filter bypass revoke <id> [--reason <text>] [--reviewer <name>]";
+      const store = resolveBypassGrantStore();
+      if (!store) {
+        console.error("Error: bypass grants are disabled (CONTENT_FILTER_GRANTS=off)");
+        process.exit(1);
+      }
+
+      if (args[1] === "list") {
+        const grants = listBypassGrants(store);
+        if (jsonFlag) {
+          console.log(JSON.stringify(grants, null, 2));
+        } else if (grants.length === 0) {
+          console.log("No live bypass grants.");
+        } else {
+          console.log(`Bypass grants (${grants.length}):\n`);
+          for (const g of grants) {
+            console.log(`  ${g.id}  ${g.scope.padEnd(7)}  ${g.target}`);
+            console.log(
+              `    by ${g.granted_by} until ${g.expires_at}, used ${g.uses}/${g.max_uses} — ${g.reason}`
+            );
+          }
+        }
+        break;
+      }
+
+      if (args[1] === "revoke") {
+        const id = args[2];
+        if (!id || id.startsWith("--")) {
+          console.error(usage);
+          process.exit(1);
+        }
+        const revoked = revokeBypassGrant(store, id, resolveFilterAuditConfig(), {
+          revokedBy: flagValue(args, "--reviewer") ?? process.env.USER ?? userInfo().username,
+          reason: flagValue(args, "--reason"),
+        });
+        if (!revoked) {
+          console.error(`Error: no live bypass grant ${id}`);
+          process.exit(1);
+        }
+        console.log(`Revoked bypass grant ${id}.`);
+        return exitAfterAudit(0);
+      }
+
+      if (args[1] !== "grant") {
+        console.error(usage);
+        process.exit(1);
+      }
+
+      const contentFile = flagValue(args, "--content");
+      const targets: [BypassGrantScope, string | undefined][] = [
+        ["content", flagValue(args, "--hash")],
+        ["content", contentFile],
+        ["path", flagValue(args, "--path")],
+        ["repo", flagValue(args, "--repo")],
+      ];
+      const given = targets.filter(([, v]) => v !== undefined);
+      if (given.length !== 1) {
+        console.error(usage);
+        process.exit(1);
+      }
+      const [scope, value] = given[0]!;
+
+      const ttlValue = flagValue(args, "--ttl");
+      const ttlMs = ttlValue === undefined ? undefined : parseDuration(ttlValue);
+      if (ttlMs === null) {
+        console.error(`Error: invalid --ttl: ${ttlValue} (e.g. 30m, 4h, 2d)`);
+        process.exit(1);
+      }
+      const maxUsesValue = flagValue(args, "--max-uses");
+      const maxUses = maxUsesValue === undefined ? undefined : Number(maxUsesValue);
+
+      const grantedBy = flagValue(args, "--reviewer") ?? process.env.USER ?? userInfo().username;
+      try {
+        // Grants are authorized and counted towards a quorum in the audit trail
+        const auditConfig = resolveAuditConfig();
+        if (!auditConfig) {
+          console.error("Error: bypass grants need the audit trail (CONTENT_FILTER_AUDIT=off)");
+          process.exit(1);
+        }
+        const target = contentFile ? hashContent(readFileSync(contentFile, "utf-8")) : value!;
+        const { grant, quorum } = issueBypassGrant(
+          store,
+          {
+            scope,
+            target,
+            grantedBy,
+            reason: flagValue(args, "--reason") ?? "",
+            ttlMs,
+            maxUses,
+            result: contentFile ? filterContent(resolve(contentFile), undefined, configPath) : undefined,
+          },
+          auditConfig
+        );
+        if (jsonFlag) {
+          console.log(JSON.stringify(grant ?? { quorum }, null, 2));
+        } else if (!grant) {
+          console.log(
+            `Approval recorded (${quorum!.approvers.length}/${quorum!.required} approvers: ${quorum!.approvers.join(", ")}); ` +
+              "the grant is issued once enough bypassers run the same command."
+          );
+        } else {
+          console.log(`Granted ${grant.id}: ${grant.scope} ${grant.target}`);
+          console.log(`  until ${grant.expires_at} or ${grant.max_uses} uses`);
+        }
+      } catch (e) {
+        // A refused issuer was logged as authorization_denied
+        console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+        return exitAfterAudit(1);
+      }
+      return exitAfterAudit(0);
+    }
+
     default:
       console.error(`Unknown command: ${command}`);
       printUsage();
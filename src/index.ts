@@ -1,8 +1,86 @@
 // @metafactory/content-filter: Inbound content security for agent workflows
 
 export { filterContent, filterContentString, detectFormat } from "./lib/content-filter";
+export {
+  filterDirectory,
+  filterFiles,
+  listFiles,
+  isBinaryContent,
+  DEFAULT_SCAN_EXCLUDES,
+} from "./lib/directory-scanner";
+export { resolveSearchScope, listSandboxFiles } from "./lib/search-scope";
+export {
+  isResultTool,
+  extractResponseText,
+  extractContentType,
+  inferResultFormat,
+  resultSource,
+  filterToolResult,
+} from "./lib/tool-result";
 export { loadConfig, loadConfigFromString, matchPatterns, luhnCheck, isPlaceholder } from "./lib/pattern-matcher";
 export { DEFAULT_CONFIG_YAML } from "./lib/default-config";
+export {
+  resolveCacheConfig,
+  hashConfig,
+  buildCacheKey,
+  getCachedResult,
+  setCachedResult,
+  clearResultCache,
+  DEFAULT_CACHE_DIR,
+} from "./lib/result-cache";
+export {
+  resolveApprovalStoreConfig,
+  readApprovals,
+  recordApproval,
+  revokeApprovals,
+  findApproval,
+  approvalRef,
+  rememberApproval,
+  DEFAULT_APPROVALS_DIR,
+  DEFAULT_APPROVAL_TTL_MS,
+} from "./lib/approval-store";
+export {
+  resolveBypassGrantStore,
+  readBypassGrants,
+  isGrantLive,
+  normalizeGrantTarget,
+  grantRequestHash,
+  issueBypassGrant,
+  listBypassGrants,
+  revokeBypassGrant,
+  grantCovers,
+  findBypassGrant,
+  consumeBypassGrant,
+  consumeBypassGrants,
+  redeemBypassGrant,
+  redeemBypassGrants,
+  DEFAULT_GRANTS_DIR,
+  DEFAULT_GRANT_TTL_MS,
+  DEFAULT_GRANT_MAX_USES,
+} from "./lib/bypass-grants";
+export {
+  suppressionHash,
+  findSuppressionDirectives,
+  applySuppressions,
+} from "./lib/suppressions";
+export {
+  createBaseline,
+  writeBaseline,
+  loadBaseline,
+  resolveBaselines,
+  applyBaseline,
+  lineFingerprint,
+  defaultBaselinePath,
+  DEFAULT_BASELINE_DIR,
+} from "./lib/baseline";
+export {
+  expandPath,
+  canonicalizePath,
+  isPathWithin,
+  isInSandbox,
+  sandboxRepoName,
+  resolveSandboxDir,
+} from "./lib/path-resolver";
 export { detectEncoding, looksLikeIdentifier } from "./lib/encoding-detector";
 export { validateSchema } from "./lib/schema-validator";
 export {
@@ -14,9 +92,104 @@ export {
   generateSessionId,
   currentLogName,
   rotateIfNeeded,
+  resolveAuditConfig,
+  resolveFilterAuditConfig,
+  DEFAULT_AUDIT_DIR,
+  listLogFiles,
+  chainHead,
+  verifyAuditLog,
+  GENESIS_HASH,
+  signEntry,
+  verifyEntrySignature,
+  serializeAuditEntry,
+  parseAuditLine,
+  matchesAuditQuery,
+  chainHeadAfter,
+  createJsonlSink,
+  openAuditSink,
+  applyRetention,
+  streamAuditLog,
+  AUDIT_LOCK_NAME,
 } from "./lib/audit";
+export {
+  acquireFileLock,
+  withFileLock,
+  STALE_LOCK_MS,
+  LOCK_TIMEOUT_MS,
+} from "./lib/file-lock";
+export type { FileLockOptions } from "./lib/file-lock";
+export {
+  createSqliteSink,
+  migrateJsonlToSqlite,
+  sqliteDbPath,
+  SQLITE_DB_NAME,
+} from "./lib/audit-sqlite";
+export { summarizeAudit, formatAuditSummary, statsPeriod } from "./lib/audit-stats";
+export {
+  listReviewQueue,
+  loadReviewItem,
+  formatReviewItem,
+  runReviewSession,
+  RESOLVING_EVENTS,
+} from "./lib/review-queue";
+export type { ReviewContext, ReviewIO, ReviewSessionOptions } from "./lib/review-queue";
+export {
+  formatCef,
+  formatSyslog,
+  formatOcsf,
+  formatCsvRow,
+  csvHeader,
+  formatAuditRecord,
+  exportAuditLog,
+  AUDIT_CSV_COLUMNS,
+} from "./lib/audit-export";
+export {
+  parseForwardTarget,
+  resolveForwardConfig,
+  buildForwardConfig,
+  deliverRecord,
+  spoolAuditEntry,
+  flushAuditSpool,
+  forwardAuditEntry,
+  settleAuditForwarding,
+  DEFAULT_SPOOL_DIR,
+} from "./lib/audit-forward";
+export type { ForwardTarget } from "./lib/audit-forward";
+export {
+  buildEvidence,
+  maskText,
+  DEFAULT_EVIDENCE_POLICY,
+  DEFAULT_REDACTED_PATTERNS,
+} from "./lib/audit-evidence";
+export {
+  currentSigningKey,
+  loadSigningKey,
+  rotateSigningKey,
+  resolveSigningKeyDir,
+  keyIdFor,
+  DEFAULT_KEY_DIR,
+} from "./lib/audit-keys";
+export type { SigningKey } from "./lib/audit-keys";
 export { overrideDecision, submitReview } from "./lib/human-review";
 export { bypassFilter } from "./lib/bypass";
+export {
+  resolveQuorumPolicy,
+  quorumRequired,
+  pendingApprovals,
+  recordQuorumApproval,
+  DEFAULT_QUORUM_WINDOW_MS,
+} from "./lib/quorum";
+export {
+  loadReviewerRegistry,
+  loadReviewerRegistryFromString,
+  resolveReviewerRegistry,
+  resultCategories,
+  hasRole,
+  checkAuthorization,
+  enforceAuthorization,
+  ACTION_ROLES,
+  DEFAULT_REVIEWERS_PATH,
+} from "./lib/reviewer-registry";
 export {
   createTypedReference,
   validateProvenance,
@@ -30,14 +203,34 @@ export {
 export { alertBlock } from "./lib/alerts";
 export {
   extractFirstCommand,
+  splitCommandLine,
   tokenize,
+  tokenizeWords,
+  shellQuote,
+  parseCommand,
   classifyCommand,
+  resolveWorkingDir,
+  isRemoteLocation,
+  classifyPipedWrite,
 } from "./lib/command-parser";
+export type { ShellWord } from "./lib/command-parser";
 export {
   extractRepoName,
   rewriteCommand,
+  rewriteCommandLine,
   buildHookOutput,
 } from "./lib/sandbox-rewriter";
+export {
+  loadReviewPolicy,
+  loadReviewPolicyFromString,
+  resolveReviewPolicy,
+  reviewAction,
+  reviewSeverity,
+  reviewSummary,
+  buildAskOutput,
+  DEFAULT_REVIEW_POLICY,
+  DEFAULT_REVIEW_POLICY_PATH,
+} from "./lib/review-policy";
 export { scoreDetections, overallScore } from "./lib/scoring";
 export {
   decodeBase64,
@@ -55,11 +248,60 @@ export {
   EnforcerMode,
   HookOutputSchema,
   SeverityTier,
+  ReviewAction,
+  ReviewSeverity,
+  ReviewPolicySchema,
+  AuditBackend,
+  AuditStatsBucket,
+  AuditExportFormat,
+  AuditEvidenceSchema,
+  ApprovalScope,
+  ApprovalRefSchema,
+  ApprovalRecordSchema,
+  QuorumAction,
+  AuditQuorumSchema,
+  ReviewerRole,
+  ReviewerAction,
+  ReviewerCategory,
+  ReviewerSchema,
+  ReviewerRoleGrantSchema,
+  ReviewerRegistrySchema,
+  AuditDenialSchema,
+  BypassGrantScope,
+  BypassGrantSchema,
+  SuppressionSchema,
+  BaselineSchema,
+  BypassGrantRefSchema,
 } from "./lib/types";
 export type {
   FilterConfig,
   FilterPattern,
   FilterResult,
+  FilterOptions,
+  DirectoryScanOptions,
+  DirectoryScanResult,
+  SearchScope,
+  SkippedFile,
+  ResultCacheConfig,
+  ApprovalStoreConfig,
+  ApprovalRef,
+  ApprovalRecord,
+  ApprovalOptions,
+  QuorumPolicy,
+  AuditQuorum,
+  Reviewer,
+  ReviewerRoleGrant,
+  ReviewerRegistry,
+  AuditDenial,
+  BypassGrant,
+  BypassGrantRef,
+  BypassGrantClaim,
+  BypassGrantKey,
+  BypassGrantStoreConfig,
+  Suppression,
+  SuppressionDirective,
+  Baseline,
+  BaselineFinding,
   PatternMatch,
   EncodingMatch,
   DecodedMatch,
@@ -71,12 +313,38 @@ export type {
   AuditConfig,
   AuditEventType,
   AuditDecision,
+  AuditChainBreak,
+  AuditVerifyResult,
+  ReadAuditEntry,
+  AuditQuery,
+  AuditSink,
+  AuditLogLine,
+  AuditMigrationResult,
+  AuditRetention,
+  AuditForwardConfig,
+  AuditForwardResult,
+  AuditEvidence,
+  AuditEvidencePolicy,
+  AuditStatsOptions,
+  AuditSummary,
+  AuditCount,
+  AuditTrendPeriod,
+  AuditApproverStats,
+  AuditBacklogItem,
+  FalsePositiveCandidate,
+  ReviewQueueItem,
+  ReviewSessionSummary,
   TypedReference,
   ProvenanceResult,
   ParsedCommand,
+  CommandSegment,
   RewriteResult,
+  SegmentRewrite,
+  CommandLineRewriteResult,
   HookOutput,
   ScoredDetection,
   ContentFilterBypassEvent,
+  ReviewRule,
+  ReviewPolicy,
 } from "./lib/types";
 export type { DecodedContent } from "./lib/decoder";
@@ -0,0 +1,234 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { z } from "zod";
+import { hashContent } from "./audit";
+import { resolveConfig } from "./content-filter";
+import { withFileLock } from "./file-lock";
+import { hashConfig } from "./result-cache";
+import { ApprovalRecordSchema } from "./types";
+import type {
+  ApprovalOptions,
+  ApprovalRecord,
+  ApprovalRef,
+  ApprovalStoreConfig,
+  AuditEntry,
+  FileFormat,
+  FilterResult,
+} from "./types";
+
+/**
+ * Default approval store location, next to the audit and cache directories.
+ */
+export const DEFAULT_APPROVALS_DIR = join(homedir(), ".config", "content-filter", "approvals");
+
+export const DEFAULT_APPROVAL_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const APPROVALS_LOCK_NAME = "approvals.lock";
+
+/**
+ * Resolve the approval store used by hooks and the CLI.
+ *
+ * Opt-in: remembered approvals are only consulted with
+ * CONTENT_FILTER_APPROVALS=on. CONTENT_FILTER_APPROVALS_DIR overrides the
+ * location and CONTENT_FILTER_APPROVAL_TTL_DAYS the lifetime of new
+ * approvals (default 30 days).
+ */
+export function resolveApprovalStoreConfig(): ApprovalStoreConfig | undefined {
+  if (process.env.CONTENT_FILTER_APPROVALS !== "on") return undefined;
+  const days = parseFloat(process.env.CONTENT_FILTER_APPROVAL_TTL_DAYS ?? "");
+  return {
+    storeDir: process.env.CONTENT_FILTER_APPROVALS_DIR ?? DEFAULT_APPROVALS_DIR,
+    ttlMs: days > 0 ? days * 24 * 60 * 60 * 1000 : undefined,
+  };
+}
+
+function approvalsPath(store: ApprovalStoreConfig, contentHash: string): string {
+  return join(store.storeDir, `${contentHash}.json`);
+}
+
+/**
+ * Every approval stored for a content hash, including expired ones.
+ * A missing or unreadable file is treated as no approvals.
+ */
+export function readApprovals(store: ApprovalStoreConfig, contentHash: string): ApprovalRecord[] {
+  try {
+    const path = approvalsPath(store, contentHash);
+    if (!existsSync(path)) return [];
+    const parsed = z.array(ApprovalRecordSchema).safeParse(
+      JSON.parse(readFileSync(path, "utf-8"))
+    );
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Rewrite the approvals for one content hash (temp file + rename).
+ * Removes the file when nothing is left.
+ */
+function writeApprovals(
+  store: ApprovalStoreConfig,
+  contentHash: string,
+  records: ApprovalRecord[]
+): void {
+  const path = approvalsPath(store, contentHash);
+  if (records.length === 0) {
+    if (existsSync(path)) unlinkSync(path);
+    return;
+  }
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(records, null, 2), { mode: 0o600 });
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Update the approvals for one content hash under the store lock.
+ * Expired approvals are dropped on every update.
+ */
+function updateApprovals(
+  store: ApprovalStoreConfig,
+  contentHash: string,
+  fn: (records: ApprovalRecord[]) => ApprovalRecord[]
+): void {
+  mkdirSync(store.storeDir, { recursive: true, mode: 0o700 });
+  withFileLock(join(store.storeDir, APPROVALS_LOCK_NAME), () => {
+    const now = Date.now();
+    const live = readApprovals(store, contentHash).filter(
+      (r) => Date.parse(r.expires_at) > now
+    );
+    writeApprovals(store, contentHash, fn(live));
+  });
+}
+
+/**
+ * Store an approval. Approvals for the same content, config, format and
+ * scope target are replaced, so re-approving extends the expiry.
+ */
+export function recordApproval(store: ApprovalStoreConfig, record: ApprovalRecord): void {
+  updateApprovals(store, record.content_hash, (records) => [
+    ...records.filter(
+      (r) =>
+        !(
+          r.config_hash === record.config_hash &&
+          r.format === record.format &&
+          r.scope === record.scope &&
+          r.source_repo === record.source_repo &&
+          r.file === record.file
+        )
+    ),
+    record,
+  ]);
+}
+
+/**
+ * Remove every approval for a content hash. Returns how many were removed.
+ */
+export function revokeApprovals(store: ApprovalStoreConfig, contentHash: string): number {
+  let removed = 0;
+  updateApprovals(store, contentHash, (records) => {
+    removed = records.length;
+    return [];
+  });
+  return removed;
+}
+
+/**
+ * Find a live approval for content filtered under a given config.
+ *
+ * The content hash, config hash and format must match exactly, so any
+ * edit to the content or to the pattern set invalidates the approval.
+ * "repo" approvals also need the same source repo, "file" approvals the
+ * same source repo and file path.
+ */
+export function findApproval(
+  store: ApprovalStoreConfig,
+  key: {
+    contentHash: string;
+    configHash: string;
+    format: FileFormat;
+    sourceRepo?: string;
+    file: string;
+  },
+  now: Date = new Date()
+): ApprovalRecord | null {
+  const records = readApprovals(store, key.contentHash).filter(
+    (r) =>
+      r.config_hash === key.configHash &&
+      r.format === key.format &&
+      Date.parse(r.expires_at) > now.getTime()
+  );
+  return (
+    records.find((r) => {
+      if (r.scope === "content") return true;
+      if ((r.source_repo ?? "") !== (key.sourceRepo ?? "")) return false;
+      return r.scope === "repo" || r.file === key.file;
+    }) ?? null
+  );
+}
+
+/**
+ * The pointer a remembered approval adds to FilterResult and AuditEntry.
+ */
+export function approvalRef(record: ApprovalRecord): ApprovalRef {
+  return {
+    decision: record.decision,
+    approver: record.approver,
+    approved_at: record.approved_at,
+    expires_at: record.expires_at,
+    audit_seq: record.audit_seq,
+    audit_hash: record.audit_hash,
+  };
+}
+
+/**
+ * Remember an override or approval that was just written to the audit
+ * trail, so identical content is not blocked or re-reviewed again.
+ *
+ * The approval is built from the stored audit entry (decision, approver,
+ * reason, seq) and points back at it by line hash. Nothing is remembered
+ * when the audit write failed. Fail-open like the audit write: errors
+ * are logged and the approval is simply not stored.
+ */
+export function rememberApproval(
+  result: FilterResult,
+  content: string,
+  auditLine: string | undefined,
+  opts: ApprovalOptions,
+  sourceRepo?: string
+): void {
+  if (!auditLine) {
+    console.warn("[content-filter] approval not remembered: audit entry was not written");
+    return;
+  }
+  try {
+    const entry = JSON.parse(auditLine) as AuditEntry;
+    if (entry.decision !== "OVERRIDE" && entry.decision !== "HUMAN_APPROVED") return;
+    const config = resolveConfig(opts.configPath);
+    const approvedAt = new Date(entry.timestamp);
+    const ttlMs = opts.ttlMs ?? opts.store.ttlMs ?? DEFAULT_APPROVAL_TTL_MS;
+    const scope = opts.scope ?? "repo";
+    recordApproval(opts.store, {
+      decision: entry.decision,
+      approver: entry.approver ?? "",
+      approved_at: approvedAt.toISOString(),
+      expires_at: new Date(approvedAt.getTime() + ttlMs).toISOString(),
+      audit_seq: entry.seq,
+      audit_hash: createHash("sha256").update(auditLine).digest("hex"),
+      content_hash: hashContent(content),
+      config_hash: hashConfig(config),
+      config_version: config.version,
+      format: result.format,
+      scope,
+      source_repo: scope === "content" ? undefined : sourceRepo,
+      file: scope === "file" ? result.file : undefined,
+      reason: entry.reason,
+    });
+  } catch (e) {
+    console.warn(
+      `[content-filter] approval not remembered: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import type {
+  AuditEvidence,
+  AuditEvidencePolicy,
+  FilterResult,
+  PatternMatch,
+} from "./types";
+
+/**
+ * PII patterns (cards, API keys, emails, user paths) whose matched text
+ * must never be written to the audit log verbatim.
+ */
+export const DEFAULT_REDACTED_PATTERNS = Array.from(
+  { length: 11 },
+  (_, i) => `PII-${String(i + 1).padStart(3, "0")}`
+);
+
+export const DEFAULT_EVIDENCE_POLICY: AuditEvidencePolicy = {
+  redactPatterns: DEFAULT_REDACTED_PATTERNS,
+  maxSnippetLength: 120,
+};
+
+/**
+ * Mask a matched secret, keeping a short prefix so the kind of value is
+ * still recognizable (e.g. "sk-a****************", "AKIA************").
+ */
+export function maskText(text: string): string {
+  const keep = text.length >= 12 ? 4 : text.length >= 6 ? 2 : 0;
+  return text.slice(0, keep) + "*".repeat(text.length - keep);
+}
+
+function snippet(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function evidenceFor(match: PatternMatch, policy: AuditEvidencePolicy): AuditEvidence {
+  const redacted = policy.redactPatterns.includes(match.pattern_id);
+  const text = redacted ? maskText(match.matched_text) : match.matched_text;
+  return {
+    pattern_id: match.pattern_id,
+    line: match.line,
+    column: match.column,
+    snippet: snippet(text, policy.maxSnippetLength),
+    ...(redacted ? { redacted: true } : {}),
+  };
+}
+
+/**
+ * Evidence for every pattern match in a result: position and a
+ * snippet of the matched text (masked for redacted patterns).
+ * Decoded matches carry their encoding and the encoded string's position.
+ */
+export function buildEvidence(result: FilterResult, policy: AuditEvidencePolicy): AuditEvidence[] {
+  const evidence = result.matches.map((m) => evidenceFor(m, policy));
+  for (const d of result.decoded_matches ?? []) {
+    evidence.push({
+      ...evidenceFor(d, policy),
+      encoding_type: d.encoding_type,
+      encoded_line: d.encoded_line,
+      encoded_column: d.encoded_column,
+    });
+  }
+  return evidence;
+}
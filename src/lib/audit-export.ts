@@ -0,0 +1,299 @@
+import { hostname } from "os";
+import pkg from "../../package.json";
+import type {
+  AuditConfig,
+  AuditEntry,
+  AuditEventType,
+  AuditExportFormat,
+  AuditQuery,
+} from "./types";
+import { readAuditLog } from "./audit";
+
+const VENDOR = "metafactory";
+const PRODUCT = "content-filter";
+
+/**
+ * Severity of each event type on the three SIEM scales:
+ * CEF 0-10, syslog (RFC 5424, 0 = emergency .. 7 = debug) and
+ * OCSF severity_id (1 = informational .. 5 = critical).
+ */
+const SEVERITY: Record<AuditEventType, { cef: number; syslog: number; ocsf: number }> = {
+  filter_block: { cef: 8, syslog: 4, ocsf: 4 },
+  authorization_denied: { cef: 8, syslog: 4, ocsf: 4 },
+  content_filter_bypass: { cef: 7, syslog: 4, ocsf: 3 },
+  grant_issued: { cef: 7, syslog: 4, ocsf: 3 },
+  override: { cef: 7, syslog: 4, ocsf: 3 },
+  approval_pending: { cef: 6, syslog: 5, ocsf: 3 },
+  human_review: { cef: 5, syslog: 5, ocsf: 2 },
+  human_reject: { cef: 5, syslog: 5, ocsf: 2 },
+  grant_revoked: { cef: 5, syslog: 5, ocsf: 2 },
+  human_approve: { cef: 3, syslog: 6, ocsf: 1 },
+  filter_pass: { cef: 1, syslog: 6, ocsf: 1 },
+};
+
+/**
+ * RFC 5424 facility 13, "log audit".
+ */
+const SYSLOG_FACILITY = 13;
+
+/**
+ * Structured-data ID; 32473 is the IANA example enterprise number.
+ */
+const SYSLOG_SD_ID = "content-filter@32473";
+
+/**
+ * CSV columns, in order. List fields are joined with ";".
+ */
+export const AUDIT_CSV_COLUMNS = [
+  "timestamp",
+  "seq",
+  "session_id",
+  "event_type",
+  "decision",
+  "source_repo",
+  "source_file",
+  "content_hash",
+  "matched_patterns",
+  "encoding_detections",
+  "schema_valid",
+  "format",
+  "approver",
+  "reason",
+  "cache_hit",
+] as const;
+
+/**
+ * Short human-readable description used as the CEF name, syslog MSG
+ * and OCSF message.
+ */
+function describeEntry(entry: AuditEntry): string {
+  const parts = [`${entry.decision} ${entry.source_file}`];
+  if (entry.matched_patterns.length > 0) parts.push(`patterns ${entry.matched_patterns.join(",")}`);
+  if (entry.approver) parts.push(`by ${entry.approver}`);
+  return parts.join(" ");
+}
+
+// ============================================================
+// CEF
+// ============================================================
+
+function cefHeader(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/[\r\n]+/g, " ");
+}
+
+function cefValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/=/g, "\\=")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * ArcSight Common Event Format (CEF:0). Signature ID is the event type;
+ * content-filter specific fields use the cs/cn custom slots with labels.
+ */
+export function formatCef(entry: AuditEntry): string {
+  const severity = SEVERITY[entry.event_type].cef;
+  const ext: [string, string | number | undefined][] = [
+    ["rt", new Date(entry.timestamp).getTime()],
+    ["act", entry.decision],
+    ["fname", entry.source_file],
+    ["fileHash", entry.content_hash],
+    ["suser", entry.approver],
+    ["reason", entry.reason],
+    ["cs1Label", "sourceRepo"],
+    ["cs1", entry.source_repo || undefined],
+    ["cs2Label", "sessionId"],
+    ["cs2", entry.session_id],
+    ["cs3Label", "matchedPatterns"],
+    ["cs3", entry.matched_patterns.join(",") || undefined],
+    ["cs4Label", "encodingDetections"],
+    ["cs4", entry.encoding_detections.join(",") || undefined],
+    ["cs5Label", "format"],
+    ["cs5", entry.format],
+    ["cn1Label", "seq"],
+    ["cn1", entry.seq],
+  ];
+  const extension = ext
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${cefValue(String(v))}`)
+    .join(" ");
+
+  const header = [
+    "CEF:0",
+    VENDOR,
+    PRODUCT,
+    pkg.version,
+    entry.event_type,
+    describeEntry(entry),
+    String(severity),
+  ].map((field, i) => (i === 0 ? field : cefHeader(field)));
+  return `${header.join("|")}|${extension}`;
+}
+
+// ============================================================
+// Syslog (RFC 5424)
+// ============================================================
+
+function sdValue(value: string): string {
+  return value.replace(/[\\"\]]/g, (c) => `\\${c}`);
+}
+
+/**
+ * RFC 5424 syslog message: facility "log audit", MSGID = event type,
+ * entry fields as structured data, description as the message.
+ */
+export function formatSyslog(entry: AuditEntry, host: string = hostname()): string {
+  const pri = SYSLOG_FACILITY * 8 + SEVERITY[entry.event_type].syslog;
+  const params: [string, string | number | boolean | undefined][] = [
+    ["decision", entry.decision],
+    ["session_id", entry.session_id],
+    ["source_repo", entry.source_repo || undefined],
+    ["source_file", entry.source_file],
+    ["content_hash", entry.content_hash],
+    ["matched_patterns", entry.matched_patterns.join(",") || undefined],
+    ["encoding_detections", entry.encoding_detections.join(",") || undefined],
+    ["schema_valid", entry.schema_valid],
+    ["format", entry.format],
+    ["approver", entry.approver],
+    ["reason", entry.reason],
+    ["cache_hit", entry.cache_hit],
+    ["seq", entry.seq],
+  ];
+  const sd = params
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}="${sdValue(String(v))}"`)
+    .join(" ");
+  const msg = describeEntry(entry).replace(/[\r\n]+/g, " ");
+
+  return `<${pri}>1 ${entry.timestamp} ${host || "-"} ${PRODUCT} - ${entry.event_type} [${SYSLOG_SD_ID} ${sd}] ${msg}`;
+}
+
+// ============================================================
+// OCSF
+// ============================================================
+
+/**
+ * OCSF 1.1 Detection Finding (class 2004). Fields without an OCSF
+ * home (session, repo, encodings, chain position) go under `unmapped`.
+ */
+export function formatOcsf(entry: AuditEntry): Record<string, unknown> {
+  const severityId = SEVERITY[entry.event_type].ocsf;
+  const blocked = entry.decision === "BLOCKED" || entry.decision === "HUMAN_REJECTED";
+  return {
+    class_uid: 2004,
+    class_name: "Detection Finding",
+    category_uid: 2,
+    category_name: "Findings",
+    activity_id: 1,
+    activity_name: "Create",
+    type_uid: 200401,
+    time: new Date(entry.timestamp).getTime(),
+    severity_id: severityId,
+    status_id: 1,
+    message: describeEntry(entry),
+    action_id: blocked ? 2 : 1,
+    action: blocked ? "Denied" : "Allowed",
+    disposition: entry.decision,
+    metadata: {
+      version: "1.1.0",
+      product: { name: PRODUCT, vendor_name: VENDOR, version: pkg.version },
+      log_name: "audit",
+      sequence: entry.seq,
+    },
+    finding_info: {
+      uid: entry.content_hash,
+      title: `${entry.event_type}: ${entry.source_file}`,
+      types: [entry.event_type],
+      analytic_list: entry.matched_patterns.map((id) => ({ uid: id, type_id: 1, type: "Rule" })),
+    },
+    resources: [{ name: entry.source_file, type: "file", data: { hash: entry.content_hash } }],
+    ...(entry.approver ? { actor: { user: { name: entry.approver } } } : {}),
+    unmapped: {
+      session_id: entry.session_id,
+      source_repo: entry.source_repo,
+      encoding_detections: entry.encoding_detections,
+      schema_valid: entry.schema_valid,
+      format: entry.format,
+      reason: entry.reason,
+      cache_hit: entry.cache_hit,
+      evidence: entry.evidence,
+      overall_confidence: entry.overall_confidence,
+      overall_severity: entry.overall_severity,
+      config_version: entry.config_version,
+      quorum: entry.quorum,
+      suppressed_patterns: entry.suppressed_patterns,
+      baselined_patterns: entry.baselined_patterns,
+      denial: entry.denial,
+      grant: entry.grant,
+      prev_hash: entry.prev_hash,
+      key_id: entry.key_id,
+      signature: entry.signature,
+    },
+  };
+}
+
+// ============================================================
+// CSV
+// ============================================================
+
+/**
+ * RFC 4180 field quoting. Values a spreadsheet would evaluate as a
+ * formula (leading = + - @) are prefixed with a quote, since source
+ * paths and reasons come from untrusted content.
+ */
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text = Array.isArray(value) ? value.join(";") : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV header row (AUDIT_CSV_COLUMNS).
+ */
+export function csvHeader(): string {
+  return AUDIT_CSV_COLUMNS.join(",");
+}
+
+/**
+ * One CSV row for an entry, columns as in AUDIT_CSV_COLUMNS.
+ */
+export function formatCsvRow(entry: AuditEntry): string {
+  return AUDIT_CSV_COLUMNS.map((col) => csvField(entry[col])).join(",");
+}
+
+// ============================================================
+// Export
+// ============================================================
+
+/**
+ * Format one entry as a single line (OCSF as compact JSON).
+ */
+export function formatAuditRecord(entry: AuditEntry, format: AuditExportFormat): string {
+  switch (format) {
+    case "cef":
+      return formatCef(entry);
+    case "syslog":
+      return formatSyslog(entry);
+    case "ocsf":
+      return JSON.stringify(formatOcsf(entry));
+    case "csv":
+      return formatCsvRow(entry);
+  }
+}
+
+/**
+ * Export matching audit entries oldest first, one record per line
+ * (CSV starts with a header row).
+ */
+export function* exportAuditLog(
+  config: AuditConfig,
+  format: AuditExportFormat,
+  query?: AuditQuery
+): Generator<string> {
+  if (format === "csv") yield csvHeader();
+  const entries = readAuditLog(config, query).reverse();
+  for (const entry of entries) yield formatAuditRecord(entry, format);
+}
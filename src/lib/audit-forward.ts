@@ -0,0 +1,320 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { createConnection, isIP } from "net";
+import { createSocket } from "dgram";
+import {
+  AuditExportFormat,
+  type AuditEntry,
+  type AuditForwardConfig,
+  type AuditForwardResult,
+} from "./types";
+import { formatAuditRecord } from "./audit-export";
+
+/**
+ * Default spool location, next to the audit and cache directories.
+ */
+export const DEFAULT_SPOOL_DIR = join(homedir(), ".config", "content-filter", "spool");
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 2000;
+const RETRY_BACKOFF_MS = 100;
+
+/**
+ * A record claimed by a flush longer ago than this is assumed orphaned
+ * (the process died mid-delivery) and returned to the spool.
+ */
+const CLAIM_TTL_MS = 60_000;
+
+const RECORD_EXT = ".rec";
+const CLAIM_RE = /^(.+\.rec)\.(\d+)\.sending$/;
+
+let recordCounter = 0;
+const inflight = new Set<Promise<AuditForwardResult>>();
+
+export type ForwardTarget =
+  | { kind: "unix"; path: string }
+  | { kind: "udp"; host: string; port: number }
+  | { kind: "http"; url: string };
+
+function isLoopbackHost(host: string): boolean {
+  const bare = host.replace(/^\[|\]$/g, "");
+  if (bare === "localhost" || bare === "::1") return true;
+  return isIP(bare) === 4 && bare.startsWith("127.");
+}
+
+/**
+ * Parse a forward target. Only local collectors are accepted — a unix
+ * socket, or udp/http on a loopback address — so entries never leave
+ * the machine through this path.
+ */
+export function parseForwardTarget(target: string): ForwardTarget {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    throw new Error(`Invalid audit forward target: ${target}`);
+  }
+
+  switch (url.protocol) {
+    case "unix:":
+      if (!url.pathname) throw new Error(`Audit forward target has no socket path: ${target}`);
+      return { kind: "unix", path: decodeURIComponent(url.pathname) };
+    case "udp:":
+    case "http:":
+    case "https:": {
+      if (!isLoopbackHost(url.hostname)) {
+        throw new Error(`Audit forward target must be a loopback address: ${target}`);
+      }
+      if (url.protocol !== "udp:") return { kind: "http", url: url.toString() };
+      const port = parseInt(url.port || "514", 10);
+      return { kind: "udp", host: url.hostname.replace(/^\[|\]$/g, ""), port };
+    }
+    default:
+      throw new Error(`Unsupported audit forward target: ${target} (unix|udp|http|https)`);
+  }
+}
+
+/**
+ * Resolve live forwarding for hooks.
+ *
+ * 1. CONTENT_FILTER_AUDIT_FORWARD names the collector (off when unset)
+ * 2. CONTENT_FILTER_AUDIT_FORWARD_FORMAT picks cef|syslog|ocsf
+ *    (default: syslog for sockets, ocsf for http)
+ * 3. CONTENT_FILTER_AUDIT_SPOOL_DIR overrides ~/.config/content-filter/spool
+ *
+ * An invalid target or format throws, so a misconfigured hook fails
+ * closed instead of silently not forwarding.
+ */
+export function resolveForwardConfig(): AuditForwardConfig | undefined {
+  const target = process.env.CONTENT_FILTER_AUDIT_FORWARD;
+  if (!target) return undefined;
+  return buildForwardConfig(target, {
+    format: process.env.CONTENT_FILTER_AUDIT_FORWARD_FORMAT as AuditForwardConfig["format"],
+    spoolDir: process.env.CONTENT_FILTER_AUDIT_SPOOL_DIR,
+  });
+}
+
+/**
+ * Build a validated AuditForwardConfig with defaults.
+ */
+export function buildForwardConfig(
+  target: string,
+  overrides?: Partial<Omit<AuditForwardConfig, "target">>
+): AuditForwardConfig {
+  const parsed = parseForwardTarget(target);
+  const format = overrides?.format ?? (parsed.kind === "http" ? "ocsf" : "syslog");
+  const valid = AuditExportFormat.exclude(["csv"]).safeParse(format);
+  if (!valid.success) {
+    throw new Error(`Unsupported audit forward format: ${format} (cef|syslog|ocsf)`);
+  }
+  return {
+    target,
+    format: valid.data,
+    spoolDir: overrides?.spoolDir ?? DEFAULT_SPOOL_DIR,
+    retries: overrides?.retries ?? DEFAULT_RETRIES,
+    timeoutMs: overrides?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  };
+}
+
+// ============================================================
+// Delivery
+// ============================================================
+
+function sendUnix(path: string, record: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection({ path });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error("syslog socket timeout")));
+    socket.once("error", reject);
+    socket.end(record + "\n", () => {
+      socket.destroy();
+      resolve();
+    });
+  });
+}
+
+function sendUdp(host: string, port: number, record: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = createSocket(isIP(host) === 6 ? "udp6" : "udp4");
+    socket.send(record, port, host, (err) => {
+      socket.close();
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+async function sendHttp(
+  url: string,
+  record: string,
+  format: AuditForwardConfig["format"],
+  timeoutMs: number
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": format === "ocsf" ? "application/json" : "text/plain" },
+    body: record,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) throw new Error(`collector returned HTTP ${res.status}`);
+}
+
+/**
+ * Send one formatted record to the collector, once.
+ */
+export function deliverRecord(record: string, forward: AuditForwardConfig): Promise<void> {
+  const target = parseForwardTarget(forward.target);
+  switch (target.kind) {
+    case "unix":
+      return sendUnix(target.path, record, forward.timeoutMs);
+    case "udp":
+      return sendUdp(target.host, target.port, record);
+    case "http":
+      return sendHttp(target.url, record, forward.format, forward.timeoutMs);
+  }
+}
+
+async function deliverWithRetries(record: string, forward: AuditForwardConfig): Promise<void> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < Math.max(1, forward.retries); attempt++) {
+    if (attempt > 0) await Bun.sleep(RETRY_BACKOFF_MS * 2 ** (attempt - 1));
+    try {
+      return await deliverRecord(record, forward);
+    } catch (e) {
+      lastError = e;
+    }
+  }
+  throw lastError;
+}
+
+// ============================================================
+// Spool
+// ============================================================
+
+/**
+ * Write a formatted entry to the spool (one file per record, written
+ * then renamed so a flush never reads a partial record).
+ */
+export function spoolAuditEntry(entry: AuditEntry, forward: AuditForwardConfig): string {
+  mkdirSync(forward.spoolDir, { recursive: true, mode: 0o700 });
+  const name = `${String(Date.now()).padStart(15, "0")}-${process.pid}-${String(recordCounter++).padStart(6, "0")}${RECORD_EXT}`;
+  const tmp = join(forward.spoolDir, `${name}.tmp`);
+  writeFileSync(tmp, formatAuditRecord(entry, forward.format), { mode: 0o600 });
+  renameSync(tmp, join(forward.spoolDir, name));
+  return name;
+}
+
+/**
+ * Return records claimed by a flush that never finished to the spool.
+ */
+function releaseStaleClaims(spoolDir: string, now: number): void {
+  for (const name of readdirSync(spoolDir)) {
+    const claim = CLAIM_RE.exec(name);
+    if (!claim || now - parseInt(claim[2]!, 10) < CLAIM_TTL_MS) continue;
+    try {
+      renameSync(join(spoolDir, name), join(spoolDir, claim[1]!));
+    } catch {
+      // Another flush released it first
+    }
+  }
+}
+
+function pendingRecords(spoolDir: string): string[] {
+  return readdirSync(spoolDir)
+    .filter((name) => name.endsWith(RECORD_EXT))
+    .sort();
+}
+
+/**
+ * Deliver spooled records oldest first, deleting each once the collector
+ * accepts it. Each record is retried with backoff; the first record that
+ * still fails stops the flush so order is kept for the next attempt.
+ *
+ * Records are claimed by rename before sending, so concurrent flushes
+ * (other hook processes) never deliver the same record twice.
+ */
+export async function flushAuditSpool(forward: AuditForwardConfig): Promise<AuditForwardResult> {
+  if (!existsSync(forward.spoolDir)) return { delivered: 0, pending: 0 };
+  releaseStaleClaims(forward.spoolDir, Date.now());
+
+  let delivered = 0;
+  let error: string | undefined;
+  for (const name of pendingRecords(forward.spoolDir)) {
+    const path = join(forward.spoolDir, name);
+    const claimed = `${path}.${Date.now()}.sending`;
+    try {
+      renameSync(path, claimed);
+    } catch {
+      continue; // claimed by another flush
+    }
+
+    try {
+      await deliverWithRetries(readFileSync(claimed, "utf-8"), forward);
+      unlinkSync(claimed);
+      delivered++;
+    } catch (e) {
+      renameSync(claimed, path);
+      error = e instanceof Error ? e.message : String(e);
+      break;
+    }
+  }
+
+  return {
+    delivered,
+    pending: pendingRecords(forward.spoolDir).length,
+    ...(error !== undefined ? { error } : {}),
+  };
+}
+
+/**
+ * Spool an appended entry and start delivering the spool in the
+ * background. Fail-open like the audit write itself: errors warn.
+ * Call settleAuditForwarding() before exiting to let delivery finish.
+ */
+export function forwardAuditEntry(entry: AuditEntry, forward: AuditForwardConfig): void {
+  try {
+    spoolAuditEntry(entry, forward);
+  } catch (e) {
+    console.warn(
+      `[content-filter] audit forward spool failed: ${e instanceof Error ? e.message : String(e)}`
+    );
+    return;
+  }
+
+  const flush: Promise<AuditForwardResult> = flushAuditSpool(forward)
+    .catch((e) => ({
+      delivered: 0,
+      pending: 0,
+      error: e instanceof Error ? e.message : String(e),
+    }))
+    .then((result) => {
+      if (result.error) {
+        console.warn(
+          `[content-filter] audit forward failed (${result.pending} spooled): ${result.error}`
+        );
+      }
+      return result;
+    })
+    .finally(() => inflight.delete(flush));
+  inflight.add(flush);
+}
+
+/**
+ * Wait for background deliveries started by forwardAuditEntry, up to
+ * timeoutMs. Undelivered records stay spooled for the next flush.
+ */
+export async function settleAuditForwarding(timeoutMs: number = 5000): Promise<void> {
+  if (inflight.size === 0) return;
+  await Promise.race([
+    Promise.allSettled([...inflight]),
+    new Promise((resolve) => setTimeout(resolve, timeoutMs).unref()),
+  ]);
+}
@@ -0,0 +1,112 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { homedir } from "os";
+
+/**
+ * Default signing key location, next to the audit and cache directories.
+ */
+export const DEFAULT_KEY_DIR = join(homedir(), ".config", "content-filter", "keys");
+
+/**
+ * File naming the active key ID inside the key directory.
+ */
+const CURRENT_KEY_FILE = "current";
+
+const KEY_ID_RE = /^[0-9a-f]{16}$/;
+
+export interface SigningKey {
+  /** First 16 hex chars of SHA-256(key) — stored on every signed entry */
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Resolve the signing key directory used by hooks and the CLI.
+ *
+ * 1. CONTENT_FILTER_AUDIT_SIGN=on enables HMAC signing of audit entries
+ * 2. CONTENT_FILTER_KEY_DIR overrides the key location
+ * 3. Fall back to ~/.config/content-filter/keys
+ *
+ * Returns undefined when signing is off (the default).
+ */
+export function resolveSigningKeyDir(): string | undefined {
+  if (process.env.CONTENT_FILTER_AUDIT_SIGN !== "on") return undefined;
+  return process.env.CONTENT_FILTER_KEY_DIR ?? DEFAULT_KEY_DIR;
+}
+
+/**
+ * Derive the key ID from the key bytes, so an ID can never point at a
+ * different key than the one that produced the signature.
+ */
+export function keyIdFor(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+/**
+ * Generate a new 256-bit key, store it as <id>.key (mode 0600) and make
+ * it the active key. Earlier keys stay on disk so old entries verify.
+ */
+export function rotateSigningKey(keyDir: string): SigningKey {
+  mkdirSync(keyDir, { recursive: true, mode: 0o700 });
+
+  const key = randomBytes(32);
+  const id = keyIdFor(key);
+  writeFileSync(join(keyDir, `${id}.key`), key.toString("hex") + "\n", { mode: 0o600 });
+
+  // Write-then-rename so a reader never sees a half-written pointer
+  const tmp = join(keyDir, `${CURRENT_KEY_FILE}.tmp`);
+  writeFileSync(tmp, id + "\n", { mode: 0o600 });
+  renameSync(tmp, join(keyDir, CURRENT_KEY_FILE));
+
+  return { id, key };
+}
+
+/**
+ * Load a key by ID. Returns null if it is missing, malformed, or its
+ * bytes do not hash to the ID.
+ */
+export function loadSigningKey(keyDir: string, id: string): SigningKey | null {
+  if (!KEY_ID_RE.test(id)) return null;
+  const path = join(keyDir, `${id}.key`);
+  if (!existsSync(path)) return null;
+
+  const hex = readFileSync(path, "utf-8").trim();
+  if (!/^[0-9a-f]{64}$/.test(hex)) return null;
+  const key = Buffer.from(hex, "hex");
+  return keyIdFor(key) === id ? { id, key } : null;
+}
+
+/**
+ * The active signing key, generated on first use.
+ */
+export function currentSigningKey(keyDir: string): SigningKey {
+  const pointer = join(keyDir, CURRENT_KEY_FILE);
+  if (existsSync(pointer)) {
+    const loaded = loadSigningKey(keyDir, readFileSync(pointer, "utf-8").trim());
+    if (loaded) return loaded;
+  }
+  return rotateSigningKey(keyDir);
+}
+
+/**
+ * HMAC-SHA256 of a payload, hex-encoded.
+ */
+export function signPayload(payload: string, key: SigningKey): string {
+  return createHmac("sha256", key.key).update(payload).digest("hex");
+}
+
+/**
+ * Constant-time check of a hex signature against a payload.
+ */
+export function verifyPayload(payload: string, signature: string, key: SigningKey): boolean {
+  const expected = Buffer.from(signPayload(payload, key), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,288 @@
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "fs";
+import { join } from "path";
+import type {
+  AuditConfig,
+  AuditEntry,
+  AuditLogLine,
+  AuditMigrationResult,
+  AuditQuery,
+  AuditSink,
+  ReadAuditEntry,
+} from "./types";
+import { AuditEntrySchema } from "./types";
+import {
+  chainHeadAfter,
+  createJsonlSink,
+  hashContent,
+  listLogFiles,
+  matchesAuditQuery,
+  parseAuditLine,
+  serializeAuditEntry,
+} from "./audit";
+
+/**
+ * Database file name inside the audit log directory.
+ */
+export const SQLITE_DB_NAME = "audit.db";
+
+/**
+ * Entries keep their exact serialized line in `raw`, so the hash chain
+ * and signatures verify the same way as in JSONL. The other columns
+ * exist only to be indexed.
+ */
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS audit_entries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  source_repo TEXT NOT NULL,
+  source_file TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  decision TEXT NOT NULL,
+  approver TEXT,
+  seq INTEGER,
+  line_hash TEXT NOT NULL UNIQUE,
+  raw TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS audit_patterns (
+  entry_id INTEGER NOT NULL REFERENCES audit_entries(id),
+  pattern_id TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_entries(timestamp);
+CREATE INDEX IF NOT EXISTS idx_audit_session ON audit_entries(session_id);
+CREATE INDEX IF NOT EXISTS idx_audit_repo ON audit_entries(source_repo);
+CREATE INDEX IF NOT EXISTS idx_audit_hash ON audit_entries(content_hash);
+CREATE INDEX IF NOT EXISTS idx_audit_approver ON audit_entries(approver);
+CREATE INDEX IF NOT EXISTS idx_audit_patterns ON audit_patterns(pattern_id, entry_id);
+`;
+
+/**
+ * Path of the sqlite database for an audit config.
+ */
+export function sqliteDbPath(config: AuditConfig): string {
+  return join(config.logDir, SQLITE_DB_NAME);
+}
+
+function openDatabase(path: string): Database {
+  const db = new Database(path, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA busy_timeout = 5000");
+  db.exec(SCHEMA);
+  return db;
+}
+
+/**
+ * Insert one stored line. Returns false if the identical line is
+ * already present (re-running a migration is a no-op).
+ */
+function insertLine(db: Database, raw: string, entry: AuditEntry): boolean {
+  const inserted = db
+    .query(
+      `INSERT OR IGNORE INTO audit_entries
+         (timestamp, session_id, event_type, source_repo, source_file,
+          content_hash, decision, approver, seq, line_hash, raw)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      entry.timestamp,
+      entry.session_id,
+      entry.event_type,
+      entry.source_repo,
+      entry.source_file,
+      entry.content_hash,
+      entry.decision,
+      entry.approver ?? null,
+      entry.seq ?? null,
+      hashContent(raw),
+      raw
+    );
+  if (inserted.changes === 0) return false;
+
+  const addPattern = db.query("INSERT INTO audit_patterns (entry_id, pattern_id) VALUES (?, ?)");
+  for (const patternId of new Set(entry.matched_patterns)) {
+    addPattern.run(inserted.lastInsertRowid, patternId);
+  }
+  return true;
+}
+
+/**
+ * Build the SELECT for a query. Every field except the source_file glob
+ * is pushed into SQL; the glob is matched in JS (Bun.Glob semantics,
+ * same as the JSONL sink), so LIMIT is only pushed down without it.
+ */
+function buildSelect(
+  query: AuditQuery,
+  order: string
+): { sql: string; params: (string | number)[]; limit: number | null } {
+  const where: string[] = [];
+  const params: (string | number)[] = [];
+  const exact: [keyof AuditQuery, string][] = [
+    ["sessionId", "session_id"],
+    ["sourceRepo", "source_repo"],
+    ["approver", "approver"],
+    ["contentHash", "content_hash"],
+    ["decision", "decision"],
+    ["eventType", "event_type"],
+  ];
+  for (const [key, column] of exact) {
+    const value = query[key];
+    if (typeof value === "string" && value !== "") {
+      where.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+  if (query.since) {
+    where.push("timestamp >= ?");
+    params.push(new Date(query.since).toISOString());
+  }
+  if (query.until) {
+    where.push("timestamp < ?");
+    params.push(new Date(query.until).toISOString());
+  }
+  if (query.patternId) {
+    where.push("id IN (SELECT entry_id FROM audit_patterns WHERE pattern_id = ?)");
+    params.push(query.patternId);
+  }
+
+  const limit = query.last !== undefined && query.last > 0 ? query.last : null;
+  let sql = "SELECT raw FROM audit_entries";
+  if (where.length > 0) sql += ` WHERE ${where.join(" AND ")}`;
+  sql += ` ORDER BY ${order}`;
+  if (limit !== null && !query.sourceFile) {
+    sql += " LIMIT ?";
+    params.push(limit);
+  }
+  return { sql, params, limit };
+}
+
+function collect(
+  db: Database,
+  query: AuditQuery,
+  order: string,
+  config: AuditConfig
+): ReadAuditEntry[] {
+  const { sql, params, limit } = buildSelect(query, order);
+  const rows = db.query(sql).all(...params) as { raw: string }[];
+  const entries: ReadAuditEntry[] = [];
+  for (const row of rows) {
+    const parsed = parseAuditLine(row.raw, config);
+    if (parsed && matchesAuditQuery(parsed, query)) entries.push(parsed);
+    if (limit !== null && entries.length >= limit) break;
+  }
+  return entries;
+}
+
+/**
+ * sqlite sink (bun:sqlite): logDir/audit.db with indexed columns for
+ * time range, session, repo, approver, content hash and pattern ID.
+ *
+ * Appends run in an IMMEDIATE transaction so concurrent writers cannot
+ * both claim the same chain position. The JSONL retention policy does
+ * not apply; rows are kept until deleted. The database is opened lazily;
+ * reads against a missing database return nothing instead of creating it.
+ */
+export function createSqliteSink(config: AuditConfig): AuditSink {
+  const path = sqliteDbPath(config);
+  let db: Database | null = null;
+
+  const open = (): Database => {
+    if (!db) {
+      mkdirSync(config.logDir, { recursive: true });
+      db = openDatabase(path);
+    }
+    return db;
+  };
+
+  return {
+    backend: "sqlite",
+
+    append(entry: AuditEntry): string {
+      const handle = open();
+      return handle
+        .transaction(() => {
+          const last = handle
+            .query("SELECT raw FROM audit_entries ORDER BY id DESC LIMIT 1")
+            .get() as { raw: string } | null;
+          const head = chainHeadAfter(last?.raw ?? null);
+          const chained: AuditEntry = { ...entry, seq: head.seq, prev_hash: head.prevHash };
+          const line = serializeAuditEntry(chained, config);
+          insertLine(handle, line, chained);
+          return line;
+        })
+        .immediate();
+    },
+
+    query(query: AuditQuery = {}): ReadAuditEntry[] {
+      if (!existsSync(path)) return [];
+      return collect(open(), query, "timestamp DESC, id DESC", config);
+    },
+
+    *stream(query: AuditQuery = {}): Iterable<ReadAuditEntry> {
+      if (!existsSync(path)) return;
+      const { sql, params, limit } = buildSelect(query, "id DESC");
+      let yielded = 0;
+      for (const row of open().query(sql).iterate(...params) as Iterable<{ raw: string }>) {
+        const parsed = parseAuditLine(row.raw, config);
+        if (!parsed || !matchesAuditQuery(parsed, query)) continue;
+        yield parsed;
+        if (limit !== null && ++yielded >= limit) return;
+      }
+    },
+
+    lines(): Iterable<AuditLogLine> {
+      if (!existsSync(path)) return [];
+      const rows = open()
+        .query("SELECT id, raw FROM audit_entries ORDER BY id")
+        .all() as { id: number; raw: string }[];
+      return rows.map((r) => ({ file: path, line: r.id, text: r.raw }));
+    },
+
+    close(): void {
+      db?.close();
+      db = null;
+    },
+  };
+}
+
+/**
+ * Import every JSONL log file in config.logDir (all months, rotated
+ * files included, oldest first) into logDir/audit.db.
+ *
+ * Lines are stored verbatim, so the hash chain and signatures carry
+ * over and new sqlite appends continue the same chain. Lines already
+ * imported are skipped, so the migration can be re-run; malformed lines
+ * are counted and left out. Run it before switching the backend.
+ */
+export function migrateJsonlToSqlite(config: AuditConfig): AuditMigrationResult {
+  const result: AuditMigrationResult = {
+    db: sqliteDbPath(config),
+    files: listLogFiles(config),
+    imported: 0,
+    skipped: 0,
+    malformed: 0,
+  };
+
+  mkdirSync(config.logDir, { recursive: true });
+  const db = openDatabase(result.db);
+  try {
+    db.transaction(() => {
+      for (const { text } of createJsonlSink(config).lines()) {
+        let entry: AuditEntry;
+        try {
+          entry = AuditEntrySchema.parse(JSON.parse(text));
+        } catch {
+          result.malformed++;
+          continue;
+        }
+        if (insertLine(db, text, entry)) result.imported++;
+        else result.skipped++;
+      }
+    }).immediate();
+  } finally {
+    db.close();
+  }
+
+  return result;
+}
@@ -0,0 +1,262 @@
+import type {
+  AuditApproverStats,
+  AuditBacklogItem,
+  AuditConfig,
+  AuditCount,
+  AuditDecision,
+  AuditStatsBucket,
+  AuditStatsOptions,
+  AuditSummary,
+  AuditTrendPeriod,
+  FalsePositiveCandidate,
+} from "./types";
+import { streamAuditLog } from "./audit";
+import { RESOLVING_EVENTS } from "./review-queue";
+
+const DEFAULT_TOP = 10;
+
+/**
+ * Events that record a filter decision. Override, bypass and review
+ * entries repeat the patterns of a decision already counted.
+ */
+const FILTER_DECISION_EVENTS = new Set(["filter_block", "human_review", "filter_pass"]);
+
+/**
+ * Period an entry's timestamp falls in: YYYY-MM-DD for days and for
+ * weeks (the Monday, UTC), YYYY-MM for months.
+ */
+export function statsPeriod(timestamp: string, bucket: AuditStatsBucket): string {
+  if (bucket === "month") return timestamp.slice(0, 7);
+  if (bucket === "day") return timestamp.slice(0, 10);
+
+  const date = new Date(timestamp.slice(0, 10) + "T00:00:00Z");
+  const sinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - sinceMonday);
+  return date.toISOString().slice(0, 10);
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+/**
+ * Highest counts first, ties broken by key so reports are stable.
+ */
+function topCounts(counts: Map<string, number>, top: number): AuditCount[] {
+  return [...counts]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, top);
+}
+
+/**
+ * Summarize the audit trail for periodic review.
+ *
+ * Walks the log once, newest first, and reports:
+ * - decision totals and per-period trend (day, week or month)
+ * - top matched pattern IDs (filter decisions only) and top BLOCKED
+ *   source repos/files
+ * - overrides, bypasses and reviews per approver
+ * - the HUMAN_REVIEW backlog: content whose latest review request has no
+ *   later approve, reject, override or bypass
+ * - false-positive candidates: patterns ranked by how often content
+ *   carrying them was overridden or bypassed
+ *
+ * Cache hits count like any other decision; they were still served.
+ */
+export function summarizeAudit(
+  config: AuditConfig,
+  opts?: AuditStatsOptions
+): AuditSummary {
+  const bucket = opts?.bucket ?? "day";
+  const top = opts?.top ?? DEFAULT_TOP;
+
+  const decisions = new Map<string, number>();
+  const trend = new Map<string, AuditTrendPeriod>();
+  const patterns = new Map<string, number>();
+  const blockedRepos = new Map<string, number>();
+  const blockedFiles = new Map<string, number>();
+  const blockedByPattern = new Map<string, number>();
+  const overriddenByPattern = new Map<string, number>();
+  const approvers = new Map<string, AuditApproverStats>();
+  const resolved = new Set<string>();
+  const backlog = new Map<string, AuditBacklogItem>();
+
+  let total = 0;
+  let first: string | null = null;
+  let last: string | null = null;
+
+  const entries = streamAuditLog(config, {
+    since: opts?.since,
+    until: opts?.until,
+    sourceRepo: opts?.sourceRepo,
+  });
+
+  for (const entry of entries) {
+    total++;
+    if (first === null || entry.timestamp < first) first = entry.timestamp;
+    if (last === null || entry.timestamp > last) last = entry.timestamp;
+
+    increment(decisions, entry.decision);
+    const period = statsPeriod(entry.timestamp, bucket);
+    const slot = trend.get(period) ?? { period, total: 0, decisions: {} };
+    slot.total++;
+    slot.decisions[entry.decision] = (slot.decisions[entry.decision] ?? 0) + 1;
+    trend.set(period, slot);
+
+    const ids = [...new Set(entry.matched_patterns)];
+    if (FILTER_DECISION_EVENTS.has(entry.event_type)) {
+      for (const id of ids) increment(patterns, id);
+    }
+
+    // Only filter blocks: pending and denied approvals keep the BLOCKED decision
+    if (entry.event_type === "filter_block") {
+      increment(blockedRepos, entry.source_repo || "(none)");
+      increment(blockedFiles, entry.source_file);
+      for (const id of ids) increment(blockedByPattern, id);
+    }
+
+    const isOverride = entry.event_type === "override";
+    const isBypass = entry.event_type === "content_filter_bypass";
+    if (isOverride || isBypass) {
+      for (const id of ids) increment(overriddenByPattern, id);
+    }
+
+    if (entry.approver) {
+      const stats = approvers.get(entry.approver) ?? {
+        approver: entry.approver,
+        overrides: 0,
+        bypasses: 0,
+        approvals: 0,
+        rejections: 0,
+      };
+      if (isOverride) stats.overrides++;
+      if (isBypass) stats.bypasses++;
+      if (entry.event_type === "human_approve") stats.approvals++;
+      if (entry.event_type === "human_reject") stats.rejections++;
+      approvers.set(entry.approver, stats);
+    }
+
+    // Newest first: a resolution seen earlier in the walk came later in time
+    if (RESOLVING_EVENTS.has(entry.event_type)) {
+      resolved.add(entry.content_hash);
+    } else if (entry.event_type === "human_review" && !resolved.has(entry.content_hash)) {
+      const item = backlog.get(entry.content_hash);
+      if (item) {
+        item.occurrences++;
+        item.first_seen = entry.timestamp;
+      } else {
+        backlog.set(entry.content_hash, {
+          content_hash: entry.content_hash,
+          source_repo: entry.source_repo,
+          source_file: entry.source_file,
+          matched_patterns: ids,
+          first_seen: entry.timestamp,
+          last_seen: entry.timestamp,
+          occurrences: 1,
+        });
+      }
+    }
+  }
+
+  const falsePositives: FalsePositiveCandidate[] = [...overriddenByPattern]
+    .map(([pattern_id, overridden]) => {
+      const blocked = blockedByPattern.get(pattern_id) ?? 0;
+      return {
+        pattern_id,
+        overridden,
+        blocked,
+        override_rate: blocked > 0 ? overridden / blocked : null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.overridden - a.overridden ||
+        (b.override_rate ?? 0) - (a.override_rate ?? 0) ||
+        a.pattern_id.localeCompare(b.pattern_id)
+    )
+    .slice(0, top);
+
+  return {
+    since: opts?.since ?? null,
+    until: opts?.until ?? null,
+    bucket,
+    total_entries: total,
+    first_timestamp: first,
+    last_timestamp: last,
+    decisions: Object.fromEntries(decisions) as Partial<Record<AuditDecision, number>>,
+    trend: [...trend.values()].sort((a, b) => a.period.localeCompare(b.period)),
+    top_patterns: topCounts(patterns, top),
+    top_blocked_repos: topCounts(blockedRepos, top),
+    top_blocked_files: topCounts(blockedFiles, top),
+    approvers: [...approvers.values()].sort(
+      (a, b) =>
+        b.overrides + b.bypasses - (a.overrides + a.bypasses) ||
+        a.approver.localeCompare(b.approver)
+    ),
+    review_backlog: [...backlog.values()].sort((a, b) =>
+      a.first_seen.localeCompare(b.first_seen)
+    ),
+    false_positive_candidates: falsePositives,
+  };
+}
+
+/**
+ * Plain-text report of an AuditSummary, as printed by `audit stats`.
+ */
+export function formatAuditSummary(summary: AuditSummary): string {
+  const out: string[] = [];
+  const range =
+    summary.first_timestamp && summary.last_timestamp
+      ? `${summary.first_timestamp.slice(0, 10)} .. ${summary.last_timestamp.slice(0, 10)}`
+      : "no entries";
+  out.push(`Audit Statistics (${summary.total_entries} entries, ${range})`);
+
+  const section = (title: string, lines: string[]): void => {
+    out.push("", `${title}:`);
+    out.push(...(lines.length > 0 ? lines : ["  (none)"]));
+  };
+
+  section(
+    "Decisions",
+    Object.entries(summary.decisions).map(([d, n]) => `  ${d.padEnd(15)} ${n}`)
+  );
+  section(
+    `Trend (per ${summary.bucket})`,
+    summary.trend.map((t) => {
+      const parts = Object.entries(t.decisions).map(([d, n]) => `${d} ${n}`);
+      return `  ${t.period.padEnd(10)}  ${String(t.total).padStart(5)}  ${parts.join(", ")}`;
+    })
+  );
+  const counts = (list: AuditCount[]) =>
+    list.map((c) => `  ${String(c.count).padStart(5)}  ${c.key}`);
+  section("Top patterns", counts(summary.top_patterns));
+  section("Top blocked repos", counts(summary.top_blocked_repos));
+  section("Top blocked files", counts(summary.top_blocked_files));
+  section(
+    "Approvers",
+    summary.approvers.map(
+      (a) =>
+        `  ${a.approver}: ${a.overrides} overrides, ${a.bypasses} bypasses, ` +
+        `${a.approvals} approvals, ${a.rejections} rejections`
+    )
+  );
+  section(
+    `HUMAN_REVIEW backlog (${summary.review_backlog.length} pending)`,
+    summary.review_backlog.map((b) => {
+      const ids = b.matched_patterns.length > 0 ? `  (${b.matched_patterns.join(", ")})` : "";
+      const seen = b.occurrences > 1 ? `, seen ${b.occurrences}x` : "";
+      return `  ${b.first_seen.slice(0, 10)}  ${b.source_file}${ids}  ${b.content_hash.slice(0, 12)}${seen}`;
+    })
+  );
+  section(
+    "False-positive candidates",
+    summary.false_positive_candidates.map((c) => {
+      const rate =
+        c.override_rate === null ? "" : ` (${Math.round(c.override_rate * 100)}% of blocks)`;
+      return `  ${c.pattern_id}: overridden ${c.overridden}x, blocked ${c.blocked}x${rate}`;
+    })
+  );
+
+  return out.join("\n");
+}
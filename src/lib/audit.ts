@@ -4,18 +4,50 @@ import {
   mkdirSync,
   appendFileSync,
   readFileSync,
+  readdirSync,
   renameSync,
   unlinkSync,
   statSync,
+  openSync,
+  readSync,
+  closeSync,
+  writeFileSync,
 } from "fs";
+import { gunzipSync, gzipSync } from "zlib";
 import { join } from "path";
+import { homedir } from "os";
 import type {
+  ApprovalRef,
   AuditConfig,
+  AuditDenial,
   AuditEntry,
   AuditEventType,
+  AuditEvidencePolicy,
+  AuditLogLine,
+  AuditQuery,
+  AuditQuorum,
+  AuditRetention,
+  AuditSink,
+  AuditVerifyResult,
+  BypassGrantRef,
   FilterResult,
+  ReadAuditEntry,
 } from "./types";
 import { AuditEntrySchema, DEFAULT_AUDIT_CONFIG } from "./types";
+import {
+  currentSigningKey,
+  loadSigningKey,
+  resolveSigningKeyDir,
+  signPayload,
+  verifyPayload,
+  type SigningKey,
+} from "./audit-keys";
+import { createSqliteSink, sqliteDbPath } from "./audit-sqlite";
+import { forwardAuditEntry, resolveForwardConfig } from "./audit-forward";
+import { withFileLock } from "./file-lock";
+import { buildEvidence, DEFAULT_EVIDENCE_POLICY } from "./audit-evidence";
+import { resolveQuorumPolicy } from "./quorum";
+import { resolveReviewerRegistry } from "./reviewer-registry";
 
 /**
  * Get the current audit log filename (monthly partitioning).
@@ -65,6 +97,9 @@ function decisionToEventType(decision: string): AuditEventType {
 
 /**
  * Build an AuditEntry from a FilterResult.
+ *
+ * With an evidence policy, the entry also records where each pattern
+ * fired (see buildEvidence), the overall score and the config version.
  */
 export function createAuditEntry(
   result: FilterResult,
@@ -76,9 +111,24 @@ export function createAuditEntry(
     reason?: string;
     eventTypeOverride?: AuditEventType;
     decisionOverride?: string;
+    cacheHit?: boolean;
+    evidence?: AuditEvidencePolicy;
+    configVersion?: string;
+    approval?: ApprovalRef;
+    quorum?: AuditQuorum;
+    denial?: AuditDenial;
+    grant?: BypassGrantRef;
   }
 ): AuditEntry {
   const decision = opts.decisionOverride ?? result.decision;
+  const evidence = opts.evidence
+    ? {
+        evidence: buildEvidence(result, opts.evidence),
+        overall_confidence: result.overall_confidence,
+        overall_severity: result.overall_severity,
+        config_version: opts.configVersion,
+      }
+    : {};
   return {
     timestamp: new Date().toISOString(),
     session_id: opts.sessionId,
@@ -88,18 +138,34 @@ export function createAuditEntry(
     content_hash: opts.contentHash,
     decision: decision as AuditEntry["decision"],
     matched_patterns: result.matches.map((m) => m.pattern_id),
+    suppressed_patterns: result.suppressed_matches?.map((m) => m.pattern_id),
+    baselined_patterns: result.baselined_matches?.map((m) => m.pattern_id),
     encoding_detections: result.encodings.map((e) => e.type),
     schema_valid: result.schema_valid,
     format: result.format,
     approver: opts.approver,
     reason: opts.reason,
+    cache_hit: opts.cacheHit,
+    approval: opts.approval,
+    quorum: opts.quorum,
+    denial: opts.denial,
+    grant: opts.grant,
+    ...evidence,
   };
 }
 
+/**
+ * Lock file serializing JSONL appends across processes.
+ */
+export const AUDIT_LOCK_NAME = "audit.lock";
+
 /**
  * Rotate log files if current log exceeds maxSizeBytes.
  *
  * Rotation chain: current → .1, .1 → .2, .2 → .3, delete beyond maxRotatedFiles.
+ * Every step is a rename, so a crash mid-rotation loses no entries, and
+ * the caller holds the audit lock so no other process rotates or appends
+ * in between.
  */
 export function rotateIfNeeded(config: AuditConfig): void {
   const logPath = join(config.logDir, currentLogName());
@@ -141,27 +207,547 @@ export function rotateIfNeeded(config: AuditConfig): void {
   renameSync(logPath, join(config.logDir, `${prefix}.1${ext}`));
 }
 
+// ============================================================
+// Hash chain
+// ============================================================
+
 /**
- * Append an audit entry to the log file.
- * Fail-open: catches write errors and warns to stderr.
+ * prev_hash of the first entry in a chain.
+ */
+export const GENESIS_HASH = "0".repeat(64);
+
+const LOG_FILE_RE = /^audit-(\d{4})-(\d{2})(?:\.(\d+))?\.jsonl(\.gz)?$/;
+
+interface LogFile {
+  path: string;
+  /** YYYY-MM from the file name */
+  month: string;
+  /** Rotation index (0 = unrotated) */
+  rotation: number;
+  archived: boolean;
+}
+
+function scanLogFiles(config: AuditConfig): LogFile[] {
+  if (!existsSync(config.logDir)) return [];
+
+  const logs: LogFile[] = [];
+  for (const name of readdirSync(config.logDir)) {
+    const m = LOG_FILE_RE.exec(name);
+    if (!m) continue;
+    logs.push({
+      path: join(config.logDir, name),
+      month: `${m[1]}-${m[2]}`,
+      rotation: m[3] === undefined ? 0 : parseInt(m[3], 10),
+      archived: m[4] !== undefined,
+    });
+  }
+
+  logs.sort((a, b) =>
+    a.month !== b.month ? (a.month < b.month ? -1 : 1) : b.rotation - a.rotation
+  );
+  return logs;
+}
+
+/**
+ * List every audit log file in the directory, oldest first, including
+ * gzip archives written by the retention policy.
+ *
+ * Months sort chronologically; within a month the highest rotation
+ * index is oldest and the unrotated file is newest:
+ * audit-2026-01.2.jsonl.gz, audit-2026-01.1.jsonl.gz, audit-2026-01.jsonl.gz,
+ * audit-2026-02.jsonl, ...
+ */
+export function listLogFiles(config: AuditConfig): string[] {
+  return scanLogFiles(config).map((l) => l.path);
+}
+
+/**
+ * Read a log file, decompressing gzip archives.
+ */
+function readLogFile(path: string): string {
+  const data = readFileSync(path);
+  return (path.endsWith(".gz") ? gunzipSync(data) : data).toString("utf-8");
+}
+
+/**
+ * Last non-empty line of a file. Plain files are read backwards in
+ * chunks so appends stay cheap on large logs; archives are decompressed.
+ * Returns null for an empty file.
+ */
+function readLastLine(path: string): string | null {
+  if (path.endsWith(".gz")) {
+    const trimmed = readLogFile(path).trimEnd();
+    return trimmed === "" ? null : trimmed.slice(trimmed.lastIndexOf("\n") + 1);
+  }
+
+  const CHUNK = 64 * 1024;
+  const fd = openSync(path, "r");
+  try {
+    let pos = statSync(path).size;
+    let tail = Buffer.alloc(0);
+    while (pos > 0) {
+      const len = Math.min(CHUNK, pos);
+      pos -= len;
+      const buf = Buffer.alloc(len);
+      readSync(fd, buf, 0, len, pos);
+      // Search bytes, not chars: a chunk may split a multi-byte character
+      tail = Buffer.concat([buf, tail]);
+      let end = tail.length;
+      while (end > 0 && (tail[end - 1] === 0x0a || tail[end - 1] === 0x0d || tail[end - 1] === 0x20)) {
+        end--;
+      }
+      const nl = tail.lastIndexOf(0x0a, end - 1);
+      if (nl >= 0 && end > 0) return tail.subarray(nl + 1, end).toString("utf-8");
+    }
+    const trimmed = tail.toString("utf-8").trimEnd();
+    return trimmed === "" ? null : trimmed;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// ============================================================
+// Retention
+// ============================================================
+
+/**
+ * YYYY-MM of the month `offset` months before `now` (local time, like
+ * currentLogName).
+ */
+function monthOffset(now: Date, offset: number): string {
+  const d = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Apply config.retention to the JSONL files: files from months older
+ * than the newest maxMonths (the current month counts as one) are
+ * gzipped to <name>.gz, or deleted when archive is false. Archives stay
+ * readable by readAuditLog and verifyAuditLog. Returns the paths acted on.
+ *
+ * Deleting history makes verifyAuditLog report the chain as pruned.
+ */
+export function applyRetention(config: AuditConfig, now: Date = new Date()): string[] {
+  const retention = config.retention;
+  if (!retention) return [];
+
+  const cutoff = monthOffset(now, Math.max(1, retention.maxMonths) - 1);
+  const affected: string[] = [];
+  for (const log of scanLogFiles(config)) {
+    if (log.month >= cutoff) continue;
+    if (!retention.archive) {
+      unlinkSync(log.path);
+      affected.push(log.path);
+    } else if (!log.archived) {
+      // Write-then-rename so a crash never leaves a truncated archive
+      const archive = `${log.path}.gz`;
+      writeFileSync(`${archive}.tmp`, gzipSync(readFileSync(log.path)));
+      renameSync(`${archive}.tmp`, archive);
+      unlinkSync(log.path);
+      affected.push(archive);
+    }
+  }
+  return affected;
+}
+
+/**
+ * The seq and prev_hash the next appended entry must carry.
+ *
+ * Taken from the newest non-empty log file, so the chain continues
+ * across rotation (the last entry moves to .1) and across months (the
+ * new month's file starts empty). A tail written before chaining, or a
+ * corrupt tail, is still hashed but the sequence restarts at 0.
+ */
+export function chainHead(config: AuditConfig): { seq: number; prevHash: string } {
+  const files = listLogFiles(config);
+  for (let i = files.length - 1; i >= 0; i--) {
+    const last = readLastLine(files[i]!);
+    if (last !== null) return chainHeadAfter(last);
+  }
+  return chainHeadAfter(null);
+}
+
+/**
+ * The seq and prev_hash that follow a stored line (null: empty log).
+ * Shared by every sink so all backends chain identically.
+ */
+export function chainHeadAfter(last: string | null): { seq: number; prevHash: string } {
+  if (last === null) return { seq: 0, prevHash: GENESIS_HASH };
+
+  let seq = -1;
+  try {
+    const parsed = JSON.parse(last) as { seq?: unknown };
+    if (typeof parsed.seq === "number") seq = parsed.seq;
+  } catch {
+    // Corrupt tail — link to it anyway so verify reports it
+  }
+  return { seq: seq + 1, prevHash: hashContent(last) };
+}
+
+/**
+ * Walk every stored entry, oldest first, and check the hash chain: each
+ * entry's seq must follow the previous one and its prev_hash must equal
+ * the SHA-256 of the previous line as written. For JSONL that is every
+ * log file (rotated and monthly); for sqlite, every row in insert order.
+ *
+ * Entries from before chaining are accepted only ahead of the first
+ * chained entry. If the oldest surviving entry links to a file that
+ * rotation deleted, verification starts there and `pruned` is set.
+ * Stops at the first broken link. Truncating the newest entries cannot
+ * be detected from the log alone; compare last_seq/last_hash against a
+ * previously recorded value.
+ */
+export function verifyAuditLog(config: AuditConfig): AuditVerifyResult {
+  const sink = openAuditSink(config);
+  try {
+    const files =
+      sink.backend === "sqlite" ? [sqliteDbPath(config)] : listLogFiles(config);
+    return verifyLines(sink.lines(), files);
+  } finally {
+    sink.close();
+  }
+}
+
+function verifyLines(lines: Iterable<AuditLogLine>, files: string[]): AuditVerifyResult {
+  const result: AuditVerifyResult = {
+    valid: true,
+    files,
+    entries: 0,
+    legacy_entries: 0,
+    first_seq: null,
+    last_seq: null,
+    last_hash: null,
+    pruned: false,
+  };
+
+  let prevLine: string | null = null;
+  let prevSeq: number | null = null;
+  let isFirstLine = true;
+
+  for (const { file, line: lineNo, text: line } of lines) {
+    const fail = (reason: string, seq?: number): AuditVerifyResult => {
+      result.valid = false;
+      result.break = { file, line: lineNo, seq, reason };
+      return result;
+    };
+
+    let entry: { seq?: unknown; prev_hash?: unknown };
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      if (prevSeq !== null) return fail("malformed entry");
+      result.legacy_entries++;
+      prevLine = line;
+      isFirstLine = false;
+      continue;
+    }
+
+    if (typeof entry.seq !== "number" || typeof entry.prev_hash !== "string") {
+      if (prevSeq !== null) return fail("entry is missing seq/prev_hash");
+      result.legacy_entries++;
+      prevLine = line;
+      isFirstLine = false;
+      continue;
+    }
+
+    const seq = entry.seq;
+    if (prevSeq === null) {
+      // First chained entry: genesis, linked to a legacy line, or the
+      // oldest surviving entry after rotation pruned its predecessors
+      if (entry.prev_hash === GENESIS_HASH) {
+        if (seq !== 0) return fail(`genesis entry has seq ${seq}`, seq);
+      } else if (prevLine !== null && entry.prev_hash === hashContent(prevLine)) {
+        // continues a legacy log
+      } else if (isFirstLine && seq > 0) {
+        result.pruned = true;
+      } else {
+        return fail("prev_hash does not match the previous entry", seq);
+      }
+      result.first_seq = seq;
+    } else {
+      if (seq !== prevSeq + 1) {
+        return fail(`sequence gap: expected ${prevSeq + 1}, found ${seq}`, seq);
+      }
+      if (entry.prev_hash !== hashContent(prevLine!)) {
+        return fail("prev_hash does not match the previous entry", seq);
+      }
+    }
+
+    result.entries++;
+    result.last_seq = seq;
+    result.last_hash = hashContent(line);
+    prevSeq = seq;
+    prevLine = line;
+    isFirstLine = false;
+  }
+
+  return result;
+}
+
+// ============================================================
+// Signatures
+// ============================================================
+
+/**
+ * Serialize an entry, appending key_id and an HMAC signature over the
+ * serialized entry (including seq, prev_hash and key_id).
+ */
+export function signEntry(entry: AuditEntry, key: SigningKey): string {
+  const { signature: _, ...unsigned } = entry;
+  const payload = JSON.stringify({ ...unsigned, key_id: key.id });
+  return JSON.stringify({ ...unsigned, key_id: key.id, signature: signPayload(payload, key) });
+}
+
+/**
+ * Check the signature of one raw JSONL line against the keys in keyDir.
+ * Unsigned entries, unknown key IDs and mismatches are all invalid.
+ */
+export function verifyEntrySignature(line: string, keyDir: string): boolean {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(line);
+  } catch {
+    return false;
+  }
+
+  const { signature, ...unsigned } = raw;
+  if (typeof signature !== "string" || typeof unsigned.key_id !== "string") return false;
+  const key = loadSigningKey(keyDir, unsigned.key_id);
+  return key !== null && verifyPayload(JSON.stringify(unsigned), signature, key);
+}
+
+/**
+ * Serialize an entry for storage, signed when signing is configured.
+ * A signing failure (e.g. unwritable key dir) logs the entry unsigned
+ * rather than dropping it — readers see signature_valid: false.
+ */
+export function serializeAuditEntry(entry: AuditEntry, config: AuditConfig): string {
+  if (config.signingKeyDir) {
+    try {
+      return signEntry(entry, currentSigningKey(config.signingKeyDir));
+    } catch (e) {
+      console.warn(
+        `[content-filter] audit signing failed: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+  return JSON.stringify(entry);
+}
+
+/**
+ * Parse one stored line into an entry, checking its signature when a
+ * key directory is configured. Returns null for malformed lines.
  */
-export function logAuditEntry(entry: AuditEntry, config: AuditConfig): void {
+export function parseAuditLine(line: string, config: AuditConfig): ReadAuditEntry | null {
   try {
-    if (!existsSync(config.logDir)) {
-      mkdirSync(config.logDir, { recursive: true });
+    const parsed: ReadAuditEntry = AuditEntrySchema.parse(JSON.parse(line));
+    if (config.signingKeyDir) {
+      parsed.signature_valid = verifyEntrySignature(line, config.signingKeyDir);
     }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether an entry satisfies every field set on the query (the `last`
+ * limit is applied separately).
+ */
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.since && entry.timestamp < new Date(query.since).toISOString()) return false;
+  if (query.until && entry.timestamp >= new Date(query.until).toISOString()) return false;
+  if (query.sessionId && entry.session_id !== query.sessionId) return false;
+  if (query.sourceRepo && entry.source_repo !== query.sourceRepo) return false;
+  if (query.sourceFile && !new Bun.Glob(query.sourceFile).match(entry.source_file)) return false;
+  if (query.patternId && !entry.matched_patterns.includes(query.patternId)) return false;
+  if (query.approver && entry.approver !== query.approver) return false;
+  if (query.contentHash && entry.content_hash !== query.contentHash) return false;
+  if (query.decision && entry.decision !== query.decision) return false;
+  if (query.eventType && entry.event_type !== query.eventType) return false;
+  return true;
+}
 
-    rotateIfNeeded(config);
+/**
+ * JSONL sink: monthly files in logDir, rotated by size, old months
+ * archived or deleted per config.retention.
+ *
+ * Appends hold <logDir>/audit.lock (see withFileLock), so parallel hook
+ * processes never rotate at the same time, interleave partial lines or
+ * assign the same seq. Reads take no lock.
+ *
+ * Reads cover every month, rotated file and gzip archive. stream()
+ * walks files newest first and stops at the `last` limit or at months
+ * before `since`; query() also sorts by timestamp, so it reads every
+ * file in range. Use the sqlite backend for indexed queries.
+ */
+export function createJsonlSink(config: AuditConfig): AuditSink {
+  return {
+    backend: "jsonl",
+
+    append(entry: AuditEntry): string {
+      if (!existsSync(config.logDir)) {
+        mkdirSync(config.logDir, { recursive: true });
+      }
+
+      // Hooks run as parallel processes: rotation, retention, reading the
+      // chain head and the append must happen as one step per writer
+      return withFileLock(join(config.logDir, AUDIT_LOCK_NAME), () => {
+        rotateIfNeeded(config);
+        applyRetention(config);
+
+        const head = chainHead(config);
+        const chained: AuditEntry = { ...entry, seq: head.seq, prev_hash: head.prevHash };
+        const line = serializeAuditEntry(chained, config);
+        appendFileSync(join(config.logDir, currentLogName()), line + "\n");
+        return line;
+      });
+    },
+
+    query(query: AuditQuery = {}): ReadAuditEntry[] {
+      const entries = [...this.stream({ ...query, last: undefined })];
+
+      // Sort reverse chronological (files can hold out-of-order timestamps)
+      entries.sort(
+        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+
+      // Apply last N limit
+      if (query.last !== undefined && query.last > 0) {
+        return entries.slice(0, query.last);
+      }
+      return entries;
+    },
+
+    *stream(query: AuditQuery = {}): Iterable<ReadAuditEntry> {
+      // Months more than one month before `since` cannot hold matching
+      // entries (the margin absorbs local-time vs UTC month boundaries)
+      const oldestMonth = query.since ? monthOffset(new Date(query.since), 1) : null;
+      const limit = query.last !== undefined && query.last > 0 ? query.last : null;
+
+      let yielded = 0;
+      const logs = scanLogFiles(config).reverse();
+      for (const log of logs) {
+        if (oldestMonth !== null && log.month < oldestMonth) break;
+
+        const lines = readLogFile(log.path).split("\n");
+        for (let i = lines.length - 1; i >= 0; i--) {
+          if (lines[i]!.trim() === "") continue;
+          const parsed = parseAuditLine(lines[i]!, config);
+          if (!parsed || !matchesAuditQuery(parsed, query)) continue;
+          yield parsed;
+          if (limit !== null && ++yielded >= limit) return;
+        }
+      }
+    },
+
+    *lines(): Iterable<AuditLogLine> {
+      for (const file of listLogFiles(config)) {
+        const lines = readLogFile(file).split("\n");
+        for (const [idx, text] of lines.entries()) {
+          if (text.trim() !== "") yield { file, line: idx + 1, text };
+        }
+      }
+    },
+
+    close(): void {
+      // Nothing held open between calls
+    },
+  };
+}
+
+/**
+ * Open the sink selected by config.backend (default jsonl).
+ */
+export function openAuditSink(config: AuditConfig): AuditSink {
+  return config.backend === "sqlite" ? createSqliteSink(config) : createJsonlSink(config);
+}
 
-    const logPath = join(config.logDir, currentLogName());
-    appendFileSync(logPath, JSON.stringify(entry) + "\n");
+/**
+ * Append an audit entry, linked into the hash chain and signed when
+ * config.signingKeyDir is set, to the configured backend. With
+ * config.forward set, the stored entry is also spooled for a local
+ * collector (see forwardAuditEntry).
+ *
+ * Returns the stored JSONL line, or undefined when the write failed.
+ * Fail-open: catches write errors and warns to stderr.
+ */
+export function logAuditEntry(entry: AuditEntry, config: AuditConfig): string | undefined {
+  try {
+    const sink = openAuditSink(config);
+    let line: string;
+    try {
+      line = sink.append(entry);
+    } finally {
+      sink.close();
+    }
+    if (config.forward) forwardAuditEntry(JSON.parse(line), config.forward);
+    return line;
   } catch (e) {
     console.warn(
       `[content-filter] audit log write failed: ${e instanceof Error ? e.message : String(e)}`
     );
+    return undefined;
   }
 }
 
+/**
+ * Default audit log location.
+ */
+export const DEFAULT_AUDIT_DIR = join(homedir(), ".config", "content-filter", "audit");
+
+/**
+ * Resolve the audit config used by hooks.
+ *
+ * 1. CONTENT_FILTER_AUDIT=off disables audit logging
+ * 2. CONTENT_FILTER_AUDIT_DIR overrides the log directory
+ * 3. Fall back to ~/.config/content-filter/audit
+ *
+ * Signing follows resolveSigningKeyDir (CONTENT_FILTER_AUDIT_SIGN=on);
+ * CONTENT_FILTER_AUDIT_BACKEND=sqlite selects the sqlite backend;
+ * CONTENT_FILTER_AUDIT_MAX_MONTHS enables retention (archived to gzip,
+ * or deleted with CONTENT_FILTER_AUDIT_ARCHIVE=off);
+ * CONTENT_FILTER_AUDIT_FORWARD enables live forwarding (resolveForwardConfig);
+ * CONTENT_FILTER_AUDIT_EVIDENCE=on records match evidence (PII masked);
+ * CONTENT_FILTER_QUORUM enables the two-person rule (resolveQuorumPolicy);
+ * the reviewer registry follows resolveReviewerRegistry.
+ */
+export function resolveAuditConfig(): AuditConfig | undefined {
+  if (process.env.CONTENT_FILTER_AUDIT === "off") return undefined;
+  return buildAuditConfig(process.env.CONTENT_FILTER_AUDIT_DIR ?? DEFAULT_AUDIT_DIR, {
+    signingKeyDir: resolveSigningKeyDir(),
+    backend: process.env.CONTENT_FILTER_AUDIT_BACKEND === "sqlite" ? "sqlite" : undefined,
+    retention: resolveRetention(),
+    forward: resolveForwardConfig(),
+    evidence:
+      process.env.CONTENT_FILTER_AUDIT_EVIDENCE === "on" ? DEFAULT_EVIDENCE_POLICY : undefined,
+    quorum: resolveQuorumPolicy(),
+    reviewers: resolveReviewerRegistry(),
+  });
+}
+
+/**
+ * resolveAuditConfig for logging filter decisions (the ContentFilter
+ * hook, check and scan). Fail-open like the audit write itself: an
+ * invalid audit environment is reported and filtering runs unaudited.
+ */
+export function resolveFilterAuditConfig(): AuditConfig | undefined {
+  try {
+    return resolveAuditConfig();
+  } catch (e) {
+    console.warn(
+      `[content-filter] audit disabled: ${e instanceof Error ? e.message : String(e)}`
+    );
+    return undefined;
+  }
+}
+
+function resolveRetention(): AuditRetention | undefined {
+  const maxMonths = parseInt(process.env.CONTENT_FILTER_AUDIT_MAX_MONTHS ?? "", 10);
+  if (!(maxMonths > 0)) return undefined;
+  return { maxMonths, archive: process.env.CONTENT_FILTER_AUDIT_ARCHIVE !== "off" };
+}
+
 /**
  * Build a full AuditConfig with defaults.
  */
@@ -174,78 +760,61 @@ export function buildAuditConfig(
     maxSizeBytes: overrides?.maxSizeBytes ?? DEFAULT_AUDIT_CONFIG.maxSizeBytes,
     maxRotatedFiles:
       overrides?.maxRotatedFiles ?? DEFAULT_AUDIT_CONFIG.maxRotatedFiles,
+    signingKeyDir: overrides?.signingKeyDir,
+    backend: overrides?.backend,
+    retention: overrides?.retention,
+    forward: overrides?.forward,
+    evidence: overrides?.evidence,
+    quorum: overrides?.quorum,
+    reviewers: overrides?.reviewers,
   };
 }
 
 /**
  * Read and query audit log entries.
  *
- * Options:
+ * Options (all optional, combined with AND):
+ * - since / until: timestamp range (until is exclusive)
+ * - sessionId, sourceRepo, approver, contentHash: exact match
+ * - sourceFile: glob over source_file
+ * - patternId: entries that matched this pattern
+ * - decision / eventType: filter by decision or event type
  * - last: return only the last N entries
- * - decision: filter by decision type
- * - eventType: filter by event type
  *
  * Returns entries in reverse chronological order (newest first).
  * Skips malformed lines. Reads rotated files when available.
+ * With config.signingKeyDir set, each entry carries signature_valid.
  */
 export function readAuditLog(
   config: AuditConfig,
-  opts?: {
-    last?: number;
-    decision?: string;
-    eventType?: string;
-  }
-): AuditEntry[] {
+  opts?: AuditQuery
+): ReadAuditEntry[] {
   if (!existsSync(config.logDir)) return [];
 
-  const baseName = currentLogName();
-  const dotIdx = baseName.lastIndexOf(".jsonl");
-  const prefix = baseName.slice(0, dotIdx);
-  const ext = ".jsonl";
-
-  // Collect all log files: current + rotated (in order: current, .1, .2, .3)
-  const files: string[] = [];
-  const currentPath = join(config.logDir, baseName);
-  if (existsSync(currentPath)) files.push(currentPath);
-
-  for (let i = 1; i <= config.maxRotatedFiles; i++) {
-    const rotatedPath = join(config.logDir, `${prefix}.${i}${ext}`);
-    if (existsSync(rotatedPath)) files.push(rotatedPath);
-  }
-
-  // Parse all entries
-  const entries: AuditEntry[] = [];
-  for (const file of files) {
-    const content = readFileSync(file, "utf-8");
-    const lines = content.split("\n").filter((l) => l.trim() !== "");
-    for (const line of lines) {
-      try {
-        const parsed = AuditEntrySchema.parse(JSON.parse(line));
-        entries.push(parsed);
-      } catch {
-        // Skip malformed lines
-      }
-    }
+  const sink = openAuditSink(config);
+  try {
+    return sink.query(opts);
+  } finally {
+    sink.close();
   }
+}
 
-  // Sort reverse chronological
-  entries.sort(
-    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-  );
-
-  // Apply filters
-  let filtered = entries;
-  if (opts?.decision) {
-    filtered = filtered.filter((e) => e.decision === opts.decision);
-  }
-  if (opts?.eventType) {
-    filtered = filtered.filter((e) => e.event_type === opts.eventType);
-  }
+/**
+ * Lazily stream audit entries matching a query, newest first in storage
+ * order (append order, not re-sorted by timestamp), so a large history
+ * can be scanned without loading it. Iteration can stop at any point;
+ * the underlying sink is closed when it does.
+ */
+export function* streamAuditLog(
+  config: AuditConfig,
+  opts?: AuditQuery
+): Generator<ReadAuditEntry> {
+  if (!existsSync(config.logDir)) return;
 
-  // Apply last N limit
-  if (opts?.last !== undefined && opts.last > 0) {
-    filtered = filtered.slice(0, opts.last);
+  const sink = openAuditSink(config);
+  try {
+    yield* sink.stream(opts);
+  } finally {
+    sink.close();
   }
-
-  return filtered;
 }
@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import {
+  mkdirSync,
+  readFileSync,
+  realpathSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { basename, delimiter, dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { homedir } from "os";
+import { resolveConfig } from "./content-filter";
+import { filterDirectory } from "./directory-scanner";
+import { overallScore, scoreDetections } from "./scoring";
+import { BaselineSchema } from "./types";
+import type { Baseline, BaselineFinding, DirectoryScanOptions, FilterResult, PatternMatch } from "./types";
+
+/**
+ * Default baseline location, next to the audit and grant directories.
+ * Baselines are kept outside the scanned tree: a file inside an external
+ * repo is untrusted and could list its own findings as known.
+ */
+export const DEFAULT_BASELINE_DIR = join(homedir(), ".config", "content-filter", "baselines");
+
+/**
+ * Default baseline file for a directory: <DEFAULT_BASELINE_DIR>/<dir name>.json
+ */
+export function defaultBaselinePath(root: string): string {
+  return join(DEFAULT_BASELINE_DIR, `${basename(resolve(root))}.json`);
+}
+
+/**
+ * Fingerprint of a matched line: SHA-256 of its trimmed text.
+ */
+export function lineFingerprint(line: string): string {
+  return createHash("sha256").update(line.trim()).digest("hex");
+}
+
+/**
+ * Absolute path with symlinks resolved where possible, so baselines match
+ * the canonical paths the hook sees.
+ */
+function canonical(path: string): string {
+  try {
+    return realpathSync(resolve(path));
+  } catch {
+    return resolve(path);
+  }
+}
+
+/**
+ * File path relative to a baseline root as a POSIX path, or null when
+ * the file is outside the root.
+ */
+function relativeToRoot(root: string, file: string): string | null {
+  const rel = relative(root, canonical(file));
+  if (rel === "" || rel.startsWith("..") || isAbsolute(rel)) return null;
+  return rel.split(sep).join("/");
+}
+
+/**
+ * Only review-severity findings are baselined: a block-severity match
+ * must be overridden or granted, never silenced as legacy noise.
+ */
+function baselineable(m: PatternMatch): boolean {
+  return m.severity === "review";
+}
+
+/**
+ * Record the current review-severity findings under a directory.
+ *
+ * Scans the tree like `scan` (same include/exclude globs) and lists each
+ * distinct (pattern ID, file, line fingerprint), sorted by file.
+ */
+export function createBaseline(
+  root: string,
+  opts?: Pick<DirectoryScanOptions, "include" | "exclude" | "configPath">
+): Baseline {
+  const rootPath = canonical(root);
+  const scan = filterDirectory(rootPath, opts);
+  const seen = new Set<string>();
+  const findings: BaselineFinding[] = [];
+
+  for (const file of scan.files) {
+    const review = file.matches.filter(baselineable);
+    if (review.length === 0) continue;
+    const lines = readFileSync(file.file, "utf-8").split("\n");
+    const rel = relativeToRoot(rootPath, file.file)!;
+    for (const m of review) {
+      const finding = {
+        pattern_id: m.pattern_id,
+        file: rel,
+        fingerprint: lineFingerprint(lines[m.line - 1] ?? ""),
+      };
+      const key = `${finding.pattern_id}\0${finding.file}\0${finding.fingerprint}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      findings.push(finding);
+    }
+  }
+
+  findings.sort(
+    (a, b) => a.file.localeCompare(b.file) || a.pattern_id.localeCompare(b.pattern_id)
+  );
+  return {
+    version: 1,
+    root: rootPath,
+    created_at: new Date().toISOString(),
+    config_version: resolveConfig(opts?.configPath).version,
+    findings,
+  };
+}
+
+/**
+ * Write a baseline file (temp file + rename), creating its directory.
+ */
+export function writeBaseline(path: string, baseline: Baseline): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(baseline, null, 2) + "\n");
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Load and validate a baseline file. Throws on a missing or invalid file.
+ */
+export function loadBaseline(path: string): Baseline {
+  return BaselineSchema.parse(JSON.parse(readFileSync(path, "utf-8")));
+}
+
+/**
+ * Resolve the baselines used by the ContentFilter hook.
+ *
+ * CONTENT_FILTER_BASELINE lists baseline files separated by the path
+ * delimiter (":" on POSIX). Unset means no baselines. An unreadable or
+ * invalid file throws, so the hook fails closed.
+ */
+export function resolveBaselines(): Baseline[] {
+  const value = process.env.CONTENT_FILTER_BASELINE;
+  if (!value) return [];
+  return value
+    .split(delimiter)
+    .filter((p) => p !== "")
+    .map(loadBaseline);
+}
+
+/**
+ * Move known findings out of a result's matches.
+ *
+ * A review-severity match is known when a baseline whose root contains
+ * the file lists its pattern ID, file and line fingerprint. Known matches
+ * move to `baselined_matches` (flagged `baselined`) and the scores are
+ * recomputed from the rest, so only new findings drive the review policy.
+ * Block-severity matches are never baselined.
+ */
+export function applyBaseline(
+  result: FilterResult,
+  content: string,
+  baselines: Baseline[]
+): FilterResult {
+  if (baselines.length === 0 || result.matches.length === 0) return result;
+
+  const known = new Set<string>();
+  for (const baseline of baselines) {
+    const rel = relativeToRoot(baseline.root, result.file);
+    if (rel === null) continue;
+    for (const f of baseline.findings) {
+      if (f.file === rel) known.add(`${f.pattern_id}\0${f.fingerprint}`);
+    }
+  }
+  if (known.size === 0) return result;
+
+  const lines = content.split("\n");
+  const isKnown = (m: PatternMatch) =>
+    baselineable(m) && known.has(`${m.pattern_id}\0${lineFingerprint(lines[m.line - 1] ?? "")}`);
+  const baselined = result.matches.filter(isKnown);
+  if (baselined.length === 0) return result;
+
+  const matches = result.matches.filter((m) => !isKnown(m));
+  const scored = scoreDetections(matches, result.encodings);
+  const overall = overallScore(scored);
+  return {
+    ...result,
+    matches,
+    baselined_matches: baselined.map((m) => ({ ...m, baselined: true })),
+    scored_detections: scored.length > 0 ? scored : undefined,
+    overall_confidence: overall?.confidence,
+    overall_severity: overall?.severity,
+  };
+}
@@ -0,0 +1,445 @@
+import { randomBytes } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { homedir } from "os";
+import { z } from "zod";
+import { createAuditEntry, generateSessionId, hashContent, logAuditEntry } from "./audit";
+import { withFileLock } from "./file-lock";
+import { canonicalizePath } from "./path-resolver";
+import { quorumRequired, recordQuorumApproval } from "./quorum";
+import { enforceAuthorization } from "./reviewer-registry";
+import { BypassGrantSchema, ReviewerCategory } from "./types";
+import type {
+  AuditConfig,
+  AuditQuorum,
+  BypassGrant,
+  BypassGrantClaim,
+  BypassGrantKey,
+  BypassGrantScope,
+  BypassGrantStoreConfig,
+  FilterResult,
+} from "./types";
+
+/**
+ * Default grant store location, next to the audit and approval directories.
+ */
+export const DEFAULT_GRANTS_DIR = join(homedir(), ".config", "content-filter", "grants");
+
+export const DEFAULT_GRANT_TTL_MS = 4 * 60 * 60 * 1000;
+
+export const DEFAULT_GRANT_MAX_USES = 100;
+
+const GRANTS_FILE_NAME = "grants.json";
+const GRANTS_LOCK_NAME = "grants.lock";
+
+/**
+ * Resolve the grant store consulted by the ContentFilter hook and the CLI.
+ *
+ * On by default (grants only exist once a human issues one);
+ * CONTENT_FILTER_GRANTS=off disables it and CONTENT_FILTER_GRANTS_DIR
+ * overrides the location.
+ */
+export function resolveBypassGrantStore(): BypassGrantStoreConfig | undefined {
+  if (process.env.CONTENT_FILTER_GRANTS === "off") return undefined;
+  return { storeDir: process.env.CONTENT_FILTER_GRANTS_DIR ?? DEFAULT_GRANTS_DIR };
+}
+
+/**
+ * Every stored grant, including expired and used-up ones.
+ * A missing or unreadable file is treated as no grants.
+ */
+export function readBypassGrants(store: BypassGrantStoreConfig): BypassGrant[] {
+  try {
+    const path = join(store.storeDir, GRANTS_FILE_NAME);
+    if (!existsSync(path)) return [];
+    const parsed = z.array(BypassGrantSchema).safeParse(JSON.parse(readFileSync(path, "utf-8")));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether a grant can still be used: not expired and uses left.
+ */
+export function isGrantLive(grant: BypassGrant, now: Date = new Date()): boolean {
+  return Date.parse(grant.expires_at) > now.getTime() && grant.uses < grant.max_uses;
+}
+
+/**
+ * Update the grant file under the store lock (temp file + rename).
+ * Expired and used-up grants are dropped on every update.
+ */
+function updateBypassGrants<T>(
+  store: BypassGrantStoreConfig,
+  fn: (grants: BypassGrant[]) => { grants: BypassGrant[]; value: T }
+): T {
+  mkdirSync(store.storeDir, { recursive: true, mode: 0o700 });
+  return withFileLock(join(store.storeDir, GRANTS_LOCK_NAME), () => {
+    const now = new Date();
+    const { grants, value } = fn(readBypassGrants(store).filter((g) => isGrantLive(g, now)));
+    const path = join(store.storeDir, GRANTS_FILE_NAME);
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(grants, null, 2), { mode: 0o600 });
+    renameSync(tmpPath, path);
+    return value;
+  });
+}
+
+/**
+ * Characters that make a path segment a glob rather than a literal name.
+ */
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Normalize a grant target: path globs become absolute (a leading ~ is
+ * the home directory, relative globs resolve against cwd), and their
+ * literal leading directories are canonicalized like the files they
+ * are matched against, so symlinked directories still match.
+ */
+export function normalizeGrantTarget(
+  scope: BypassGrantScope,
+  target: string,
+  cwd: string = process.cwd()
+): string {
+  const trimmed = target.trim();
+  if (scope !== "path") return trimmed;
+  const expanded = trimmed === "~" || trimmed.startsWith("~/")
+    ? homedir() + trimmed.slice(1)
+    : trimmed;
+  const segments = resolve(cwd, expanded).split("/");
+  const firstGlob = segments.findIndex((s) => GLOB_CHARS.test(s));
+  const literal = firstGlob === -1 ? segments : segments.slice(0, firstGlob);
+  const root = canonicalizePath(literal.join("/") || "/", null, { literal: true });
+  if (root === null || firstGlob === -1) return root ?? segments.join("/");
+  return join(root, ...segments.slice(firstGlob));
+}
+
+/**
+ * Text standing in for a grant request's content in the audit trail: its
+ * scope, target, lifetime and use count.
+ */
+function grantRequest(
+  scope: BypassGrantScope,
+  target: string,
+  ttlMs: number,
+  maxUses: number
+): string {
+  return `bypass grant ${scope} ${target} ttl=${ttlMs} max_uses=${maxUses}`;
+}
+
+/**
+ * Content hash of a grant request's audit entries. Quorum approvals only
+ * add up for the same request, and the authorization_denied,
+ * approval_pending, grant_issued and grant_revoked entries of a grant
+ * share it.
+ */
+export function grantRequestHash(
+  scope: BypassGrantScope,
+  target: string,
+  ttlMs: number,
+  maxUses: number
+): string {
+  return hashContent(grantRequest(scope, target, ttlMs, maxUses));
+}
+
+/**
+ * The result a grant is authorized and audited against. A grant covers
+ * content nobody has reviewed yet, so it counts as a CRITICAL block.
+ */
+function grantResult(scope: BypassGrantScope, target: string): FilterResult {
+  return {
+    decision: "BLOCKED",
+    matches: [],
+    encodings: [],
+    schema_valid: true,
+    file: target,
+    format: "mixed",
+    overall_severity: "CRITICAL",
+  };
+}
+
+/**
+ * Issue a grant. The issuer and reason are required; the grant expires
+ * after ttlMs (default 4 hours) or maxUses uses (default 100), whichever
+ * comes first.
+ *
+ * The issuer is authorized like a bypass (see enforceAuthorization): with
+ * a reviewer registry they need the bypasser role for CRITICAL content in
+ * every category, since the grant lets through whatever it covers. A
+ * content grant may pass opts.result, the filter result of the content
+ * it covers, to be authorized for that result instead. A refusal is
+ * logged as authorization_denied and throws.
+ *
+ * With auditConfig.quorum the grant needs that many distinct issuers of
+ * the same request (scope, target, lifetime and use count). Below quorum
+ * the call is logged as approval_pending and grant is null. The issued
+ * grant is logged as grant_issued, with every approver in its quorum.
+ */
+export function issueBypassGrant(
+  store: BypassGrantStoreConfig,
+  opts: {
+    scope: BypassGrantScope;
+    target: string;
+    grantedBy: string;
+    reason: string;
+    ttlMs?: number;
+    maxUses?: number;
+    result?: FilterResult;
+    sessionId?: string;
+    requestedBy?: string;
+  },
+  auditConfig: AuditConfig,
+  now: Date = new Date()
+): { grant: BypassGrant | null; quorum?: AuditQuorum } {
+  if (!opts.target || opts.target.trim() === "") {
+    throw new Error("Bypass grant requires a non-empty target");
+  }
+  if (!opts.grantedBy || opts.grantedBy.trim() === "") {
+    throw new Error("Bypass grant requires a non-empty issuer");
+  }
+  if (!opts.reason || opts.reason.trim() === "") {
+    throw new Error("Bypass grant requires a non-empty reason");
+  }
+  const ttlMs = opts.ttlMs ?? DEFAULT_GRANT_TTL_MS;
+  if (!(ttlMs > 0)) throw new Error("Bypass grant lifetime must be positive");
+  const maxUses = opts.maxUses ?? DEFAULT_GRANT_MAX_USES;
+  if (!Number.isInteger(maxUses) || maxUses < 1) {
+    throw new Error("Bypass grant max uses must be a positive integer");
+  }
+  if (opts.result && opts.scope !== "content") {
+    throw new Error("Only a content grant can be authorized against a filter result");
+  }
+
+  const target = normalizeGrantTarget(opts.scope, opts.target);
+  const grantedBy = opts.grantedBy.trim();
+  const reason = opts.reason.trim();
+  const request = grantRequest(opts.scope, target, ttlMs, maxUses);
+  const result = opts.result ?? grantResult(opts.scope, target);
+  const sourceRepo = opts.scope === "repo" ? target : undefined;
+  const sessionId = opts.sessionId ?? generateSessionId();
+
+  enforceAuthorization(result, request, grantedBy, "bypass", auditConfig, {
+    sourceRepo,
+    sessionId,
+    reason,
+    categories: opts.result ? undefined : ReviewerCategory.options,
+  });
+
+  let quorum: AuditQuorum | undefined;
+  if (quorumRequired(result, auditConfig.quorum)) {
+    const vote = recordQuorumApproval(result, request, grantedBy, reason, "grant", auditConfig, {
+      sourceRepo,
+      sessionId,
+      requestedBy: opts.requestedBy,
+    });
+    if (!vote.reached) return { grant: null, quorum: vote.quorum };
+    quorum = vote.quorum;
+  }
+
+  const grant: BypassGrant = {
+    id: `bg_${randomBytes(6).toString("hex")}`,
+    scope: opts.scope,
+    target,
+    granted_by: grantedBy,
+    reason,
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+    max_uses: maxUses,
+    uses: 0,
+  };
+  updateBypassGrants(store, (grants) => ({ grants: [...grants, grant], value: grant }));
+
+  const entry = createAuditEntry(result, {
+    contentHash: hashContent(request),
+    sessionId,
+    sourceRepo,
+    approver: grantedBy,
+    reason,
+    eventTypeOverride: "grant_issued",
+    decisionOverride: "ALLOWED",
+    evidence: auditConfig.evidence,
+    quorum,
+    grant: { id: grant.id, scope: grant.scope, target: grant.target, uses: 0, max_uses: maxUses },
+  });
+  logAuditEntry(entry, auditConfig);
+
+  return { grant, quorum };
+}
+
+/**
+ * Live grants, oldest first.
+ */
+export function listBypassGrants(
+  store: BypassGrantStoreConfig,
+  now: Date = new Date()
+): BypassGrant[] {
+  return readBypassGrants(store).filter((g) => isGrantLive(g, now));
+}
+
+/**
+ * Remove a grant by id. Returns false when no live grant has that id.
+ *
+ * With an audit config, the revocation is logged as grant_revoked by
+ * opts.revokedBy, with the same content hash as the grant_issued entry.
+ */
+export function revokeBypassGrant(
+  store: BypassGrantStoreConfig,
+  id: string,
+  auditConfig?: AuditConfig,
+  opts?: { revokedBy?: string; reason?: string; sessionId?: string }
+): boolean {
+  const revoked = updateBypassGrants(store, (grants) => ({
+    grants: grants.filter((g) => g.id !== id),
+    value: grants.find((g) => g.id === id) ?? null,
+  }));
+  if (!revoked) return false;
+
+  if (auditConfig) {
+    const ttlMs = Date.parse(revoked.expires_at) - Date.parse(revoked.created_at);
+    const entry = createAuditEntry(grantResult(revoked.scope, revoked.target), {
+      contentHash: grantRequestHash(revoked.scope, revoked.target, ttlMs, revoked.max_uses),
+      sessionId: opts?.sessionId ?? generateSessionId(),
+      sourceRepo: revoked.scope === "repo" ? revoked.target : undefined,
+      approver: opts?.revokedBy?.trim(),
+      reason: opts?.reason?.trim(),
+      eventTypeOverride: "grant_revoked",
+      decisionOverride: "BLOCKED",
+      grant: {
+        id: revoked.id,
+        scope: revoked.scope,
+        target: revoked.target,
+        uses: revoked.uses,
+        max_uses: revoked.max_uses,
+      },
+    });
+    logAuditEntry(entry, auditConfig);
+  }
+  return true;
+}
+
+/**
+ * Whether a grant's scope covers a blocked file.
+ */
+export function grantCovers(grant: BypassGrant, key: BypassGrantKey): boolean {
+  switch (grant.scope) {
+    case "content":
+      return grant.target === key.contentHash;
+    case "path":
+      return new Bun.Glob(grant.target).match(key.file);
+    case "repo":
+      return key.sourceRepo !== undefined && grant.target === key.sourceRepo;
+  }
+}
+
+/**
+ * The first live grant covering a file, without using it.
+ */
+export function findBypassGrant(
+  store: BypassGrantStoreConfig,
+  key: BypassGrantKey,
+  now: Date = new Date()
+): BypassGrant | null {
+  return listBypassGrants(store, now).find((g) => grantCovers(g, key)) ?? null;
+}
+
+/**
+ * Use a live grant covering a file: its use count goes up by one under
+ * the store lock, so concurrent hooks never exceed max_uses. Returns the
+ * grant as updated, or null when no live grant covers the file.
+ */
+export function consumeBypassGrant(
+  store: BypassGrantStoreConfig,
+  key: BypassGrantKey,
+  now: Date = new Date()
+): BypassGrant | null {
+  return consumeBypassGrants(store, [key], now)?.[0] ?? null;
+}
+
+/**
+ * Use one grant per file, all or nothing, in a single store transaction.
+ *
+ * Uses are counted per grant as files are assigned, so a grant with one
+ * use left covers one file, not all of them. Returns each file's grant
+ * as it stood after that file's use, or null (and spends nothing) when
+ * any file is left uncovered.
+ */
+export function consumeBypassGrants(
+  store: BypassGrantStoreConfig,
+  keys: BypassGrantKey[],
+  now: Date = new Date()
+): BypassGrant[] | null {
+  return updateBypassGrants(store, (grants) => {
+    const reserved = [...grants];
+    const used: BypassGrant[] = [];
+    for (const key of keys) {
+      const index = reserved.findIndex((g) => g.uses < g.max_uses && grantCovers(g, key));
+      if (index < 0) return { grants, value: null };
+      const grant = reserved[index]!;
+      const next = { ...grant, uses: grant.uses + 1, last_used_at: now.toISOString() };
+      reserved[index] = next;
+      used.push(next);
+    }
+    return { grants: reserved, value: used };
+  });
+}
+
+/**
+ * Allow a BLOCKED result through a grant, if one covers it.
+ *
+ * Uses the grant and, with an audit config, logs the use as a
+ * content_filter_bypass entry by the grant's issuer that points at the
+ * grant. Returns the result with decision ALLOWED and the grant as used,
+ * or null when no live grant covers the content.
+ */
+export function redeemBypassGrant(
+  store: BypassGrantStoreConfig,
+  result: FilterResult,
+  content: string,
+  key: Omit<BypassGrantKey, "contentHash">,
+  auditConfig?: AuditConfig
+): { result: FilterResult; grant: BypassGrant } | null {
+  return redeemBypassGrants(store, [{ result, content, key }], auditConfig)?.[0] ?? null;
+}
+
+/**
+ * Allow several BLOCKED results through grants, all or nothing.
+ *
+ * The uses are reserved together (see consumeBypassGrants), so a call
+ * that one file would still block spends no grant. Each use is logged
+ * as in redeemBypassGrant. Returns the results in claim order, or null
+ * when any file is left uncovered.
+ */
+export function redeemBypassGrants(
+  store: BypassGrantStoreConfig,
+  claims: BypassGrantClaim[],
+  auditConfig?: AuditConfig
+): Array<{ result: FilterResult; grant: BypassGrant }> | null {
+  if (claims.length === 0) return [];
+  const contentHashes = claims.map((c) => hashContent(c.content));
+  const keys = claims.map((c, i) => ({ ...c.key, contentHash: contentHashes[i]! }));
+  // Only take the store lock (and write the file) when a reservation can succeed
+  const live = listBypassGrants(store);
+  if (!keys.every((key) => live.some((g) => grantCovers(g, key)))) return null;
+  const grants = consumeBypassGrants(store, keys);
+  if (!grants) return null;
+
+  return claims.map((claim, i) => {
+    const grant = grants[i]!;
+    if (auditConfig) {
+      const entry = createAuditEntry(claim.result, {
+        contentHash: contentHashes[i]!,
+        sessionId: generateSessionId(),
+        sourceRepo: claim.key.sourceRepo,
+        approver: grant.granted_by,
+        reason: grant.reason,
+        eventTypeOverride: "content_filter_bypass",
+        decisionOverride: "ALLOWED",
+        evidence: auditConfig.evidence,
+        grant: { id: grant.id, scope: grant.scope, uses: grant.uses, max_uses: grant.max_uses },
+      });
+      logAuditEntry(entry, auditConfig);
+    }
+    return { result: { ...claim.result, decision: "ALLOWED" as const }, grant };
+  });
+}
@@ -1,5 +1,7 @@
-import type { AuditConfig, ContentFilterBypassEvent, FilterResult } from "./types";
+import type { AuditConfig, AuditQuorum, ContentFilterBypassEvent, FilterResult } from "./types";
 import { hashContent, generateSessionId, logAuditEntry, createAuditEntry } from "./audit";
+import { quorumRequired, recordQuorumApproval } from "./quorum";
+import { enforceAuthorization } from "./reviewer-registry";
 
 /**
  * Explicitly bypass the content filter for a specific piece of content.
@@ -14,6 +16,15 @@ import { hashContent, generateSessionId, logAuditEntry, createAuditEntry } from
  * - content is hashed for the audit trail
  *
  * Returns the FilterResult with decision changed to ALLOWED and the bypass event.
+ *
+ * With auditConfig.quorum, bypasses of results at a listed severity need
+ * that many distinct callers. Below quorum the call is logged as
+ * approval_pending and the result comes back unchanged with result.quorum
+ * set; opts.requestedBy and repeat callers are rejected (throws).
+ *
+ * With a reviewer registry (see enforceAuthorization), the caller needs
+ * the bypasser role for the result's severity and categories; a refusal
+ * is logged as authorization_denied and throws.
  */
 export function bypassFilter(
   result: FilterResult,
@@ -21,7 +32,7 @@ export function bypassFilter(
   callerId: string,
   reason: string,
   auditConfig: AuditConfig,
-  opts?: { sessionId?: string; sourceRepo?: string }
+  opts?: { sessionId?: string; sourceRepo?: string; requestedBy?: string }
 ): { result: FilterResult; bypassEvent: ContentFilterBypassEvent } {
   if (!callerId || callerId.trim() === "") {
     throw new Error("Bypass requires a non-empty caller_id");
@@ -43,6 +54,23 @@ export function bypassFilter(
     timestamp,
   };
 
+  enforceAuthorization(result, content, callerId, "bypass", auditConfig, {
+    sourceRepo: opts?.sourceRepo,
+    sessionId,
+    reason,
+  });
+
+  let quorum: AuditQuorum | undefined;
+  if (quorumRequired(result, auditConfig.quorum)) {
+    const vote = recordQuorumApproval(result, content, callerId, reason, "bypass", auditConfig, {
+      sourceRepo: opts?.sourceRepo,
+      sessionId,
+      requestedBy: opts?.requestedBy,
+    });
+    if (!vote.reached) return { result: { ...result, quorum: vote.quorum }, bypassEvent };
+    quorum = vote.quorum;
+  }
+
   // Log via the existing audit infrastructure
   const entry = createAuditEntry(result, {
     contentHash,
@@ -52,6 +80,8 @@ export function bypassFilter(
     reason: reason.trim(),
     eventTypeOverride: "content_filter_bypass",
     decisionOverride: "ALLOWED",
+    evidence: auditConfig.evidence,
+    quorum,
   });
 
   logAuditEntry(entry, auditConfig);
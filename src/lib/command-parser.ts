@@ -1,11 +1,25 @@
-import type { CommandType, ParsedCommand } from "./types";
+import { isAbsolute, join, resolve } from "node:path";
+import type { CommandSegment, ParsedCommand } from "./types";
+import { expandPath } from "./path-resolver";
 
 // ============================================================
 // Flag-value consumption tables
-// When a flag appears in this set, the NEXT token is its value
-// and must not be misclassified as a URL or destination.
+// When a flag appears in this set, it takes a value (the NEXT token,
+// or attached as --flag=value / -fvalue) that must not be
+// misclassified as a URL or destination.
 // ============================================================
 
+const GIT_GLOBAL_VALUE_FLAGS = new Set([
+  "-C",
+  "-c",
+  "--git-dir",
+  "--work-tree",
+  "--namespace",
+  "--config-env",
+]);
+
+const GH_CLONE_VALUE_FLAGS = new Set(["-u", "--upstream-remote-name"]);
+
 const GIT_CLONE_VALUE_FLAGS = new Set([
   "--depth",
   "--branch",
@@ -19,6 +33,12 @@ const GIT_CLONE_VALUE_FLAGS = new Set([
   "--template",
   "-j",
   "--jobs",
+  "-u",
+  "--upload-pack",
+  "--filter",
+  "--shallow-since",
+  "--shallow-exclude",
+  "--reference-if-able",
 ]);
 
 const CURL_VALUE_FLAGS = new Set([
@@ -38,6 +58,26 @@ const CURL_VALUE_FLAGS = new Set([
   "--user-agent",
   "--connect-timeout",
   "--max-time",
+  "--url",
+  "-X",
+  "--request",
+  "-b",
+  "--cookie",
+  "-c",
+  "--cookie-jar",
+  "-F",
+  "--form",
+  "-T",
+  "--upload-file",
+  "-w",
+  "--write-out",
+  "-K",
+  "--config",
+  "--retry",
+  "--data-raw",
+  "--data-binary",
+  "--data-urlencode",
+  "--output-dir",
 ]);
 
 const WGET_VALUE_FLAGS = new Set([
@@ -52,6 +92,228 @@ const WGET_VALUE_FLAGS = new Set([
   "--timeout",
   "--tries",
   "-t",
+  "-o",
+  "--output-file",
+  "-a",
+  "--append-output",
+  "-U",
+  "--user-agent",
+  "-e",
+  "--execute",
+  "-i",
+  "--input-file",
+  "-B",
+  "--base",
+]);
+
+const GIT_SUBMODULE_ADD_VALUE_FLAGS = new Set([
+  "-b",
+  "--branch",
+  "--name",
+  "--reference",
+  "--depth",
+]);
+
+const GIT_FETCH_VALUE_FLAGS = new Set([
+  "--depth",
+  "--deepen",
+  "--shallow-since",
+  "--shallow-exclude",
+  "-j",
+  "--jobs",
+  "--upload-pack",
+  "--refmap",
+  "-o",
+  "--server-option",
+  "--negotiation-tip",
+  "--recurse-submodules-default",
+  "-s",
+  "--strategy",
+  "-X",
+  "--strategy-option",
+]);
+
+const GH_RELEASE_DOWNLOAD_VALUE_FLAGS = new Set([
+  "-D",
+  "--dir",
+  "-O",
+  "--output",
+  "-p",
+  "--pattern",
+  "-A",
+  "--archive",
+  "-R",
+  "--repo",
+]);
+
+const GH_PR_CHECKOUT_VALUE_FLAGS = new Set(["-R", "--repo", "-b", "--branch"]);
+
+const SCP_VALUE_FLAGS = new Set([
+  "-P",
+  "-i",
+  "-o",
+  "-F",
+  "-c",
+  "-l",
+  "-S",
+  "-J",
+  "-D",
+  "-X",
+]);
+
+const RSYNC_VALUE_FLAGS = new Set([
+  "-e",
+  "--rsh",
+  "-f",
+  "--filter",
+  "--exclude",
+  "--include",
+  "--exclude-from",
+  "--include-from",
+  "--files-from",
+  "-T",
+  "--temp-dir",
+  "--partial-dir",
+  "--backup-dir",
+  "--compare-dest",
+  "--copy-dest",
+  "--link-dest",
+  "--chmod",
+  "--chown",
+  "-B",
+  "--block-size",
+  "--max-size",
+  "--min-size",
+  "--timeout",
+  "--bwlimit",
+  "-M",
+  "--remote-option",
+  "--port",
+  "--password-file",
+  "--log-file",
+  "--rsync-path",
+]);
+
+const SVN_VALUE_FLAGS = new Set([
+  "-r",
+  "--revision",
+  "--depth",
+  "--set-depth",
+  "--username",
+  "--password",
+  "--config-dir",
+  "--config-option",
+]);
+
+const HG_GLOBAL_VALUE_FLAGS = new Set([
+  "--cwd",
+  "-R",
+  "--repository",
+  "--config",
+  "--encoding",
+]);
+
+const HG_CLONE_VALUE_FLAGS = new Set([
+  "-u",
+  "--updaterev",
+  "-r",
+  "--rev",
+  "-b",
+  "--branch",
+  "-e",
+  "--ssh",
+  "--remotecmd",
+  "--config",
+]);
+
+const NPM_PACK_VALUE_FLAGS = new Set([
+  "--pack-destination",
+  "--registry",
+  "-w",
+  "--workspace",
+  "--userconfig",
+  "--cache",
+]);
+
+const PIP_DOWNLOAD_VALUE_FLAGS = new Set([
+  "-d",
+  "--dest",
+  "-r",
+  "--requirement",
+  "-c",
+  "--constraint",
+  "-e",
+  "--editable",
+  "-i",
+  "--index-url",
+  "--extra-index-url",
+  "-f",
+  "--find-links",
+  "--platform",
+  "--python-version",
+  "--implementation",
+  "--abi",
+  "--no-binary",
+  "--only-binary",
+  "--progress-bar",
+  "--src",
+  "--proxy",
+  "--retries",
+  "--timeout",
+  "--cache-dir",
+  "--log",
+  "--trusted-host",
+  "--cert",
+  "--client-cert",
+]);
+
+const HF_DOWNLOAD_VALUE_FLAGS = new Set([
+  "--repo-type",
+  "--revision",
+  "--include",
+  "--exclude",
+  "--cache-dir",
+  "--local-dir",
+  "--token",
+  "--max-workers",
+  "--local-dir-use-symlinks",
+]);
+
+const ARIA2C_VALUE_FLAGS = new Set([
+  "-d",
+  "--dir",
+  "-o",
+  "--out",
+  "-i",
+  "--input-file",
+  "-T",
+  "--torrent-file",
+  "-M",
+  "--metalink-file",
+  "-x",
+  "--max-connection-per-server",
+  "-s",
+  "--split",
+  "-k",
+  "--min-split-size",
+  "-j",
+  "--max-concurrent-downloads",
+  "-t",
+  "--timeout",
+  "-m",
+  "--max-tries",
+  "-U",
+  "--user-agent",
+  "-l",
+  "--log",
+  "--header",
+  "--referer",
+  "--checksum",
+  "--load-cookies",
+  "--all-proxy",
+  "--http-user",
+  "--http-passwd",
+  "--max-download-limit",
 ]);
 
 // ============================================================
@@ -61,6 +323,8 @@ const WGET_VALUE_FLAGS = new Set([
 /**
  * Split a raw command string on the first occurrence of &&, ||, or ;
  * and return the first segment, trimmed. Handles empty/whitespace input.
+ *
+ * Only sees the first segment — use splitCommandLine to check a whole line.
  */
 export function extractFirstCommand(raw: string): string {
   // Find the earliest separator position
@@ -80,239 +344,1323 @@ export function extractFirstCommand(raw: string): string {
   return segment.trim();
 }
 
+// ============================================================
+// splitCommandLine
+// ============================================================
+
+/**
+ * Split a full command line into every simple-command segment.
+ *
+ * Unlike extractFirstCommand, this walks the whole line: &&, ||, ;, |, &
+ * and newlines separate segments; ( ... ) groups, $( ... ) and backtick
+ * substitutions are descended into (including inside double quotes, where
+ * the shell still executes them). Quoted separators are not split on.
+ *
+ * Each segment records its offsets in raw (so callers can splice a
+ * rewritten segment back in) and the working directory in effect, tracked
+ * through `cd`/`pushd`. cd inside a group or substitution only affects
+ * that subshell. When a cd target cannot be resolved statically
+ * (variables, `cd -`), cwd becomes null — unknown.
+ */
+export function splitCommandLine(
+  raw: string,
+  cwd: string | null = null
+): CommandSegment[] {
+  const segments: CommandSegment[] = [];
+  splitRange(raw, 0, null, { cwd }, segments);
+  return segments;
+}
+
+/**
+ * Scan raw from `start` until `closer` (")" or "`") or end of input,
+ * pushing segments to out. Returns the index just past the closer.
+ */
+function splitRange(
+  raw: string,
+  start: number,
+  closer: ")" | "`" | null,
+  scope: { cwd: string | null },
+  out: CommandSegment[]
+): number {
+  let segStart = start;
+  let i = start;
+  let inSingle = false;
+  let inDouble = false;
+  // Index in out of the segment whose output the next segment reads
+  let pipeSource: number | undefined;
+  // Directory of a cd followed by ||: in effect once the || branch is
+  // skipped, so the cwd after that branch is only known if they agree
+  let orElse: string | null | undefined;
+
+  /**
+   * End the segment at `end`. The separator decides where its cd takes
+   * effect: after && ; and newlines; not after | or & (the cd runs in a
+   * subshell); and after || only in the branch-skipped case.
+   */
+  const flush = (end: number, separator: string | null = null): void => {
+    const slice = raw.slice(segStart, end);
+    const text = slice.trim();
+    if (text.length > 0) {
+      const offset = segStart + (slice.length - slice.trimStart().length);
+      const segment: CommandSegment = { text, start: offset, end: offset + text.length, cwd: scope.cwd };
+      if (pipeSource !== undefined) segment.pipedFrom = pipeSource;
+      out.push(segment);
+      const after = applyCd(text, scope.cwd);
+      if (orElse !== undefined) {
+        scope.cwd = after === orElse ? after : null;
+        orElse = undefined;
+      } else if (separator === "||") {
+        if (after !== scope.cwd) orElse = after;
+      } else if (separator !== "|" && separator !== "&") {
+        scope.cwd = after;
+      }
+      pipeSource = separator === "|" ? out.length - 1 : undefined;
+    } else {
+      pipeSource = undefined;
+    }
+  };
+
+  while (i < raw.length) {
+    const ch = raw[i]!;
+    const next = raw[i + 1];
+
+    if (inSingle) {
+      if (ch === "'") inSingle = false;
+      i++;
+      continue;
+    }
+
+    if (ch === "\\") {
+      i += 2;
+      continue;
+    }
+
+    // Comment: an unquoted # at the start of a word runs to end of line
+    if (ch === "#" && !inDouble && (i === 0 || /\s/.test(raw[i - 1]!))) {
+      const nl = raw.indexOf("\n", i);
+      flush(i);
+      i = nl === -1 ? raw.length : nl;
+      segStart = i;
+      continue;
+    }
+
+    // Command substitution runs even inside double quotes
+    if (ch === "$" && next === "(") {
+      i = splitRange(raw, i + 2, ")", { cwd: scope.cwd }, out);
+      continue;
+    }
+    if (ch === "`" && closer !== "`") {
+      i = splitRange(raw, i + 1, "`", { cwd: scope.cwd }, out);
+      continue;
+    }
+
+    if (inDouble) {
+      if (ch === '"') inDouble = false;
+      i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      inSingle = true;
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      inDouble = true;
+      i++;
+      continue;
+    }
+
+    if (ch === closer) {
+      flush(i);
+      return i + 1;
+    }
+
+    // Subshell group: "( ... )" at the start of a segment
+    if (ch === "(" && raw.slice(segStart, i).trim() === "") {
+      i = splitRange(raw, i + 1, ")", { cwd: scope.cwd }, out);
+      segStart = i;
+      continue;
+    }
+
+    // Redirections like 2>&1, >&2, &> and >| (noclobber override) are not separators
+    const prev = raw[i - 1];
+    if (ch === "&" && (prev === ">" || prev === "<" || next === ">")) {
+      i++;
+      continue;
+    }
+    if (ch === "|" && prev === ">") {
+      i++;
+      continue;
+    }
+
+    if ((ch === "&" && next === "&") || (ch === "|" && next === "|")) {
+      flush(i, ch + next);
+      i += 2;
+      segStart = i;
+      continue;
+    }
+
+    if (ch === ";" || ch === "|" || ch === "&" || ch === "\n") {
+      flush(i, ch);
+      i++;
+      segStart = i;
+      continue;
+    }
+
+    i++;
+  }
+
+  flush(raw.length);
+  return raw.length;
+}
+
+/**
+ * Compute the working directory after a segment runs.
+ * Non-cd segments leave it unchanged.
+ */
+function applyCd(text: string, cwd: string | null): string | null {
+  const tokens = tokenize(text);
+  const start = skipShellSyntax(tokens, 0);
+  if (tokens[start] !== "cd" && tokens[start] !== "pushd") return cwd;
+
+  const target = tokens.slice(start + 1).find((t) => !t.startsWith("-") || t === "-");
+  if (target === undefined) return process.env.HOME ?? null;
+  return resolveWorkingDir(target, cwd);
+}
+
+/**
+ * Resolve a directory argument (cd, env -C, git -C, ...) against cwd.
+ * `~` and variables set in the hook's environment are expanded.
+ *
+ * Returns null when the result cannot be known statically: unset
+ * variables, globs, `cd -`, or a relative path with an unknown starting cwd.
+ */
+export function resolveWorkingDir(
+  target: string,
+  cwd: string | null
+): string | null {
+  if (target === "-") return null;
+  const expanded = expandPath(target);
+  if (expanded === null) return null;
+  if (isAbsolute(expanded)) return resolve(expanded);
+  return cwd === null ? null : resolve(cwd, expanded);
+}
+
 // ============================================================
 // tokenize
 // ============================================================
 
 /**
- * Split a command segment on whitespace, filtering empty strings.
+ * One shell word: its unquoted value and the exact source text.
+ */
+export interface ShellWord {
+  value: string;
+  raw: string;
+}
+
+/**
+ * Redirection operators emitted as their own words. An optional fd
+ * number is folded into the operator ("2>"), as is a duplicated fd
+ * ("2>&1", ">&-"), which then needs no separate target word.
+ */
+const REDIRECT_OPERATOR = /^(?:\d*(?:>>|>&|>\||>|<<<|<<|<&|<>|<)|&>>|&>)$/;
+const FD_DUPLICATION = /^\d*[<>]&(?:\d+|-)$/;
+
+/**
+ * POSIX-quoting-aware tokenizer.
+ *
+ * - Whitespace separates words; quotes and backslashes do not
+ * - '...' is literal; "..." honours \$ \` \" \\ escapes
+ * - Unquoted backslash escapes the next character (\<newline> is a continuation)
+ * - $(...), ${...} and `...` stay inside the word they appear in
+ * - Unquoted <, > and & redirections become separate operator words
+ * - An unquoted # at the start of a word begins a comment
+ *
+ * Variables are not expanded — values keep their literal $NAME text.
+ */
+export function tokenizeWords(segment: string): ShellWord[] {
+  const words: ShellWord[] = [];
+  let value = "";
+  let wordStart = -1;
+  let i = 0;
+
+  const endWord = (end: number): void => {
+    if (wordStart !== -1) {
+      words.push({ value, raw: segment.slice(wordStart, end) });
+    }
+    value = "";
+    wordStart = -1;
+  };
+
+  while (i < segment.length) {
+    const ch = segment[i]!;
+
+    if (/\s/.test(ch)) {
+      endWord(i);
+      i++;
+      continue;
+    }
+
+    if (ch === "#" && wordStart === -1) break;
+
+    // Redirection operators (with an optional numeric fd prefix)
+    if (ch === "<" || ch === ">" || (ch === "&" && segment[i + 1] === ">")) {
+      const fd = wordStart !== -1 && /^\d+$/.test(value) ? value : "";
+      const opStart = fd ? wordStart : i;
+      if (!fd) endWord(i);
+      const op = segment
+        .slice(i)
+        .match(/^(?:&>>|&>|>>|[<>]&(?:\d+|-)?|>\||<<<|<<|<>|>|<)/)![0];
+      i += op.length;
+      words.push({ value: fd + op, raw: segment.slice(opStart, i) });
+      value = "";
+      wordStart = -1;
+      continue;
+    }
+
+    if (wordStart === -1) wordStart = i;
+
+    if (ch === "'") {
+      const close = segment.indexOf("'", i + 1);
+      const end = close === -1 ? segment.length : close;
+      value += segment.slice(i + 1, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '"') {
+      i++;
+      while (i < segment.length && segment[i] !== '"') {
+        const c = segment[i]!;
+        if (c === "\\" && i + 1 < segment.length && '$`"\\\n'.includes(segment[i + 1]!)) {
+          if (segment[i + 1] !== "\n") value += segment[i + 1];
+          i += 2;
+          continue;
+        }
+        value += c;
+        i++;
+      }
+      i++; // closing quote
+      continue;
+    }
+
+    if (ch === "\\") {
+      if (i + 1 < segment.length && segment[i + 1] !== "\n") {
+        value += segment[i + 1];
+      }
+      i += 2;
+      continue;
+    }
+
+    // Keep substitutions intact, including any whitespace inside them
+    if ((ch === "$" && (segment[i + 1] === "(" || segment[i + 1] === "{")) || ch === "`") {
+      const end = findSubstitutionEnd(segment, i);
+      value += segment.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    value += ch;
+    i++;
+  }
+
+  endWord(Math.min(i, segment.length));
+  return words;
+}
+
+/**
+ * Index just past the end of a $(...), ${...} or `...` starting at i.
+ */
+function findSubstitutionEnd(text: string, i: number): number {
+  if (text[i] === "`") {
+    const close = text.indexOf("`", i + 1);
+    return close === -1 ? text.length : close + 1;
+  }
+
+  const open = text[i + 1]!;
+  const close = open === "(" ? ")" : "}";
+  let depth = 0;
+  for (let j = i + 1; j < text.length; j++) {
+    const c = text[j];
+    if (c === "\\") {
+      j++;
+    } else if (c === "'") {
+      const q = text.indexOf("'", j + 1);
+      j = q === -1 ? text.length : q;
+    } else if (c === open) {
+      depth++;
+    } else if (c === close && --depth === 0) {
+      return j + 1;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Split a command segment into unquoted word values.
  */
 export function tokenize(segment: string): string[] {
-  return segment.split(/\s+/).filter((t) => t.length > 0);
+  return tokenizeWords(segment).map((w) => w.value);
+}
+
+/**
+ * Quote a value so the shell reads it back as exactly one word.
+ * Plain values are returned unchanged; anything else is single-quoted.
+ */
+export function shellQuote(value: string): string {
+  if (value === "") return "''";
+  if (/^[A-Za-z0-9_\-.,:/@%+=~^]+$/.test(value)) return value;
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function isRedirect(token: string): boolean {
+  return REDIRECT_OPERATOR.test(token) || FD_DUPLICATION.test(token);
+}
+
+// ============================================================
+// Command prefixes (env assignments and wrappers)
+// ============================================================
+
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * Reserved words and group openers that can precede a simple command
+ * (`if git clone ...`, `then curl ...`, `{ wget ...; }`, `! scp ...`).
+ */
+const SHELL_KEYWORDS = new Set(["if", "then", "elif", "else", "do", "while", "until", "!", "{"]);
+
+/**
+ * A case pattern ("x)", "*.md|*.txt)") before the command of a case item.
+ */
+const CASE_PATTERN = /^\(?[^()]*\)$/;
+
+/**
+ * Skip leading shell syntax before a simple command: reserved words,
+ * group braces, `case WORD in` and case patterns. Returns the index of
+ * the first token after them.
+ */
+function skipShellSyntax(tokens: string[], start: number): number {
+  let i = start;
+  while (i < tokens.length) {
+    const tok = tokens[i]!;
+    if (SHELL_KEYWORDS.has(tok) || CASE_PATTERN.test(tok)) {
+      i++;
+    } else if (tok === "case") {
+      const inIdx = tokens.indexOf("in", i + 1);
+      i = inIdx === -1 ? tokens.length : inIdx + 1;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+/**
+ * Wrapper commands that run another command, with the flags that take a
+ * value, the flags that change directory before running it, and the
+ * number of operands before the command (timeout's DURATION).
+ */
+const WRAPPERS: Record<string, { valueFlags: Set<string>; chdirFlags: Set<string>; operands?: number }> = {
+  sudo: {
+    valueFlags: new Set(["-u", "--user", "-g", "--group", "-h", "--host", "-p", "--prompt", "-C", "--close-from", "-D", "--chdir", "-r", "--role", "-t", "--type", "-T", "--command-timeout", "-U", "--other-user"]),
+    chdirFlags: new Set(["-D", "--chdir"]),
+  },
+  env: {
+    valueFlags: new Set(["-u", "--unset", "-C", "--chdir", "-S", "--split-string"]),
+    chdirFlags: new Set(["-C", "--chdir"]),
+  },
+  command: { valueFlags: new Set(), chdirFlags: new Set() },
+  time: {
+    valueFlags: new Set(["-f", "--format", "-o", "--output"]),
+    chdirFlags: new Set(),
+  },
+  nice: { valueFlags: new Set(["-n", "--adjustment"]), chdirFlags: new Set() },
+  nohup: { valueFlags: new Set(), chdirFlags: new Set() },
+  exec: { valueFlags: new Set(["-a"]), chdirFlags: new Set() },
+  timeout: {
+    valueFlags: new Set(["-s", "--signal", "-k", "--kill-after"]),
+    chdirFlags: new Set(),
+    operands: 1,
+  },
+  stdbuf: {
+    valueFlags: new Set(["-i", "--input", "-o", "--output", "-e", "--error"]),
+    chdirFlags: new Set(),
+  },
+  ionice: {
+    valueFlags: new Set(["-c", "--class", "-n", "--classdata", "-p", "--pid", "-P", "--pgid", "-u", "--uid"]),
+    chdirFlags: new Set(),
+  },
+};
+
+/**
+ * Skip leading shell syntax (see skipShellSyntax), VAR=value assignments
+ * and wrapper commands (sudo, env, command, time, nice, nohup, exec,
+ * timeout, stdbuf, ionice).
+ *
+ * Returns the index of the real command and the last directory a wrapper
+ * switches to (env -C, sudo -D), if any.
+ */
+function skipCommandPrefix(tokens: string[]): { start: number; chdir?: string } {
+  let i = 0;
+  let chdir: string | undefined;
+
+  while (i < tokens.length) {
+    i = skipShellSyntax(tokens, i);
+    if (i >= tokens.length) break;
+    const tok = tokens[i]!;
+
+    if (ENV_ASSIGNMENT.test(tok)) {
+      i++;
+      continue;
+    }
+
+    const wrapper = WRAPPERS[commandName(tok)];
+    if (!wrapper) break;
+
+    const walk = walkArgs(tokens, i + 1, wrapper.valueFlags, { stopAtPositional: true });
+    for (const v of walk.values) {
+      if (wrapper.chdirFlags.has(v.flag)) chdir = v.value;
+    }
+    i = walk.end + (wrapper.operands ?? 0);
+  }
+
+  return { start: i, chdir };
+}
+
+/**
+ * Command name without its directory ("/usr/bin/git" → "git").
+ */
+function commandName(token: string): string {
+  return token.slice(token.lastIndexOf("/") + 1);
+}
+
+// ============================================================
+// Argument walking
+// ============================================================
+
+interface FlagValue {
+  /** Canonical flag name ("-o", "--output") */
+  flag: string;
+  value: string;
+  /** Token index that holds the value */
+  index: number;
+  /** Text before the value inside that token ("--output=", "-o", or "") */
+  prefix: string;
+}
+
+interface ArgWalk {
+  flags: string[];
+  /** Canonical names of flags that took no value ("-O" out of "-sLO") */
+  switches: string[];
+  positionals: Array<{ value: string; index: number }>;
+  values: FlagValue[];
+  /** Index just past the last token consumed */
+  end: number;
+}
+
+/**
+ * Walk argv-style tokens from start, separating flags from positionals.
+ *
+ * Understands --flag=value, separate values for flags in valueFlags,
+ * attached short values (-ofile) and short clusters (-sLo file), `--`
+ * end-of-options, and skips redirections with their targets. With
+ * stopAtPositional the walk ends at the first positional (used for
+ * wrapper commands, whose first positional is the wrapped command).
+ */
+function walkArgs(
+  tokens: string[],
+  start: number,
+  valueFlags: Set<string>,
+  opts?: { stopAtPositional?: boolean }
+): ArgWalk {
+  const walk: ArgWalk = { flags: [], switches: [], positionals: [], values: [], end: tokens.length };
+  let endOfOptions = false;
+  let i = start;
+
+  while (i < tokens.length) {
+    const tok = tokens[i]!;
+
+    if (isRedirect(tok)) {
+      i += FD_DUPLICATION.test(tok) ? 1 : 2;
+      continue;
+    }
+
+    if (endOfOptions || tok === "-" || !tok.startsWith("-")) {
+      if (opts?.stopAtPositional) {
+        walk.end = i;
+        return walk;
+      }
+      walk.positionals.push({ value: tok, index: i });
+      i++;
+      continue;
+    }
+
+    if (tok === "--") {
+      endOfOptions = true;
+      i++;
+      continue;
+    }
+
+    walk.flags.push(tok);
+
+    if (tok.startsWith("--")) {
+      const eq = tok.indexOf("=");
+      const name = eq > 0 ? tok.slice(0, eq) : tok;
+      if (valueFlags.has(name)) {
+        if (eq > 0) {
+          walk.values.push({ flag: name, value: tok.slice(eq + 1), index: i, prefix: tok.slice(0, eq + 1) });
+        } else if (i + 1 < tokens.length) {
+          walk.flags.push(tokens[i + 1]!);
+          walk.values.push({ flag: name, value: tokens[i + 1]!, index: i + 1, prefix: "" });
+          i++;
+        }
+      } else {
+        walk.switches.push(name);
+      }
+      i++;
+      continue;
+    }
+
+    // Short flag or cluster: the first value-taking flag consumes the rest
+    for (let k = 1; k < tok.length; k++) {
+      const flag = `-${tok[k]}`;
+      if (!valueFlags.has(flag)) {
+        walk.switches.push(flag);
+        continue;
+      }
+
+      const rest = tok.slice(k + 1);
+      if (rest) {
+        walk.values.push({ flag, value: rest, index: i, prefix: tok.slice(0, k + 1) });
+      } else if (i + 1 < tokens.length) {
+        walk.flags.push(tokens[i + 1]!);
+        walk.values.push({ flag, value: tokens[i + 1]!, index: i + 1, prefix: "" });
+        i++;
+      }
+      break;
+    }
+    i++;
+  }
+
+  walk.end = i;
+  return walk;
 }
 
 // ============================================================
 // classifyCommand
 // ============================================================
 
+/**
+ * Tokenize and classify one command segment, keeping the source text of
+ * each word so unchanged words are re-emitted exactly as written.
+ */
+export function parseCommand(segment: string): ParsedCommand {
+  const words = tokenizeWords(segment);
+  return classifyCommand(
+    words.map((w) => w.value),
+    words.map((w) => w.raw)
+  );
+}
+
 /**
  * Pattern-match tokens to identify command type and extract
  * URL, destination, and flags.
+ *
+ * Leading VAR=value assignments and wrappers (sudo, env, command, time,
+ * timeout, ...) are skipped to find the real command. rawTokens, when given, is
+ * the shell source of each token; otherwise tokens are re-quoted.
  */
-export function classifyCommand(tokens: string[]): ParsedCommand {
-  const raw = tokens.join(" ");
+export function classifyCommand(
+  tokens: string[],
+  rawTokens?: string[]
+): ParsedCommand {
+  const words = rawTokens ?? tokens.map(shellQuote);
+  const raw = words.join(" ");
+  const { start, chdir } = skipCommandPrefix(tokens);
+
   const base: ParsedCommand = {
     type: "passthrough",
     url: null,
     destination: null,
     flags: [],
     tokens,
+    rawTokens: words,
     raw,
   };
+  if (chdir !== undefined) base.chdir = chdir;
 
-  if (tokens.length === 0) {
+  if (start >= tokens.length) {
     return base;
   }
 
-  const cmd = tokens[0];
+  const cmd = commandName(tokens[start]!);
 
   // --- git clone ---
-  if (cmd === "git" && tokens[1] === "clone") {
-    return classifyGitClone(tokens, raw);
+  if (cmd === "git") {
+    return classifyGit(tokens, start, base);
   }
 
-  // --- gh repo clone ---
-  if (cmd === "gh" && tokens[1] === "repo" && tokens[2] === "clone") {
-    return classifyGhClone(tokens, raw);
+  // --- gh repo clone / release download / pr checkout ---
+  if (cmd === "gh") {
+    return classifyGh(tokens, start, base);
   }
 
   // --- curl ---
   if (cmd === "curl") {
-    return classifyCurl(tokens, raw);
+    return classifyCurl(tokens, start + 1, base);
   }
 
   // --- wget ---
   if (cmd === "wget") {
-    return classifyWget(tokens, raw);
+    return classifyWget(tokens, start + 1, base);
+  }
+
+  // --- scp / rsync ---
+  if (cmd === "scp") {
+    return classifyRemoteCopy(tokens, start + 1, base, "scp-download", SCP_VALUE_FLAGS);
+  }
+  if (cmd === "rsync") {
+    return classifyRemoteCopy(tokens, start + 1, base, "rsync-download", RSYNC_VALUE_FLAGS);
+  }
+
+  // --- svn checkout / export ---
+  if (cmd === "svn") {
+    return classifySvn(tokens, start, base);
+  }
+
+  // --- hg clone ---
+  if (cmd === "hg") {
+    return classifyHg(tokens, start, base);
+  }
+
+  // --- npm pack ---
+  if (cmd === "npm" && tokens[start + 1] === "pack") {
+    return classifyNpmPack(tokens, start + 2, base);
+  }
+
+  // --- pip download / python -m pip download ---
+  if (PIP_COMMAND.test(cmd) && tokens[start + 1] === "download") {
+    return classifyPipDownload(tokens, start + 2, base);
+  }
+  if (
+    PYTHON_COMMAND.test(cmd) &&
+    tokens[start + 1] === "-m" &&
+    PIP_COMMAND.test(tokens[start + 2] ?? "") &&
+    tokens[start + 3] === "download"
+  ) {
+    return classifyPipDownload(tokens, start + 4, base);
+  }
+
+  // --- huggingface-cli download / hf download ---
+  if ((cmd === "huggingface-cli" || cmd === "hf") && tokens[start + 1] === "download") {
+    return classifyHfDownload(tokens, start + 2, base);
+  }
+
+  // --- aria2c ---
+  if (cmd === "aria2c") {
+    return classifyAria2c(tokens, start + 1, base);
   }
 
   return base;
 }
 
+const PIP_COMMAND = /^pip(?:\d+(?:\.\d+)?)?$/;
+const PYTHON_COMMAND = /^python(?:\d+(?:\.\d+)?)?$/;
+
+/**
+ * Whether an argument names a remote location rather than a local path:
+ * a URL (https://, ssh://, rsync://), an scp-style host:path or
+ * user@host:path, or an rsync host::module.
+ */
+export function isRemoteLocation(arg: string): boolean {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(arg)) return true;
+  if (arg.startsWith("/") || arg.startsWith(".") || arg.startsWith("~")) return false;
+  const colon = arg.indexOf(":");
+  const slash = arg.indexOf("/");
+  return colon > 0 && (slash === -1 || colon < slash);
+}
+
 // ============================================================
 // Internal classifiers
 // ============================================================
 
-function classifyGitClone(tokens: string[], raw: string): ParsedCommand {
-  const flags: string[] = [];
-  let url: string | null = null;
-  let destination: string | null = null;
-
-  // Skip tokens[0]="git", tokens[1]="clone"
-  let i = 2;
-  while (i < tokens.length) {
-    const tok = tokens[i]!;
+function classifyGit(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  // Global options before the subcommand (git -C dir clone ...)
+  const global = walkArgs(tokens, start + 1, GIT_GLOBAL_VALUE_FLAGS, { stopAtPositional: true });
+  const subcommand = tokens[global.end];
 
-    if (GIT_CLONE_VALUE_FLAGS.has(tok)) {
-      // Value flag: consume the flag and its value
-      flags.push(tok);
-      i++;
-      if (i < tokens.length) {
-        flags.push(tokens[i]!);
-      }
-    } else if (tok.startsWith("-")) {
-      // Boolean flag
-      flags.push(tok);
-    } else if (url === null) {
-      // First positional argument is the URL
-      url = tok;
-    } else if (destination === null) {
-      // Second positional argument is the destination
-      destination = tok;
-    }
+  const dirFlag = global.values.filter((v) => v.flag === "-C").at(-1);
+  const withDir: ParsedCommand =
+    dirFlag === undefined ? base : { ...base, chdir: joinChdir(base.chdir, dirFlag.value) };
 
-    i++;
+  if (subcommand === "clone") {
+    return classifyGitClone(tokens, global.end + 1, withDir);
+  }
+  if (subcommand === "submodule") {
+    return classifyGitSubmodule(tokens, global.end + 1, withDir);
   }
+  if (subcommand === "fetch" || subcommand === "pull") {
+    return classifyGitFetch(tokens, global.end + 1, withDir);
+  }
+  return base;
+}
+
+/**
+ * Combine a wrapper chdir with a later relative chdir (env -C a git -C b).
+ */
+function joinChdir(outer: string | undefined, inner: string): string {
+  if (outer === undefined || isAbsolute(inner)) return inner;
+  return join(outer, inner);
+}
+
+function classifyGitClone(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, GIT_CLONE_VALUE_FLAGS);
+  const [url, dest] = walk.positionals;
 
   return {
+    ...base,
     type: "git-clone",
-    url,
-    destination,
-    flags,
-    tokens,
-    raw,
+    url: url?.value ?? null,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest ? "" : undefined,
+    flags: walk.flags,
   };
 }
 
-function classifyGhClone(tokens: string[], raw: string): ParsedCommand {
-  // tokens[0]="gh", tokens[1]="repo", tokens[2]="clone"
-  const url = tokens[3] ?? null;
-  const destination = tokens[4] ?? null;
+function classifyGitSubmodule(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  // git submodule [--quiet] add [options] <repository> [<path>]
+  const pre = walkArgs(tokens, start, new Set(), { stopAtPositional: true });
+  if (tokens[pre.end] !== "add") return base;
+
+  const walk = walkArgs(tokens, pre.end + 1, GIT_SUBMODULE_ADD_VALUE_FLAGS);
+  const [url, dest] = walk.positionals;
 
   return {
-    type: "gh-clone",
-    url,
-    destination,
-    flags: [],
-    tokens,
-    raw,
+    ...base,
+    type: "git-submodule-add",
+    url: url?.value ?? null,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest ? "" : undefined,
+    flags: walk.flags,
   };
 }
 
-function classifyCurl(tokens: string[], raw: string): ParsedCommand {
-  const flags: string[] = [];
-  let url: string | null = null;
-  let destination: string | null = null;
-  let hasOutputFlag = false;
+function classifyGitFetch(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, GIT_FETCH_VALUE_FLAGS);
+  const remote = walk.positionals[0];
 
-  // Skip tokens[0]="curl"
-  let i = 1;
-  while (i < tokens.length) {
-    const tok = tokens[i]!;
+  // Named remotes (origin, upstream) were configured deliberately;
+  // only a URL on the command line pulls in a foreign repository
+  if (!remote || !isRemoteLocation(remote.value)) {
+    return base;
+  }
 
-    if (tok === "-o" || tok === "--output") {
-      // Output flag: next token is the destination
-      hasOutputFlag = true;
-      flags.push(tok);
-      i++;
-      if (i < tokens.length) {
-        destination = tokens[i]!;
-      }
-    } else if (CURL_VALUE_FLAGS.has(tok)) {
-      // Other value flag: consume the flag and its value
-      flags.push(tok);
-      i++;
-      if (i < tokens.length) {
-        flags.push(tokens[i]!);
-      }
-    } else if (tok.startsWith("-")) {
-      // Boolean flag
-      flags.push(tok);
-    } else {
-      // Positional argument — treat as URL
-      if (url === null) {
-        url = tok;
-      }
-    }
+  return {
+    ...base,
+    type: "git-fetch",
+    url: remote.value,
+    flags: walk.flags,
+  };
+}
 
-    i++;
+function classifyGh(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const group = tokens[start + 1];
+  const action = tokens[start + 2];
+
+  if (group === "repo" && action === "clone") {
+    return classifyGhClone(tokens, start + 3, base);
+  }
+  if (group === "release" && action === "download") {
+    return classifyGhReleaseDownload(tokens, start + 3, base);
+  }
+  if (group === "pr" && action === "checkout") {
+    const walk = walkArgs(tokens, start + 3, GH_PR_CHECKOUT_VALUE_FLAGS);
+    const repo = walk.values.find((v) => v.flag === "-R" || v.flag === "--repo");
+    return {
+      ...base,
+      type: "gh-pr-checkout",
+      url: repo?.value ?? walk.positionals[0]?.value ?? null,
+      flags: walk.flags,
+    };
+  }
+  return base;
+}
+
+function classifyGhReleaseDownload(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, GH_RELEASE_DOWNLOAD_VALUE_FLAGS);
+  const output = walk.values.find((v) => v.flag === "-O" || v.flag === "--output");
+  const dir = walk.values.find((v) => v.flag === "-D" || v.flag === "--dir");
+  const repo = walk.values.find((v) => v.flag === "-R" || v.flag === "--repo");
+
+  // -O - writes to stdout = passthrough
+  if (output?.value === "-") {
+    return { ...base, url: repo?.value ?? null, flags: walk.flags };
+  }
+
+  const dest = output ?? dir;
+  return {
+    ...base,
+    type: "gh-release-download",
+    url: repo?.value ?? null,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest?.prefix,
+    optionIndex: start,
+    flags: walk.flags,
+  };
+}
+
+function classifyGhClone(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  // Arguments after `--` are passed through to git clone
+  const ddash = tokens.indexOf("--", start);
+  const ghTokens = ddash === -1 ? tokens : tokens.slice(0, ddash);
+  const walk = walkArgs(ghTokens, start, GH_CLONE_VALUE_FLAGS);
+  const [url, dest] = walk.positionals;
+
+  return {
+    ...base,
+    type: "gh-clone",
+    url: url?.value ?? null,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest ? "" : undefined,
+    flags: walk.flags,
+  };
+}
+
+function classifyCurl(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, CURL_VALUE_FLAGS);
+  const outputs = walk.values.filter((v) => v.flag === "-o" || v.flag === "--output");
+  // -o /dev/null keeps nothing; -o - is stdout
+  const kept = outputs.filter((v) => v.value !== "-" && !DISCARD_TARGETS.has(v.value));
+  const output = kept[0];
+  const url =
+    walk.positionals[0]?.value ??
+    walk.values.find((v) => v.flag === "--url")?.value ??
+    null;
+
+  // -O / --remote-name(-all): named after the URL (or, with -J, the
+  // server's Content-Disposition) inside --output-dir or the cwd
+  const remoteName = walk.switches.some(
+    (f) => f === "-O" || f === "--remote-name" || f === "--remote-name-all"
+  );
+  const dir = walk.values.find((v) => v.flag === "--output-dir");
+
+  // Several targets (-o a u1 -o b u2, or -o mixed with -O): each one is
+  // checked, none is rewritten
+  if (kept.length + (remoteName ? 1 : 0) > 1) {
+    return {
+      ...base,
+      type: "curl-download",
+      url,
+      destination: output!.value,
+      outputs: [
+        ...kept.map((v) => v.value),
+        ...(remoteName ? [dir?.value ?? "."] : []),
+      ],
+      flags: walk.flags,
+    };
   }
 
-  // curl without -o/--output is stdout = passthrough
-  if (!hasOutputFlag) {
+  if (!output && remoteName) {
     return {
-      type: "passthrough",
+      ...base,
+      type: "curl-remote-name",
       url,
-      destination: null,
-      flags,
-      tokens,
-      raw,
+      destination: dir?.value ?? null,
+      destinationIndex: dir?.index,
+      destinationPrefix: dir?.prefix,
+      optionIndex: start,
+      flags: walk.flags,
     };
   }
 
+  if (!output) {
+    // Every -o discards the content: nothing is kept
+    if (outputs.length > 0 && outputs.every((v) => v.value !== "-")) {
+      return { ...base, url, flags: walk.flags };
+    }
+    // curl without -o/--output (or -o -) writes to stdout: a download
+    // only when stdout is redirected into a file
+    return classifyStdout(tokens, start, { ...base, url, flags: walk.flags }, "curl-download");
+  }
+
   return {
+    ...base,
     type: "curl-download",
     url,
-    destination,
-    flags,
-    tokens,
-    raw,
+    destination: output.value,
+    destinationIndex: output.index,
+    destinationPrefix: output.prefix,
+    flags: walk.flags,
   };
 }
 
-function classifyWget(tokens: string[], raw: string): ParsedCommand {
-  const flags: string[] = [];
-  let url: string | null = null;
-  let destination: string | null = null;
-  let type: CommandType = "passthrough";
+function classifyWget(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, WGET_VALUE_FLAGS);
+  const url = walk.positionals[0]?.value ?? null;
+  const document = walk.values.find(
+    (v) => v.flag === "-O" || v.flag === "--output-document"
+  );
+  const prefix = walk.values.find(
+    (v) => v.flag === "-P" || v.flag === "--directory-prefix"
+  );
 
-  // Skip tokens[0]="wget"
-  let i = 1;
-  while (i < tokens.length) {
-    const tok = tokens[i]!;
+  // -O - writes to stdout: a download only when redirected into a file
+  if (document?.value === "-") {
+    return classifyStdout(tokens, start, { ...base, url, flags: walk.flags }, "wget-download");
+  }
 
-    if (tok === "-O" || tok === "--output-document") {
-      // Output file flag
-      type = "wget-download";
-      flags.push(tok);
-      i++;
-      if (i < tokens.length) {
-        destination = tokens[i]!;
-      }
-    } else if (tok === "-P" || tok === "--directory-prefix") {
-      // Directory prefix flag
-      type = "wget-dir";
-      flags.push(tok);
+  if (document) {
+    return {
+      ...base,
+      type: "wget-download",
+      url,
+      destination: document.value,
+      destinationIndex: document.index,
+      destinationPrefix: document.prefix,
+      flags: walk.flags,
+    };
+  }
+
+  // Without -O, files are saved under -P or, by default, the cwd
+  const input = walk.values.find((v) => v.flag === "-i" || v.flag === "--input-file");
+  if (prefix || url !== null || input) {
+    return {
+      ...base,
+      type: "wget-dir",
+      url: url ?? input?.value ?? null,
+      destination: prefix?.value ?? null,
+      destinationIndex: prefix?.index,
+      destinationPrefix: prefix?.prefix,
+      optionIndex: start,
+      flags: walk.flags,
+    };
+  }
+
+  return { ...base, url, flags: walk.flags };
+}
+
+/**
+ * Stdout redirections: >, >>, >|, 1>, 1>>, &>, &>>.
+ */
+const STDOUT_REDIRECT = /^(?:1?(?:>>|>\|?)|&>>?)$/;
+
+/**
+ * Redirection targets that do not keep the content.
+ */
+const DISCARD_TARGETS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr", "/dev/tty"]);
+
+/**
+ * Classify a command that writes downloaded content to stdout.
+ *
+ * If stdout is redirected into a file (`curl url > notes.md`), the
+ * redirection target is the destination; the last stdout redirection
+ * wins, as in the shell. Otherwise the command is passthrough, marked
+ * toStdout so a following `| tee file` can be recognized.
+ */
+function classifyStdout(
+  tokens: string[],
+  start: number,
+  base: ParsedCommand,
+  type: "curl-download" | "wget-download"
+): ParsedCommand {
+  let target: { value: string; index: number } | undefined;
+  for (let i = start; i < tokens.length - 1; i++) {
+    if (STDOUT_REDIRECT.test(tokens[i]!)) {
+      target = { value: tokens[i + 1]!, index: i + 1 };
+    }
+  }
+
+  if (!target || DISCARD_TARGETS.has(target.value)) {
+    return { ...base, toStdout: true };
+  }
+
+  return {
+    ...base,
+    type,
+    destination: target.value,
+    destinationIndex: target.index,
+    destinationPrefix: "",
+  };
+}
+
+/**
+ * Classify a `tee` segment that reads a download from a pipe
+ * (`curl url | tee notes.md`). The first file argument is the destination;
+ * tee without a file only copies to stdout and stays passthrough.
+ */
+export function classifyPipedWrite(segment: string, source: ParsedCommand): ParsedCommand {
+  const reader = parseCommand(segment);
+  const { start } = skipCommandPrefix(reader.tokens);
+  if (!source.toStdout || commandName(reader.tokens[start] ?? "") !== "tee") {
+    return reader;
+  }
+
+  const walk = walkArgs(reader.tokens, start + 1, new Set(["--output-error"]));
+  const files = walk.positionals.filter((p) => !DISCARD_TARGETS.has(p.value));
+  const file = files[0];
+  if (!file) return reader;
+
+  // tee a b: every file gets a copy, so each one is checked, none is rewritten
+  if (files.length > 1) {
+    return {
+      ...reader,
+      type: "tee-download",
+      url: source.url,
+      destination: file.value,
+      outputs: files.map((f) => f.value),
+      flags: walk.flags,
+    };
+  }
+
+  return {
+    ...reader,
+    type: "tee-download",
+    url: source.url,
+    destination: file.value,
+    destinationIndex: file.index,
+    destinationPrefix: "",
+    flags: walk.flags,
+  };
+}
+
+/**
+ * Shells whose -c argument is a command line of its own.
+ */
+const SHELL_COMMANDS = new Set(["sh", "bash", "zsh", "dash", "ksh", "mksh", "ash", "fish"]);
+
+/**
+ * Shell long options that take a value (bash --rcfile FILE).
+ */
+const SHELL_LONG_VALUE_FLAGS = new Set(["--rcfile", "--init-file"]);
+
+/**
+ * xargs options that take a value. -e, -i and -l take theirs only
+ * attached (-i{}), so they are not listed.
+ */
+const XARGS_VALUE_FLAGS = new Set([
+  "-a", "--arg-file", "-d", "--delimiter", "-E", "-I", "-L", "--max-lines",
+  "-n", "--max-args", "-P", "--max-procs", "-s", "--max-chars", "--process-slot-var",
+]);
+
+/**
+ * Stand-in for the arguments xargs appends from its input: a remote
+ * location, since that is what an acquisition command would be fed.
+ */
+const XARGS_INPUT = "https://xargs.invalid/input";
+
+/**
+ * The command line a segment hands to another shell: the -c argument of
+ * `bash -c '...'` (also sh, zsh, ... and clusters like -lc), the joined
+ * arguments of `eval`, or the command `xargs` runs, with XARGS_INPUT for
+ * the arguments it appends (none with -I/-i, which substitute in place).
+ * Returns null for any other segment.
+ *
+ * The body cannot be spliced back into the outer line, so callers check
+ * it and block rather than rewrite.
+ */
+export function nestedShellCommand(segment: string): string | null {
+  const words = tokenizeWords(segment);
+  const tokens = words.map((w) => w.value);
+  const { start } = skipCommandPrefix(tokens);
+  const cmd = commandName(tokens[start] ?? "");
+
+  if (cmd === "eval") {
+    const body = tokens.slice(start + 1).join(" ").trim();
+    return body === "" ? null : body;
+  }
+  if (cmd === "xargs") {
+    const walk = walkArgs(tokens, start + 1, XARGS_VALUE_FLAGS, { stopAtPositional: true });
+    if (walk.end >= tokens.length) return null;
+    const replaces =
+      walk.values.some((v) => v.flag === "-I") ||
+      walk.switches.includes("-i") ||
+      walk.switches.includes("--replace");
+    const command = words.slice(walk.end).map((w) => w.raw);
+    return (replaces ? command : [...command, XARGS_INPUT]).join(" ");
+  }
+  if (!SHELL_COMMANDS.has(cmd)) return null;
+
+  for (let i = start + 1; i < tokens.length; i++) {
+    const tok = tokens[i]!;
+    if (!/^[-+]/.test(tok) || tok === "--") return null;
+    if (SHELL_LONG_VALUE_FLAGS.has(tok)) {
       i++;
-      if (i < tokens.length) {
-        destination = tokens[i]!;
-      }
-    } else if (WGET_VALUE_FLAGS.has(tok)) {
-      // Other value flag: consume the flag and its value
-      flags.push(tok);
+      continue;
+    }
+    if (tok.startsWith("--")) continue;
+    if (tok === "-o" || tok === "+o" || tok === "-O" || tok === "+O") {
       i++;
-      if (i < tokens.length) {
-        flags.push(tokens[i]!);
-      }
-    } else if (tok.startsWith("-")) {
-      // Boolean flag
-      flags.push(tok);
-    } else {
-      // Positional argument — treat as URL
-      if (url === null) {
-        url = tok;
-      }
+      continue;
     }
+    if (tok.startsWith("-") && tok.includes("c")) return tokens[i + 1] ?? null;
+  }
+  return null;
+}
 
-    i++;
+/**
+ * scp and rsync: SOURCE... DEST. Only a copy from a remote source to a
+ * local destination acquires content; uploads and local copies pass through.
+ */
+function classifyRemoteCopy(
+  tokens: string[],
+  start: number,
+  base: ParsedCommand,
+  type: "scp-download" | "rsync-download",
+  valueFlags: Set<string>
+): ParsedCommand {
+  const walk = walkArgs(tokens, start, valueFlags);
+  const dest = walk.positionals.at(-1);
+  const remote = walk.positionals.slice(0, -1).find((p) => isRemoteLocation(p.value));
+
+  if (!dest || !remote || isRemoteLocation(dest.value)) {
+    return { ...base, flags: walk.flags };
   }
 
   return {
+    ...base,
     type,
+    url: remote.value,
+    destination: dest.value,
+    destinationIndex: dest.index,
+    destinationPrefix: "",
+    flags: walk.flags,
+  };
+}
+
+function classifySvn(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  // Options may precede the subcommand (svn --username u checkout URL)
+  const global = walkArgs(tokens, start + 1, SVN_VALUE_FLAGS, { stopAtPositional: true });
+  const subcommand = tokens[global.end];
+  if (subcommand !== "checkout" && subcommand !== "co" && subcommand !== "export") {
+    return base;
+  }
+
+  const walk = walkArgs(tokens, global.end + 1, SVN_VALUE_FLAGS);
+  const [url, dest] = walk.positionals;
+
+  return {
+    ...base,
+    type: "svn-checkout",
+    url: url?.value ?? null,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest ? "" : undefined,
+    flags: walk.flags,
+  };
+}
+
+function classifyHg(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  // Global options before the subcommand (hg --cwd dir clone ...)
+  const global = walkArgs(tokens, start + 1, HG_GLOBAL_VALUE_FLAGS, { stopAtPositional: true });
+  if (tokens[global.end] !== "clone") return base;
+
+  const cwdFlag = global.values.filter((v) => v.flag === "--cwd").at(-1);
+  const withDir: ParsedCommand =
+    cwdFlag === undefined ? base : { ...base, chdir: joinChdir(base.chdir, cwdFlag.value) };
+
+  const walk = walkArgs(tokens, global.end + 1, HG_CLONE_VALUE_FLAGS);
+  const [url, dest] = walk.positionals;
+
+  return {
+    ...withDir,
+    type: "hg-clone",
+    url: url?.value ?? null,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest ? "" : undefined,
+    flags: walk.flags,
+  };
+}
+
+/**
+ * Whether an npm package spec refers to something already on disk
+ * (a directory or a file: spec) rather than a registry or URL.
+ */
+function isLocalPackageSpec(spec: string): boolean {
+  return /^(?:\.|\/|~|file:)/.test(spec);
+}
+
+function classifyNpmPack(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, NPM_PACK_VALUE_FLAGS);
+  const remote = walk.positionals.find((p) => !isLocalPackageSpec(p.value));
+
+  // `npm pack` with no spec (or a local one) packs the current project
+  if (!remote) {
+    return { ...base, flags: walk.flags };
+  }
+
+  const dest = walk.values.find((v) => v.flag === "--pack-destination");
+  return {
+    ...base,
+    type: "npm-pack",
+    url: remote.value,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest?.prefix,
+    optionIndex: start,
+    flags: walk.flags,
+  };
+}
+
+function classifyPipDownload(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, PIP_DOWNLOAD_VALUE_FLAGS);
+  const dest = walk.values.find((v) => v.flag === "-d" || v.flag === "--dest");
+  const requirement = walk.values.find((v) => v.flag === "-r" || v.flag === "--requirement");
+
+  return {
+    ...base,
+    type: "pip-download",
+    url: walk.positionals[0]?.value ?? requirement?.value ?? null,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest?.prefix,
+    optionIndex: start,
+    flags: walk.flags,
+  };
+}
+
+function classifyHfDownload(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, HF_DOWNLOAD_VALUE_FLAGS);
+  const dest = walk.values.find((v) => v.flag === "--local-dir");
+
+  return {
+    ...base,
+    type: "hf-download",
+    url: walk.positionals[0]?.value ?? null,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest?.prefix,
+    optionIndex: start,
+    flags: walk.flags,
+  };
+}
+
+function classifyAria2c(tokens: string[], start: number, base: ParsedCommand): ParsedCommand {
+  const walk = walkArgs(tokens, start, ARIA2C_VALUE_FLAGS);
+  const input = walk.values.find((v) =>
+    ["-i", "--input-file", "-T", "--torrent-file", "-M", "--metalink-file"].includes(v.flag)
+  );
+  const url = walk.positionals[0]?.value ?? input?.value ?? null;
+
+  // Nothing to download (aria2c --version, --help)
+  if (url === null) {
+    return { ...base, flags: walk.flags };
+  }
+
+  const dest = walk.values.find((v) => v.flag === "-d" || v.flag === "--dir");
+  return {
+    ...base,
+    type: "aria2c-download",
     url,
-    destination,
-    flags,
-    tokens,
-    raw,
+    destination: dest?.value ?? null,
+    destinationIndex: dest?.index,
+    destinationPrefix: dest?.prefix,
+    optionIndex: start,
+    flags: walk.flags,
   };
 }
@@ -1,4 +1,12 @@
-import type { AuditConfig, DecodedMatch, FileFormat, FilterConfig, FilterResult, PatternMatch } from "./types";
+import type {
+  ApprovalStoreConfig,
+  AuditConfig,
+  DecodedMatch,
+  FileFormat,
+  FilterConfig,
+  FilterOptions,
+  FilterResult,
+} from "./types";
 import { loadConfig, loadConfigFromString, matchPatterns } from "./pattern-matcher";
 import { detectEncoding } from "./encoding-detector";
 import { validateSchema } from "./schema-validator";
@@ -11,6 +19,14 @@ import {
 } from "./audit";
 import { DEFAULT_CONFIG_YAML } from "./default-config";
 import { decodeEncodedMatches } from "./decoder";
+import {
+  buildCacheKey,
+  getCachedResult,
+  hashConfig,
+  setCachedResult,
+} from "./result-cache";
+import { approvalRef, findApproval } from "./approval-store";
+import { applyBaseline } from "./baseline";
 
 /**
  * Resolve filter config with priority: explicit path > env var > embedded default.
@@ -19,7 +35,7 @@ import { decodeEncodedMatches } from "./decoder";
  * 2. If PAI_CONTENT_FILTER_CONFIG env var is set, load from that path
  * 3. Fall back to embedded default config (always available, even in compiled binaries)
  */
-function resolveConfig(configPath?: string): FilterConfig {
+export function resolveConfig(configPath?: string): FilterConfig {
   // Priority 1: explicit path
   if (configPath) {
     return loadConfig(configPath);
@@ -124,7 +140,8 @@ export function filterContent(
   format?: FileFormat,
   configPath?: string,
   auditConfig?: AuditConfig,
-  auditOpts?: { sourceRepo?: string; sessionId?: string }
+  auditOpts?: { sourceRepo?: string; sessionId?: string },
+  opts?: FilterOptions
 ): FilterResult {
   const fs = require("fs") as typeof import("fs");
   const content = fs.readFileSync(filePath, "utf-8");
@@ -136,7 +153,8 @@ export function filterContent(
     fileFormat,
     configPath,
     auditConfig,
-    auditOpts
+    auditOpts,
+    opts
   );
 }
 
@@ -145,6 +163,18 @@ export function filterContent(
  *
  * Fail-closed: any error in the pipeline returns BLOCKED.
  * Use bypassFilter() to explicitly allow content that was blocked by error.
+ *
+ * When opts.cacheConfig is provided, results are cached by content hash +
+ * config hash + format. Editing the pattern config changes the hash, so
+ * stale results are never served. Fail-closed error results are not cached.
+ *
+ * When opts.approvalStore is provided, a BLOCKED or HUMAN_REVIEW decision is
+ * replaced by a remembered approval for the same content and pattern
+ * config (see rememberApproval); the result's `approval` points at the
+ * approving audit entry.
+ *
+ * When opts.baselines are provided, known review-severity findings for this
+ * file move to `baselined_matches` and no longer count (see applyBaseline).
  */
 export function filterContentString(
   content: string,
@@ -152,138 +182,202 @@ export function filterContentString(
   format: FileFormat,
   configPath?: string,
   auditConfig?: AuditConfig,
-  auditOpts?: { sourceRepo?: string; sessionId?: string }
+  auditOpts?: { sourceRepo?: string; sessionId?: string },
+  opts?: FilterOptions
 ): FilterResult {
   try {
     const config = resolveConfig(configPath);
+    const cacheConfig = opts?.cacheConfig;
+    const baselines = opts?.baselines;
 
-    // Step 1: Encoding detection
-    const encodings = detectEncoding(content, config.encoding_rules);
+    const cacheKey = cacheConfig
+      ? buildCacheKey(hashContent(content), hashConfig(config), format)
+      : null;
 
-    // Step 1a: Decode-then-match for injection/exfiltration patterns
-    const decodedMatches = runDecodeAndMatch(encodings, config);
+    let result = cacheConfig && cacheKey ? getCachedResult(cacheConfig, cacheKey, filePath) : null;
+    const cacheHit = cacheConfig ? result !== null : undefined;
 
-    // Short-circuit BLOCK if encodings found (backward compatible behavior)
-    // BUT include decoded_matches in result for better diagnostics
-    if (encodings.length > 0) {
-      const scored = scoreDetections([], encodings);
-      const overall = overallScore(scored);
-      const result: FilterResult = {
-        decision: "BLOCKED",
-        matches: [],
-        encodings,
-        decoded_matches: decodedMatches.length > 0 ? decodedMatches : undefined,
-        schema_valid: false,
-        file: filePath,
-        format,
-        scored_detections: scored,
-        overall_confidence: overall?.confidence,
-        overall_severity: overall?.severity,
-      };
-      maybeLogAudit(result, content, auditConfig, auditOpts);
-      return result;
+    if (!result) {
+      result = runPipeline(content, filePath, format, config);
+      if (cacheConfig && cacheKey) {
+        setCachedResult(cacheConfig, cacheKey, result);
+      }
     }
 
-    // Step 2: Schema validation (structured formats only)
-    let schemaValid = true;
-    if (format === "yaml" || format === "json") {
-      const schemaResult = validateSchema(content, format);
-      schemaValid = schemaResult.valid;
-      if (!schemaValid) {
-        const result: FilterResult = {
-          decision: "BLOCKED",
-          matches: [],
-          encodings: [],
-          schema_valid: false,
-          file: filePath,
-          format,
-        };
-        maybeLogAudit(result, content, auditConfig, auditOpts);
-        return result;
-      }
+    if (baselines && baselines.length > 0) {
+      result = applyBaseline(result, content, baselines);
     }
 
-    // Step 3: Pattern matching
-    const matches = matchPatterns(content, config.patterns);
+    if (opts?.approvalStore) {
+      result = applyApproval(result, content, config, opts.approvalStore, auditOpts?.sourceRepo);
+    }
+    maybeLogAudit(result, content, config, auditConfig, auditOpts, cacheHit);
+    return result;
+  } catch (e) {
+    // Fail-closed: any pipeline error returns BLOCKED
+    console.error(
+      `[content-filter] Pipeline error (fail-closed): ${e instanceof Error ? e.message : String(e)}`
+    );
+    return {
+      decision: "BLOCKED",
+      matches: [],
+      encodings: [],
+      schema_valid: false,
+      file: filePath,
+      format,
+    };
+  }
+}
 
-    // Step 4: Scoring
-    const scored = scoreDetections(matches, []);
-    const overall = overallScore(scored);
+/**
+ * Pipeline steps 1-5 against an already-resolved config. Pure: no audit,
+ * no cache. Throws on internal errors (caller fails closed).
+ */
+function runPipeline(
+  content: string,
+  filePath: string,
+  format: FileFormat,
+  config: FilterConfig
+): FilterResult {
+  // Step 1: Encoding detection
+  const encodings = detectEncoding(content, config.encoding_rules);
 
-    // Step 5: Decision logic
-    const hasBlockMatch = matches.some((m) => m.severity === "block");
+  // Step 1a: Decode-then-match for injection/exfiltration patterns
+  const decodedMatches = runDecodeAndMatch(encodings, config);
 
-    if (hasBlockMatch) {
-      const result: FilterResult = {
+  // Short-circuit BLOCK if encodings found (backward compatible behavior)
+  // BUT include decoded_matches in result for better diagnostics
+  if (encodings.length > 0) {
+    const scored = scoreDetections([], encodings);
+    const overall = overallScore(scored);
+    return {
+      decision: "BLOCKED",
+      matches: [],
+      encodings,
+      decoded_matches: decodedMatches.length > 0 ? decodedMatches : undefined,
+      schema_valid: false,
+      file: filePath,
+      format,
+      scored_detections: scored,
+      overall_confidence: overall?.confidence,
+      overall_severity: overall?.severity,
+    };
+  }
+
+  // Step 2: Schema validation (structured formats only)
+  let schemaValid = true;
+  if (format === "yaml" || format === "json") {
+    const schemaResult = validateSchema(content, format);
+    schemaValid = schemaResult.valid;
+    if (!schemaValid) {
+      return {
         decision: "BLOCKED",
-        matches,
+        matches: [],
         encodings: [],
-        schema_valid: schemaValid,
+        schema_valid: false,
         file: filePath,
         format,
-        scored_detections: scored,
-        overall_confidence: overall?.confidence,
-        overall_severity: overall?.severity,
       };
-      maybeLogAudit(result, content, auditConfig, auditOpts);
-      return result;
     }
+  }
 
-    // Free-text always requires human review, even when clean
-    if (format === "markdown" || format === "mixed") {
-      const result: FilterResult = {
-        decision: "HUMAN_REVIEW",
-        matches,
-        encodings: [],
-        schema_valid: schemaValid,
-        file: filePath,
-        format,
-        scored_detections: scored.length > 0 ? scored : undefined,
-        overall_confidence: overall?.confidence,
-        overall_severity: overall?.severity,
-      };
-      maybeLogAudit(result, content, auditConfig, auditOpts);
-      return result;
-    }
+  // Step 3: Pattern matching (allowlisted suppressions stay out of the decision)
+  const allMatches = matchPatterns(content, config.patterns, config.suppressions);
+  const matches = allMatches.filter((m) => !m.suppressed);
+  const suppressed = allMatches.filter((m) => m.suppressed);
+  const suppressedMatches = suppressed.length > 0 ? suppressed : undefined;
+
+  // Step 4: Scoring
+  const scored = scoreDetections(matches, []);
+  const overall = overallScore(scored);
 
-    // Structured format, clean
-    const result: FilterResult = {
-      decision: "ALLOWED",
+  // Step 5: Decision logic
+  const hasBlockMatch = matches.some((m) => m.severity === "block");
+
+  if (hasBlockMatch) {
+    return {
+      decision: "BLOCKED",
       matches,
+      suppressed_matches: suppressedMatches,
       encodings: [],
       schema_valid: schemaValid,
       file: filePath,
       format,
-      scored_detections: scored.length > 0 ? scored : undefined,
+      scored_detections: scored,
       overall_confidence: overall?.confidence,
       overall_severity: overall?.severity,
     };
-    maybeLogAudit(result, content, auditConfig, auditOpts);
-    return result;
-  } catch (e) {
-    // Fail-closed: any pipeline error returns BLOCKED
-    console.error(
-      `[content-filter] Pipeline error (fail-closed): ${e instanceof Error ? e.message : String(e)}`
-    );
+  }
+
+  // Free-text always requires human review, even when clean
+  if (format === "markdown" || format === "mixed") {
     return {
-      decision: "BLOCKED",
-      matches: [],
+      decision: "HUMAN_REVIEW",
+      matches,
+      suppressed_matches: suppressedMatches,
       encodings: [],
-      schema_valid: false,
+      schema_valid: schemaValid,
       file: filePath,
       format,
+      scored_detections: scored.length > 0 ? scored : undefined,
+      overall_confidence: overall?.confidence,
+      overall_severity: overall?.severity,
     };
   }
+
+  // Structured format, clean
+  return {
+    decision: "ALLOWED",
+    matches,
+    suppressed_matches: suppressedMatches,
+    encodings: [],
+    schema_valid: schemaValid,
+    file: filePath,
+    format,
+    scored_detections: scored.length > 0 ? scored : undefined,
+    overall_confidence: overall?.confidence,
+    overall_severity: overall?.severity,
+  };
+}
+
+/**
+ * Replace a BLOCKED or HUMAN_REVIEW decision with a live remembered
+ * approval for the same content, pattern config and scope. Only an
+ * OVERRIDE approval lets BLOCKED content through; a remembered review
+ * approval covers HUMAN_REVIEW only.
+ */
+function applyApproval(
+  result: FilterResult,
+  content: string,
+  config: FilterConfig,
+  store: ApprovalStoreConfig,
+  sourceRepo?: string
+): FilterResult {
+  if (result.decision !== "BLOCKED" && result.decision !== "HUMAN_REVIEW") return result;
+  const record = findApproval(store, {
+    contentHash: hashContent(content),
+    configHash: hashConfig(config),
+    format: result.format,
+    sourceRepo,
+    file: result.file,
+  });
+  if (!record || (result.decision === "BLOCKED" && record.decision !== "OVERRIDE")) return result;
+  return { ...result, decision: record.decision, approval: approvalRef(record) };
 }
 
 /**
  * Log audit entry if auditConfig is provided. Fail-open.
+ *
+ * A decision taken from a remembered approval is logged as a filter_pass
+ * carrying the approval pointer, not as a new review or override.
  */
 function maybeLogAudit(
   result: FilterResult,
   content: string,
+  config: FilterConfig,
   auditConfig?: AuditConfig,
-  opts?: { sourceRepo?: string; sessionId?: string }
+  opts?: { sourceRepo?: string; sessionId?: string },
+  cacheHit?: boolean
 ): void {
   if (!auditConfig) return;
 
@@ -292,6 +386,11 @@ function maybeLogAudit(
       contentHash: hashContent(content),
       sessionId: opts?.sessionId ?? generateSessionId(),
       sourceRepo: opts?.sourceRepo,
+      cacheHit,
+      eventTypeOverride: result.approval ? "filter_pass" : undefined,
+      approval: result.approval,
+      evidence: auditConfig.evidence,
+      configVersion: config.version,
     });
     logAuditEntry(entry, auditConfig);
   } catch {
@@ -0,0 +1,195 @@
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join, relative, sep } from "path";
+import type {
+  DirectoryScanOptions,
+  DirectoryScanResult,
+  FilterDecision,
+  FilterResult,
+  SkippedFile,
+} from "./types";
+import { detectFormat, filterContentString } from "./content-filter";
+
+/**
+ * Directories that never contain content an agent should be scanning.
+ * Applied before user-supplied exclude globs.
+ */
+export const DEFAULT_SCAN_EXCLUDES = [
+  "**/.git/**",
+  "**/node_modules/**",
+];
+
+/**
+ * Default per-file size ceiling. Larger files are reported as skipped
+ * rather than scanned — the pattern matcher truncates long lines anyway.
+ */
+const DEFAULT_MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Number of leading bytes inspected for binary detection.
+ */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Heuristic binary check: a NUL byte in the first 8KB.
+ * Same approach git uses to decide whether to diff a file as text.
+ */
+export function isBinaryContent(buffer: Uint8Array): boolean {
+  const limit = Math.min(buffer.length, BINARY_SNIFF_BYTES);
+  for (let i = 0; i < limit; i++) {
+    if (buffer[i] === 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Recursively list files under root as root-relative POSIX paths.
+ *
+ * Symlinks are not followed — a link inside a cloned repo can point
+ * anywhere on disk, and the scan must stay inside the tree it was given.
+ * Entries are sorted so reports are deterministic.
+ */
+function walk(root: string, excludes: Bun.Glob[]): string[] {
+  const files: string[] = [];
+  const stack: string[] = [root];
+
+  while (stack.length > 0) {
+    const dir = stack.pop()!;
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const abs = join(dir, entry.name);
+      const rel = relative(root, abs).split(sep).join("/");
+
+      if (entry.isDirectory()) {
+        // Prune excluded directories early ("dir/**" matches "dir/x")
+        if (excludes.some((g) => g.match(`${rel}/x`))) continue;
+        stack.push(abs);
+      } else if (entry.isFile()) {
+        files.push(rel);
+      }
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * List files under root as root-relative POSIX paths, skipping the
+ * default excludes (.git, node_modules, unless defaultExcludes is false)
+ * and any extra exclude globs. Symlinks are not followed.
+ */
+export function listFiles(
+  root: string,
+  exclude: string[] = [],
+  opts: { defaultExcludes?: boolean } = {}
+): string[] {
+  const defaults = opts.defaultExcludes === false ? [] : DEFAULT_SCAN_EXCLUDES;
+  const excludes = [...defaults, ...exclude].map((p) => new Bun.Glob(p));
+  return walk(root, excludes).filter((rel) => !excludes.some((g) => g.match(rel)));
+}
+
+/**
+ * Aggregate per-file decisions into a repo-level verdict.
+ *
+ * Any BLOCKED file blocks the repo, and so does any text file that could
+ * not be scanned (too large or unreadable): unscanned content is never
+ * assumed clean. Otherwise any HUMAN_REVIEW file puts the repo under
+ * review. Only an all-ALLOWED tree is ALLOWED.
+ */
+function aggregateDecision(files: FilterResult[], skipped: SkippedFile[]): FilterDecision {
+  if (files.some((f) => f.decision === "BLOCKED")) return "BLOCKED";
+  if (skipped.some((s) => s.reason !== "binary")) return "BLOCKED";
+  if (files.some((f) => f.decision === "HUMAN_REVIEW")) return "HUMAN_REVIEW";
+  return "ALLOWED";
+}
+
+/**
+ * Run the content filter pipeline over every text file in a directory tree.
+ *
+ * Walks root recursively, applies include/exclude globs (relative to root),
+ * skips binaries and oversized files, and runs filterContentString per file.
+ * Returns per-file results plus an aggregated repo-level decision.
+ *
+ * Throws if root is not a readable directory. Per-file read errors are
+ * recorded as skipped entries; pipeline errors are fail-closed (BLOCKED)
+ * exactly as in filterContent.
+ */
+export function filterDirectory(
+  root: string,
+  opts?: DirectoryScanOptions
+): DirectoryScanResult {
+  if (!statSync(root).isDirectory()) {
+    throw new Error(`Not a directory: ${root}`);
+  }
+
+  const includes = (opts?.include ?? []).map((p) => new Bun.Glob(p));
+  const candidates = listFiles(root, opts?.exclude).filter(
+    (rel) => includes.length === 0 || includes.some((g) => g.match(rel))
+  );
+
+  return filterFiles(
+    root,
+    candidates.map((rel) => join(root, rel)),
+    opts
+  );
+}
+
+/**
+ * Run the content filter pipeline over an explicit list of files.
+ *
+ * Same per-file handling as filterDirectory (binary and oversized files
+ * skipped, read errors recorded, pipeline errors fail-closed); root is
+ * only reported back. include/exclude options are ignored.
+ */
+export function filterFiles(
+  root: string,
+  filePaths: string[],
+  opts?: DirectoryScanOptions
+): DirectoryScanResult {
+  const maxFileBytes = opts?.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  const files: FilterResult[] = [];
+  const skipped: SkippedFile[] = [];
+
+  for (const filePath of filePaths) {
+    let buffer: Buffer;
+    try {
+      if (statSync(filePath).size > maxFileBytes) {
+        skipped.push({ file: filePath, reason: "too_large" });
+        continue;
+      }
+      buffer = readFileSync(filePath);
+    } catch {
+      skipped.push({ file: filePath, reason: "unreadable" });
+      continue;
+    }
+
+    if (isBinaryContent(buffer)) {
+      skipped.push({ file: filePath, reason: "binary" });
+      continue;
+    }
+
+    files.push(
+      filterContentString(
+        buffer.toString("utf-8"),
+        filePath,
+        detectFormat(filePath),
+        opts?.configPath,
+        opts?.auditConfig,
+        opts?.auditOpts,
+        opts
+      )
+    );
+  }
+
+  return {
+    root,
+    decision: aggregateDecision(files, skipped),
+    files,
+    skipped,
+    summary: {
+      scanned: files.length,
+      allowed: files.filter((f) => f.decision === "ALLOWED" || f.approval).length,
+      blocked: files.filter((f) => f.decision === "BLOCKED").length,
+      human_review: files.filter((f) => f.decision === "HUMAN_REVIEW").length,
+      skipped: skipped.length,
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import {
+  closeSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from "fs";
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+
+/**
+ * A lock older than this is assumed abandoned even if its owner still
+ * looks alive (PID reuse, or a lock file on a shared filesystem).
+ * Holders only keep the lock for a few file operations.
+ */
+export const STALE_LOCK_MS = 10_000;
+
+/**
+ * How long to wait for a lock before giving up. Longer than
+ * STALE_LOCK_MS so an abandoned lock is always broken first.
+ */
+export const LOCK_TIMEOUT_MS = 15_000;
+
+export interface FileLockOptions {
+  staleMs?: number;
+  timeoutMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  token: string;
+  acquired: number;
+}
+
+function readOwner(lockPath: string): { raw: string; owner: LockOwner | null } | null {
+  let raw: string;
+  try {
+    raw = readFileSync(lockPath, "utf-8");
+  } catch {
+    return null; // released in the meantime
+  }
+  try {
+    return { raw, owner: JSON.parse(raw) as LockOwner };
+  } catch {
+    return { raw, owner: null }; // torn write by a crashed owner
+  }
+}
+
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Whether a held lock is abandoned: its owner process on this host is
+ * gone, or it has been held longer than staleMs.
+ */
+function isStale(lockPath: string, owner: LockOwner | null, staleMs: number): boolean {
+  if (owner && owner.host === hostname() && !processAlive(owner.pid)) return true;
+  try {
+    return Date.now() - statSync(lockPath).mtimeMs > staleMs;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove an abandoned lock. The lock is renamed aside first and only
+ * deleted if it is still the one judged stale; a fresh lock taken by
+ * another process in between is put back.
+ */
+function breakStaleLock(lockPath: string, staleRaw: string): void {
+  const aside = `${lockPath}.${randomUUID()}.stale`;
+  try {
+    renameSync(lockPath, aside);
+  } catch {
+    return; // another waiter broke it first
+  }
+  let raw = "";
+  try {
+    raw = readFileSync(aside, "utf-8");
+  } catch {
+    // unreadable: treat as the stale lock
+  }
+  if (raw !== staleRaw) {
+    try {
+      renameSync(aside, lockPath);
+      return;
+    } catch {
+      // fall through and drop it
+    }
+  }
+  try {
+    unlinkSync(aside);
+  } catch {
+    // already gone
+  }
+}
+
+/**
+ * Take an exclusive lock by creating lockPath (O_EXCL), waiting with
+ * jittered backoff while another process holds it and breaking the lock
+ * if its holder died or held it past staleMs. Returns a release function.
+ *
+ * Throws if the lock cannot be taken within timeoutMs.
+ */
+export function acquireFileLock(lockPath: string, opts?: FileLockOptions): () => void {
+  const staleMs = opts?.staleMs ?? STALE_LOCK_MS;
+  const deadline = Date.now() + (opts?.timeoutMs ?? LOCK_TIMEOUT_MS);
+  const owner: LockOwner = {
+    pid: process.pid,
+    host: hostname(),
+    token: randomUUID(),
+    acquired: Date.now(),
+  };
+  const content = JSON.stringify(owner);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const fd = openSync(lockPath, "wx", 0o600);
+      try {
+        writeSync(fd, content);
+      } finally {
+        closeSync(fd);
+      }
+      break;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+
+    const held = readOwner(lockPath);
+    if (held && isStale(lockPath, held.owner, staleMs)) {
+      breakStaleLock(lockPath, held.raw);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`timed out waiting for lock ${lockPath}`);
+    }
+    Bun.sleepSync(Math.min(50, 2 + attempt) + Math.random() * 5);
+  }
+
+  return () => {
+    // Only remove the lock if it is still ours (it may have been broken)
+    const held = readOwner(lockPath);
+    if (held?.owner?.token === owner.token) {
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // already gone
+      }
+    }
+  };
+}
+
+/**
+ * Run fn while holding the lock at lockPath.
+ */
+export function withFileLock<T>(lockPath: string, fn: () => T, opts?: FileLockOptions): T {
+  const release = acquireFileLock(lockPath, opts);
+  try {
+    return fn();
+  } finally {
+    release();
+  }
+}
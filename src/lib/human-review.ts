@@ -1,10 +1,19 @@
-import type { AuditConfig, AuditDecision, FilterResult } from "./types";
+import type {
+  ApprovalOptions,
+  AuditConfig,
+  AuditDecision,
+  AuditQuorum,
+  FilterResult,
+} from "./types";
 import {
   createAuditEntry,
   hashContent,
   generateSessionId,
   logAuditEntry,
 } from "./audit";
+import { rememberApproval, revokeApprovals } from "./approval-store";
+import { quorumRequired, recordQuorumApproval } from "./quorum";
+import { enforceAuthorization } from "./reviewer-registry";
 
 /**
  * Override a BLOCKED filter result.
@@ -14,7 +23,18 @@ import {
  * - Approver and reason are required (non-empty strings)
  * - Creates an audit entry with event_type: "override"
  * - Returns the FilterResult with decision changed to "OVERRIDE"
- * - Overrides do NOT set precedent — same content flagged again next time
+ * - Overrides do NOT set precedent — same content flagged again next time —
+ *   unless opts.remember is set: the override is then stored as an
+ *   expiring approval for the same content and pattern config
+ * - With auditConfig.quorum, overrides of results at a listed severity
+ *   need that many distinct approvers: each call below quorum is logged
+ *   as approval_pending and returns the result still BLOCKED with
+ *   result.quorum set. Approval by opts.requestedBy or by an approver
+ *   who already approved throws.
+ * - With a reviewer registry (auditConfig.reviewers, else the installed
+ *   one; see enforceAuthorization), the approver needs the overrider role
+ *   for the result's severity and categories; otherwise the attempt is
+ *   logged as authorization_denied and this throws.
  */
 export function overrideDecision(
   result: FilterResult,
@@ -22,7 +42,13 @@ export function overrideDecision(
   approver: string,
   reason: string,
   auditConfig: AuditConfig,
-  opts?: { sourceRepo?: string; sessionId?: string }
+  opts?: {
+    sourceRepo?: string;
+    sessionId?: string;
+    remember?: ApprovalOptions;
+    /** Who asked for the override (may not approve it under a quorum) */
+    requestedBy?: string;
+  }
 ): FilterResult {
   if (result.decision !== "BLOCKED") {
     throw new Error(
@@ -41,6 +67,23 @@ export function overrideDecision(
   const contentHash = hashContent(content);
   const sessionId = opts?.sessionId ?? generateSessionId();
 
+  enforceAuthorization(result, content, approver, "override", auditConfig, {
+    sourceRepo: opts?.sourceRepo,
+    sessionId,
+    reason,
+  });
+
+  let quorum: AuditQuorum | undefined;
+  if (quorumRequired(result, auditConfig.quorum)) {
+    const vote = recordQuorumApproval(result, content, approver, reason, "override", auditConfig, {
+      sourceRepo: opts?.sourceRepo,
+      sessionId,
+      requestedBy: opts?.requestedBy,
+    });
+    if (!vote.reached) return { ...result, quorum: vote.quorum };
+    quorum = vote.quorum;
+  }
+
   const entry = createAuditEntry(result, {
     contentHash,
     sessionId,
@@ -49,9 +92,14 @@ export function overrideDecision(
     reason: reason.trim(),
     eventTypeOverride: "override",
     decisionOverride: "OVERRIDE",
+    evidence: auditConfig.evidence,
+    quorum,
   });
 
-  logAuditEntry(entry, auditConfig);
+  const line = logAuditEntry(entry, auditConfig);
+  if (opts?.remember) {
+    rememberApproval(result, content, line, opts.remember, opts.sourceRepo);
+  }
 
   return {
     ...result,
@@ -64,6 +112,15 @@ export function overrideDecision(
  *
  * Valid decisions: HUMAN_APPROVED, HUMAN_REJECTED
  * Creates an audit entry recording the reviewer and their decision.
+ *
+ * With opts.remember, an approval is stored so the same content is not
+ * reviewed again until it expires; a rejection revokes any approvals
+ * stored for the content. Approving BLOCKED content with opts.remember
+ * throws: blocks are lifted through overrideDecision, never by a review.
+ *
+ * With a reviewer registry (see enforceAuthorization), the reviewer needs
+ * the reviewer role, and approvals must fall within its grants; refusals
+ * are logged as authorization_denied and throw.
  */
 export function submitReview(
   result: FilterResult,
@@ -71,7 +128,7 @@ export function submitReview(
   reviewer: string,
   decision: "HUMAN_APPROVED" | "HUMAN_REJECTED",
   auditConfig: AuditConfig,
-  opts?: { sourceRepo?: string; sessionId?: string }
+  opts?: { sourceRepo?: string; sessionId?: string; remember?: ApprovalOptions }
 ): FilterResult {
   if (!reviewer || reviewer.trim() === "") {
     throw new Error("Review requires a non-empty reviewer");
@@ -84,12 +141,24 @@ export function submitReview(
     );
   }
 
+  if (opts?.remember && decision === "HUMAN_APPROVED" && result.decision === "BLOCKED") {
+    throw new Error(
+      "Cannot remember a review approval for BLOCKED content. Use overrideDecision instead"
+    );
+  }
+
   const contentHash = hashContent(content);
   const sessionId = opts?.sessionId ?? generateSessionId();
 
   const eventType =
     decision === "HUMAN_APPROVED" ? "human_approve" : "human_reject";
 
+  enforceAuthorization(result, content, reviewer, "review", auditConfig, {
+    sourceRepo: opts?.sourceRepo,
+    sessionId,
+    approve: decision === "HUMAN_APPROVED",
+  });
+
   const entry = createAuditEntry(result, {
     contentHash,
     sessionId,
@@ -97,9 +166,17 @@ export function submitReview(
     approver: reviewer.trim(),
     eventTypeOverride: eventType,
     decisionOverride: decision,
+    evidence: auditConfig.evidence,
   });
 
-  logAuditEntry(entry, auditConfig);
+  const line = logAuditEntry(entry, auditConfig);
+  if (opts?.remember) {
+    if (decision === "HUMAN_APPROVED") {
+      rememberApproval(result, content, line, opts.remember, opts.sourceRepo);
+    } else {
+      revokeApprovals(opts.remember.store, contentHash);
+    }
+  }
 
   return {
     ...result,
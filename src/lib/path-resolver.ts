@@ -0,0 +1,159 @@
+import { lstatSync, readlinkSync, realpathSync } from "node:fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+
+/**
+ * Maximum symlinks followed while canonicalizing one path (Linux ELOOP limit).
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Expand a leading `~` and `$VAR` / `${VAR}` references.
+ *
+ * Returns null when the path cannot be known statically: an unset
+ * variable, `~user`, command substitution, or a glob. Callers treat
+ * null as "outside the sandbox".
+ */
+export function expandPath(
+  path: string,
+  env: Record<string, string | undefined> = process.env
+): string | null {
+  if (/[`*?]|\$\(/.test(path)) return null;
+
+  let expanded = path;
+  if (expanded === "~" || expanded.startsWith("~/")) {
+    const home = env.HOME;
+    if (!home) return null;
+    expanded = home + expanded.slice(1);
+  } else if (expanded.startsWith("~")) {
+    return null;
+  }
+
+  let unresolved = false;
+  expanded = expanded.replace(
+    /\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*))/g,
+    (_, braced: string | undefined, bare: string | undefined) => {
+      const value = env[(braced ?? bare)!];
+      if (value === undefined) unresolved = true;
+      return value ?? "";
+    }
+  );
+  if (unresolved || expanded.includes("$")) return null;
+
+  return expanded;
+}
+
+/**
+ * Canonical absolute form of a path: expanded, resolved against cwd,
+ * and with symlinks followed.
+ *
+ * The path need not exist (a clone destination usually does not yet):
+ * the longest existing prefix is resolved with realpath and the rest is
+ * appended. Dangling symlinks are followed by hand, so a link that points
+ * out of the sandbox is judged by its target, not its location.
+ *
+ * With `literal`, the path is taken as-is, without ~ / $VAR expansion
+ * and with glob characters allowed: tool inputs such as Read's file_path
+ * name a file directly, and `notes?.md` or `$x.md` are valid file names.
+ *
+ * Returns null when the path cannot be resolved (see expandPath, or a
+ * relative path with an unknown cwd).
+ */
+export function canonicalizePath(
+  path: string,
+  cwd: string | null = null,
+  opts: { literal?: boolean } = {}
+): string | null {
+  const expanded = opts.literal ? path : expandPath(path);
+  if (expanded === null || expanded === "") return null;
+
+  let absolute: string;
+  if (isAbsolute(expanded)) {
+    absolute = resolve(expanded);
+  } else {
+    const base = cwd === null ? null : canonicalizePath(cwd, null, opts);
+    if (base === null) return null;
+    absolute = resolve(base, expanded);
+  }
+
+  return realpathPartial(absolute, 0);
+}
+
+function realpathPartial(absolute: string, depth: number): string {
+  const rest: string[] = [];
+  let existing = absolute;
+
+  while (true) {
+    try {
+      return join(realpathSync(existing), ...rest);
+    } catch {
+      // Missing, or a dangling symlink — handled below
+    }
+
+    try {
+      if (depth < MAX_SYMLINK_DEPTH && lstatSync(existing).isSymbolicLink()) {
+        const target = resolve(dirname(existing), readlinkSync(existing));
+        return realpathPartial(join(target, ...rest), depth + 1);
+      }
+    } catch {
+      // Does not exist at all — walk up
+    }
+
+    const parent = dirname(existing);
+    if (parent === existing) return absolute;
+    rest.unshift(basename(existing));
+    existing = parent;
+  }
+}
+
+/**
+ * Whether child is dir itself or below it, compared on path-segment
+ * boundaries ("/work/sandbox-evil" is not inside "/work/sandbox").
+ * Both paths must already be absolute and normalized.
+ */
+export function isPathWithin(child: string, dir: string): boolean {
+  const rel = relative(dir, child);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * Repo a sandbox file belongs to: its first directory below the sandbox
+ * (repos are cloned to <sandbox>/<repo>). Null for paths outside the
+ * sandbox and for files directly in it. Both paths must be canonical.
+ */
+export function sandboxRepoName(path: string, sandboxDir: string): string | null {
+  if (!isPathWithin(path, sandboxDir)) return null;
+  const segments = relative(sandboxDir, path).split(sep);
+  return segments.length > 1 ? segments[0]! : null;
+}
+
+/**
+ * Whether a path (absolute, relative to cwd, or using ~ / $VAR) resolves
+ * to a location inside the sandbox. Both sides are canonicalized, so
+ * symlinks into the sandbox count as inside and symlinks out of it do not.
+ * A path that cannot be resolved is treated as outside.
+ */
+export function isInSandbox(
+  path: string,
+  sandboxDir: string,
+  cwd: string | null = null
+): boolean {
+  const target = canonicalizePath(path, cwd);
+  const sandbox = canonicalizePath(sandboxDir);
+  if (target === null || sandbox === null) return false;
+  return isPathWithin(target, sandbox);
+}
+
+/**
+ * Read the sandbox directory from the environment, canonicalized.
+ *
+ * CONTENT_FILTER_SANDBOX_DIR, falling back to the deprecated
+ * CONTENT_FILTER_SHARED_DIR. Returns null when neither is set or the
+ * value cannot be resolved.
+ */
+export function resolveSandboxDir(): string | null {
+  const raw =
+    process.env.CONTENT_FILTER_SANDBOX_DIR ??
+    process.env.CONTENT_FILTER_SHARED_DIR;
+  if (!raw) return null;
+  return canonicalizePath(raw, process.cwd());
+}
@@ -2,8 +2,10 @@ import {
   type FilterPattern,
   type PatternMatch,
   type FilterConfig,
+  type Suppression,
   FilterConfigSchema,
 } from "./types";
+import { applySuppressions } from "./suppressions";
 
 /**
  * Minimal YAML parser for our specific config format.
@@ -311,10 +313,15 @@ const REGEX_TIMEOUT_MS = 500;
  *
  * ReDoS protection: lines are truncated at MAX_LINE_LENGTH and
  * regex execution is time-bounded per pattern per line.
+ *
+ * Matches covered by an inline `content-filter-ignore` directive whose
+ * hash is in the suppressions allowlist are returned flagged as
+ * suppressed (see suppressions.ts).
  */
 export function matchPatterns(
   content: string,
-  patterns: FilterPattern[]
+  patterns: FilterPattern[],
+  suppressions: Suppression[] = []
 ): PatternMatch[] {
   const matches: PatternMatch[] = [];
   const lines = content.split("\n");
@@ -370,7 +377,7 @@ export function matchPatterns(
     }
   }
 
-  return matches;
+  return applySuppressions(content, matches, suppressions);
 }
 
 /**
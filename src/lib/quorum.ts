@@ -0,0 +1,145 @@
+import {
+  createAuditEntry,
+  generateSessionId,
+  hashContent,
+  logAuditEntry,
+  streamAuditLog,
+} from "./audit";
+import { reviewSeverity } from "./review-policy";
+import type {
+  AuditConfig,
+  AuditQuorum,
+  FilterResult,
+  QuorumAction,
+  QuorumPolicy,
+} from "./types";
+
+export const DEFAULT_QUORUM_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve the two-person rule used by hooks and the CLI.
+ *
+ * Off unless CONTENT_FILTER_QUORUM is 2 or more: that many distinct
+ * approvers must agree before a CRITICAL block is overridden or bypassed.
+ * CONTENT_FILTER_QUORUM_WINDOW_HOURS bounds how long a pending approval
+ * waits for the others (default 24 hours).
+ */
+export function resolveQuorumPolicy(): QuorumPolicy | undefined {
+  const required = parseInt(process.env.CONTENT_FILTER_QUORUM ?? "", 10);
+  if (!(required >= 2)) return undefined;
+  const hours = parseFloat(process.env.CONTENT_FILTER_QUORUM_WINDOW_HOURS ?? "");
+  return {
+    required,
+    severities: ["CRITICAL"],
+    windowMs: hours > 0 ? hours * 60 * 60 * 1000 : DEFAULT_QUORUM_WINDOW_MS,
+  };
+}
+
+/**
+ * Whether an override, bypass or bypass grant for this result needs a quorum.
+ */
+export function quorumRequired(result: FilterResult, policy?: QuorumPolicy): boolean {
+  if (!policy || policy.required < 2) return false;
+  const severity = reviewSeverity(result);
+  return severity !== "NONE" && policy.severities.includes(severity);
+}
+
+/**
+ * Identities are compared trimmed and case-insensitively, so "Alice" and
+ * " alice" count as one approver.
+ */
+function sameIdentity(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Pending approvals for an action on content, oldest first.
+ *
+ * Walks the audit trail back to the last completed override, bypass,
+ * issued grant or rejection of the same content (which starts a new
+ * round) or the start of the policy window, whichever comes first.
+ */
+export function pendingApprovals(
+  config: AuditConfig,
+  contentHash: string,
+  action: QuorumAction,
+  now: Date = new Date()
+): { approvers: string[]; requestedBy?: string } {
+  const windowMs = config.quorum?.windowMs ?? DEFAULT_QUORUM_WINDOW_MS;
+  const since = new Date(now.getTime() - windowMs).toISOString();
+  const approvers: string[] = [];
+  let requestedBy: string | undefined;
+
+  // Newest first: stop at the entry that closed the previous round
+  for (const entry of streamAuditLog(config, { contentHash, since })) {
+    if (
+      entry.event_type === "override" ||
+      entry.event_type === "content_filter_bypass" ||
+      entry.event_type === "grant_issued" ||
+      entry.event_type === "human_reject"
+    ) {
+      break;
+    }
+    if (entry.event_type !== "approval_pending" || entry.quorum?.action !== action) continue;
+    if (entry.approver) approvers.unshift(entry.approver);
+    requestedBy = entry.quorum.requested_by ?? requestedBy;
+  }
+
+  return { approvers, requestedBy };
+}
+
+/**
+ * Count one approval towards a quorum-gated override, bypass or grant.
+ *
+ * Throws when the approver requested the action (self-approval) or has
+ * already approved it in this round. Below quorum, the approval is
+ * written to the audit trail as approval_pending and reached is false;
+ * at quorum nothing is written here, and the caller logs the final
+ * override, bypass or grant with the returned approvers.
+ */
+export function recordQuorumApproval(
+  result: FilterResult,
+  content: string,
+  approver: string,
+  reason: string,
+  action: QuorumAction,
+  auditConfig: AuditConfig,
+  opts?: { sourceRepo?: string; sessionId?: string; requestedBy?: string }
+): { reached: boolean; quorum: AuditQuorum } {
+  const policy = auditConfig.quorum!;
+  const contentHash = hashContent(content);
+  const prior = pendingApprovals(auditConfig, contentHash, action);
+  const requestedBy = prior.requestedBy ?? opts?.requestedBy?.trim();
+
+  if (requestedBy && sameIdentity(approver, requestedBy)) {
+    throw new Error(`Self-approval rejected: ${approver.trim()} requested this ${action}`);
+  }
+  if (prior.approvers.some((a) => sameIdentity(a, approver))) {
+    throw new Error(`Duplicate approval rejected: ${approver.trim()} already approved this ${action}`);
+  }
+
+  const quorum: AuditQuorum = {
+    action,
+    required: policy.required,
+    approvers: [...prior.approvers, approver.trim()],
+    requested_by: requestedBy,
+  };
+  if (quorum.approvers.length >= policy.required) {
+    return { reached: true, quorum };
+  }
+
+  const entry = createAuditEntry(result, {
+    contentHash,
+    sessionId: opts?.sessionId ?? generateSessionId(),
+    sourceRepo: opts?.sourceRepo,
+    approver: approver.trim(),
+    reason: reason.trim(),
+    eventTypeOverride: "approval_pending",
+    decisionOverride: result.decision,
+    evidence: auditConfig.evidence,
+    quorum,
+  });
+  logAuditEntry(entry, auditConfig);
+
+  return { reached: false, quorum };
+}
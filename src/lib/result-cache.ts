@@ -0,0 +1,208 @@
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { DEFAULT_REDACTED_PATTERNS, maskText } from "./audit-evidence";
+import {
+  currentSigningKey,
+  loadSigningKey,
+  signPayload,
+  verifyPayload,
+  DEFAULT_KEY_DIR,
+} from "./audit-keys";
+import type {
+  FileFormat,
+  FilterConfig,
+  FilterResult,
+  PatternMatch,
+  ResultCacheConfig,
+} from "./types";
+
+/**
+ * Default on-disk cache location, next to the default audit directory.
+ */
+export const DEFAULT_CACHE_DIR = join(homedir(), ".config", "content-filter", "cache");
+
+/**
+ * Resolve the cache config shared by the hook and the CLI.
+ *
+ * 1. CONTENT_FILTER_CACHE=off disables caching entirely
+ * 2. CONTENT_FILTER_CACHE_DIR overrides the cache location
+ * 3. Fall back to ~/.config/content-filter/cache
+ *
+ * Entries are signed with the audit signing key from
+ * CONTENT_FILTER_KEY_DIR (default ~/.config/content-filter/keys).
+ *
+ * The library never caches unless a ResultCacheConfig is passed explicitly.
+ */
+export function resolveCacheConfig(): ResultCacheConfig | undefined {
+  if (process.env.CONTENT_FILTER_CACHE === "off") return undefined;
+  return {
+    cacheDir: process.env.CONTENT_FILTER_CACHE_DIR ?? DEFAULT_CACHE_DIR,
+    keyDir: process.env.CONTENT_FILTER_KEY_DIR ?? DEFAULT_KEY_DIR,
+  };
+}
+
+/**
+ * SHA-256 of the effective filter config.
+ *
+ * Hashes the parsed config (version, patterns, encoding rules) so any
+ * edit to filter-patterns.yaml produces a new hash and therefore new
+ * cache keys — stale entries are simply never looked up again.
+ */
+export function hashConfig(config: FilterConfig): string {
+  return createHash("sha256").update(JSON.stringify(config)).digest("hex");
+}
+
+/**
+ * Build the cache key for a piece of content.
+ *
+ * The format is part of the key because the same bytes are treated
+ * differently as YAML (schema validation) and as markdown (HUMAN_REVIEW).
+ */
+export function buildCacheKey(
+  contentHash: string,
+  configHash: string,
+  format: FileFormat
+): string {
+  return createHash("sha256")
+    .update(`${contentHash}:${configHash}:${format}`)
+    .digest("hex");
+}
+
+function entryPath(config: ResultCacheConfig, key: string): string {
+  return join(config.cacheDir, key.slice(0, 2), `${key}.json`);
+}
+
+/**
+ * A cache file: the serialized result and its HMAC, which also covers
+ * the cache key so an entry cannot be copied to another key.
+ */
+interface CacheEntry {
+  key_id: string;
+  signature: string;
+  result: string;
+}
+
+function signedText(key: string, result: string): string {
+  return `${key}\n${result}`;
+}
+
+/**
+ * The result as cached: the matched text of PII patterns (see
+ * DEFAULT_REDACTED_PATTERNS) is masked, and so is the encoded string a
+ * PII match was decoded from, as in the audit log's evidence.
+ */
+function redactResult(result: FilterResult): FilterResult {
+  const redacted = (m: PatternMatch) => DEFAULT_REDACTED_PATTERNS.includes(m.pattern_id);
+  const mask = <T extends PatternMatch>(m: T): T =>
+    redacted(m) ? { ...m, matched_text: maskText(m.matched_text) } : m;
+
+  const decoded = (result.decoded_matches ?? []).filter(redacted);
+  const encodedSecret = (line: number, column: number) =>
+    decoded.some((d) => d.encoded_line === line && d.encoded_column === column);
+
+  return {
+    ...result,
+    matches: result.matches.map(mask),
+    encodings: result.encodings.map((e) =>
+      encodedSecret(e.line, e.column)
+        ? {
+            ...e,
+            matched_text: maskText(e.matched_text),
+            full_text: e.full_text === undefined ? undefined : maskText(e.full_text),
+          }
+        : e
+    ),
+    decoded_matches: result.decoded_matches?.map((d) =>
+      redacted(d) ? { ...mask(d), encoded_original: maskText(d.encoded_original) } : d
+    ),
+    suppressed_matches: result.suppressed_matches?.map(mask),
+  };
+}
+
+/**
+ * Look up a cached FilterResult.
+ *
+ * Returns null on miss or on any read/parse error (a broken cache entry
+ * is treated as a miss, never as a decision). An entry whose signature
+ * does not verify against a key in config.keyDir is a miss too, so a
+ * forged entry is rescanned rather than trusted. The returned result
+ * carries the caller's filePath, since identical content may live at
+ * many paths.
+ */
+export function getCachedResult(
+  config: ResultCacheConfig,
+  key: string,
+  filePath: string
+): FilterResult | null {
+  try {
+    const path = entryPath(config, key);
+    if (!existsSync(path)) return null;
+    const entry = JSON.parse(readFileSync(path, "utf-8")) as CacheEntry;
+    if (typeof entry.result !== "string" || typeof entry.signature !== "string") {
+      return null;
+    }
+    const signingKey = loadSigningKey(config.keyDir, entry.key_id);
+    if (!signingKey || !verifyPayload(signedText(key, entry.result), entry.signature, signingKey)) {
+      return null;
+    }
+    const cached = JSON.parse(entry.result) as FilterResult;
+    if (typeof cached.decision !== "string" || !Array.isArray(cached.matches)) {
+      return null;
+    }
+    return { ...cached, file: filePath };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a FilterResult in the cache.
+ *
+ * PII matches are masked first (see redactResult) and the entry is
+ * signed with the current key in config.keyDir (generated on first
+ * use). Directories are created 0700 and entries 0600. Written to a
+ * temp file and renamed into place so concurrent hook processes never
+ * read a half-written entry. Fail-open: write errors are swallowed —
+ * the cache is an optimization, not a control.
+ */
+export function setCachedResult(
+  config: ResultCacheConfig,
+  key: string,
+  result: FilterResult
+): void {
+  try {
+    const path = entryPath(config, key);
+    const dir = join(path, "..");
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    const signingKey = currentSigningKey(config.keyDir);
+    const serialized = JSON.stringify(redactResult(result));
+    const entry: CacheEntry = {
+      key_id: signingKey.id,
+      signature: signPayload(signedText(key, serialized), signingKey),
+      result: serialized,
+    };
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(entry), { mode: 0o600 });
+    renameSync(tmpPath, path);
+  } catch {
+    // Fail-open: cache write failure does not affect the decision
+  }
+}
+
+/**
+ * Remove every cached result.
+ */
+export function clearResultCache(config: ResultCacheConfig): void {
+  rmSync(config.cacheDir, { recursive: true, force: true });
+}
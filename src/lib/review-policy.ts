@@ -0,0 +1,135 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import {
+  type FilterResult,
+  type HookOutput,
+  type ReviewAction,
+  type ReviewPolicy,
+  type ReviewSeverity,
+  ReviewPolicySchema,
+} from "./types";
+import { parseSimpleYaml } from "./pattern-matcher";
+
+/**
+ * Default policy file location, next to the audit and cache directories.
+ */
+export const DEFAULT_REVIEW_POLICY_PATH = join(
+  homedir(),
+  ".config",
+  "content-filter",
+  "review-policy.yaml"
+);
+
+/**
+ * Policy used when no policy file exists: every HUMAN_REVIEW asks.
+ */
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = { default: "ask", rules: [] };
+
+/**
+ * Parse and validate a review policy from a YAML string.
+ *
+ * ```yaml
+ * default: ask
+ * rules:
+ *   - format: markdown
+ *     severity: NONE
+ *     action: allow
+ * ```
+ *
+ * Throws on an invalid format, severity or action.
+ */
+export function loadReviewPolicyFromString(text: string): ReviewPolicy {
+  return ReviewPolicySchema.parse(parseSimpleYaml(text));
+}
+
+/**
+ * Load and validate a review policy from a YAML file.
+ */
+export function loadReviewPolicy(policyPath: string): ReviewPolicy {
+  return loadReviewPolicyFromString(readFileSync(policyPath, "utf-8"));
+}
+
+/**
+ * Resolve the review policy used by the ContentFilter hook.
+ *
+ * 1. CONTENT_FILTER_REVIEW_POLICY names a policy file (must exist)
+ * 2. ~/.config/content-filter/review-policy.yaml if present
+ * 3. DEFAULT_REVIEW_POLICY (ask for every HUMAN_REVIEW)
+ *
+ * An unreadable or invalid policy file throws, so the hook fails closed.
+ */
+export function resolveReviewPolicy(): ReviewPolicy {
+  const envPath = process.env.CONTENT_FILTER_REVIEW_POLICY;
+  if (envPath) return loadReviewPolicy(envPath);
+  if (existsSync(DEFAULT_REVIEW_POLICY_PATH)) {
+    return loadReviewPolicy(DEFAULT_REVIEW_POLICY_PATH);
+  }
+  return DEFAULT_REVIEW_POLICY;
+}
+
+/**
+ * Severity a policy rule is matched against: the overall severity tier,
+ * or NONE when nothing was detected (e.g. clean markdown).
+ */
+export function reviewSeverity(result: FilterResult): ReviewSeverity {
+  return result.overall_severity ?? "NONE";
+}
+
+/**
+ * Decide how a HUMAN_REVIEW result is surfaced to the agent.
+ *
+ * Rules are evaluated in order; a rule matches when its format and
+ * severity (each optional) equal the result's. The first match wins,
+ * otherwise the policy default applies. Other decisions never ask.
+ */
+export function reviewAction(result: FilterResult, policy: ReviewPolicy): ReviewAction {
+  if (result.decision !== "HUMAN_REVIEW") return "allow";
+
+  const severity = reviewSeverity(result);
+  const rule = policy.rules.find(
+    (r) =>
+      (r.format === undefined || r.format === result.format) &&
+      (r.severity === undefined || r.severity === severity)
+  );
+  return rule?.action ?? policy.default;
+}
+
+/**
+ * One-line summary of why a result needs review: severity tier and
+ * each matched pattern ID with the lines it matched on.
+ *
+ * e.g. "severity MEDIUM; patterns: PI-010 (line 3), PII-001 (lines 7, 9)"
+ */
+export function reviewSummary(result: FilterResult): string {
+  const lines = new Map<string, number[]>();
+  for (const m of result.matches) {
+    const seen = lines.get(m.pattern_id) ?? [];
+    if (!seen.includes(m.line)) seen.push(m.line);
+    lines.set(m.pattern_id, seen);
+  }
+
+  const parts = [`severity ${reviewSeverity(result)}`];
+  if (lines.size > 0) {
+    const patterns = [...lines].map(
+      ([id, ls]) => `${id} (${ls.length === 1 ? "line" : "lines"} ${ls.join(", ")})`
+    );
+    parts.push(`patterns: ${patterns.join(", ")}`);
+  } else {
+    parts.push("no pattern matches (free-text always requires review)");
+  }
+  return parts.join("; ");
+}
+
+/**
+ * Build the PreToolUse "ask" output that hands the decision to the user.
+ */
+export function buildAskOutput(reason: string): HookOutput {
+  return {
+    hookSpecificOutput: {
+      hookEventName: "PreToolUse" as const,
+      permissionDecision: "ask" as const,
+      permissionDecisionReason: reason,
+    },
+  };
+}
@@ -0,0 +1,371 @@
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import { hashContent, streamAuditLog } from "./audit";
+import { detectFormat, filterContentString } from "./content-filter";
+import { decodeEncodedMatches } from "./decoder";
+import { overrideDecision, submitReview } from "./human-review";
+import { reviewSeverity } from "./review-policy";
+import { FileFormat } from "./types";
+import type {
+  ApprovalOptions,
+  ApprovalStoreConfig,
+  AuditConfig,
+  AuditQuery,
+  FilterResult,
+  ReviewQueueItem,
+  ReviewSessionSummary,
+} from "./types";
+
+/**
+ * Event types that settle a pending HUMAN_REVIEW for the same content.
+ */
+export const RESOLVING_EVENTS = new Set([
+  "human_approve",
+  "human_reject",
+  "override",
+  "content_filter_bypass",
+]);
+
+// ============================================================
+// Queue
+// ============================================================
+
+/**
+ * Whether an audit entry is for a tool result rather than a file. Tool
+ * results are logged with their source (URL, search query or tool name)
+ * as both source_file and source_repo (see filterToolResult); they
+ * cannot be re-read, so a review can only skip them.
+ */
+function isToolResultEntry(entry: { source_file: string; source_repo: string }): boolean {
+  return entry.source_file === entry.source_repo || /^[a-z][a-z0-9+.-]+:/i.test(entry.source_file);
+}
+
+/**
+ * Pending review items from the audit trail, oldest first.
+ *
+ * An item is a content hash whose newest human_review entry (or
+ * filter_block entry, with includeBlocked) has no later approve, reject,
+ * override or bypass. Repeated entries for the same content are folded
+ * into one item with an occurrence count. Tool results (fetched URLs,
+ * searches) are left out unless includeToolResults is set.
+ *
+ * The entries come from every audited filter run: the ContentFilter
+ * hook, `check` and `scan` log through resolveAuditConfig, as does the
+ * ToolResultFilter hook.
+ */
+export function listReviewQueue(
+  config: AuditConfig,
+  opts?: { includeBlocked?: boolean; includeToolResults?: boolean; query?: AuditQuery }
+): ReviewQueueItem[] {
+  const resolved = new Set<string>();
+  const pending = new Map<string, ReviewQueueItem>();
+
+  // Newest first: a resolution seen earlier in the walk came later in time
+  for (const entry of streamAuditLog(config, opts?.query)) {
+    if (RESOLVING_EVENTS.has(entry.event_type)) {
+      resolved.add(entry.content_hash);
+      continue;
+    }
+    const queued =
+      entry.event_type === "human_review" ||
+      (opts?.includeBlocked === true && entry.event_type === "filter_block");
+    if (!queued || resolved.has(entry.content_hash)) continue;
+    if (opts?.includeToolResults !== true && isToolResultEntry(entry)) continue;
+
+    const item = pending.get(entry.content_hash);
+    if (item) {
+      item.occurrences++;
+      item.first_seen = entry.timestamp;
+    } else {
+      pending.set(entry.content_hash, {
+        content_hash: entry.content_hash,
+        source_repo: entry.source_repo,
+        source_file: entry.source_file,
+        matched_patterns: [...new Set(entry.matched_patterns)],
+        first_seen: entry.timestamp,
+        last_seen: entry.timestamp,
+        occurrences: 1,
+        event_type: entry.event_type as ReviewQueueItem["event_type"],
+        format: entry.format,
+      });
+    }
+  }
+
+  return [...pending.values()].sort((a, b) => a.first_seen.localeCompare(b.first_seen));
+}
+
+// ============================================================
+// Item loading and display
+// ============================================================
+
+export interface ReviewContext {
+  item: ReviewQueueItem;
+  /** Current file content, or null when it cannot be read */
+  content: string | null;
+  /** Fresh filter result for content (null without content) */
+  result: FilterResult | null;
+  /** Why the item cannot be decided (file gone, or changed since queued) */
+  unavailable?: string;
+}
+
+/**
+ * Re-read a queued file and filter it again for display.
+ *
+ * The content must still hash to the queued content_hash; a decision is
+ * only ever recorded for the exact bytes that were queued. Tool results
+ * (URLs) and deleted files are unavailable.
+ */
+export function loadReviewItem(item: ReviewQueueItem, configPath?: string): ReviewContext {
+  const path = resolve(item.source_file);
+  if (!existsSync(path)) {
+    return { item, content: null, result: null, unavailable: "source is not a readable file" };
+  }
+  let content: string;
+  try {
+    content = readFileSync(path, "utf-8");
+  } catch (e) {
+    return {
+      item,
+      content: null,
+      result: null,
+      unavailable: e instanceof Error ? e.message : String(e),
+    };
+  }
+  if (hashContent(content) !== item.content_hash) {
+    return {
+      item,
+      content: null,
+      result: null,
+      unavailable: "file changed since it was queued; re-check it to queue the new content",
+    };
+  }
+  const format = FileFormat.safeParse(item.format);
+  const result = filterContentString(
+    content,
+    item.source_file,
+    format.success ? format.data : detectFormat(path),
+    configPath
+  );
+  return { item, content, result };
+}
+
+const CONTEXT_LINES = 2;
+
+function highlight(text: string, color: boolean): string {
+  return color ? `\x1b[7m${text}\x1b[27m` : text;
+}
+
+/**
+ * Render a review item: queue metadata, the matched lines with a little
+ * context and each match underlined, and every encoded payload decoded.
+ */
+export function formatReviewItem(
+  ctx: ReviewContext,
+  opts: { index: number; total: number; color?: boolean }
+): string {
+  const { item, content, result } = ctx;
+  const color = opts.color ?? false;
+  const out: string[] = [
+    `[${opts.index}/${opts.total}] ${item.event_type === "filter_block" ? "BLOCKED" : "HUMAN_REVIEW"}  ${item.source_file}`,
+  ];
+  if (item.source_repo) out.push(`  repo: ${item.source_repo}`);
+  out.push(
+    `  queued: ${item.first_seen}` +
+      (item.occurrences > 1 ? ` (${item.occurrences} times, last ${item.last_seen})` : "")
+  );
+  if (item.matched_patterns.length > 0) {
+    out.push(`  patterns: ${item.matched_patterns.join(", ")}`);
+  }
+
+  if (!content || !result) {
+    out.push(`  unavailable: ${ctx.unavailable}`);
+    return out.join("\n");
+  }
+
+  const confidence =
+    result.overall_confidence !== undefined
+      ? `, confidence ${result.overall_confidence.toFixed(2)}`
+      : "";
+  out.push(`  now: ${result.decision} (severity ${reviewSeverity(result)}${confidence})`);
+
+  const lines = content.replace(/\n$/, "").split("\n");
+  const matchedLines = [...new Set(result.matches.map((m) => m.line))].sort((a, b) => a - b);
+  if (matchedLines.length > 0) {
+    out.push("");
+    const width = String(lines.length).length;
+    let shownUntil = 0;
+    for (const line of matchedLines) {
+      const from = Math.max(shownUntil + 1, line - CONTEXT_LINES);
+      const to = Math.min(lines.length, line + CONTEXT_LINES);
+      if (shownUntil > 0 && from > shownUntil + 1) out.push("  ...");
+      for (let n = from; n <= to; n++) {
+        const matches = result.matches.filter((m) => m.line === n);
+        let text = lines[n - 1] ?? "";
+        if (matches.length > 0 && color) {
+          // Highlight right to left so earlier columns stay valid
+          for (const m of [...matches].sort((a, b) => b.column - a.column)) {
+            const start = m.column - 1;
+            const end = start + m.matched_text.length;
+            text = text.slice(0, start) + highlight(text.slice(start, end), true) + text.slice(end);
+          }
+        }
+        out.push(`${matches.length > 0 ? ">" : " "} ${String(n).padStart(width)}  ${text}`);
+        for (const m of matches) {
+          const pad = " ".repeat(width + 4 + m.column - 1);
+          const note = m.placeholder_skipped ? " (placeholder)" : "";
+          out.push(
+            `${pad}${"^".repeat(Math.max(1, m.matched_text.length))} ${m.pattern_id} ${m.pattern_name}${note}`
+          );
+        }
+      }
+      shownUntil = to;
+    }
+  }
+
+  const decoded = decodeEncodedMatches(result.encodings);
+  if (result.encodings.length > 0) out.push("");
+  for (const enc of result.encodings) {
+    const payload = decoded.find((d) => d.line === enc.line && d.column === enc.column);
+    out.push(`  ${enc.type} at line ${enc.line}:${enc.column}: ${enc.matched_text}`);
+    if (payload) {
+      const ids = (result.decoded_matches ?? [])
+        .filter((d) => d.encoded_line === enc.line && d.encoded_column === enc.column)
+        .map((d) => d.pattern_id);
+      const fired = ids.length > 0 ? `  [${[...new Set(ids)].join(", ")}]` : "";
+      out.push(`    decoded: ${highlight(JSON.stringify(payload.decoded), color)}${fired}`);
+    } else {
+      out.push("    (no decoder for this encoding)");
+    }
+  }
+
+  return out.join("\n");
+}
+
+// ============================================================
+// Interactive session
+// ============================================================
+
+/**
+ * Terminal input and output for runReviewSession.
+ */
+export interface ReviewIO {
+  /** Next keystroke, or "" at end of input */
+  readKey(): Promise<string>;
+  /** Next line of input without the newline, or null at end of input */
+  readLine(): Promise<string | null>;
+  write(text: string): void;
+}
+
+export interface ReviewSessionOptions {
+  auditConfig: AuditConfig;
+  reviewer: string;
+  configPath?: string;
+  /** Remember approvals and overrides (see rememberApproval) */
+  approvalStore?: ApprovalStoreConfig;
+  color?: boolean;
+}
+
+/**
+ * Walk the queue one item at a time. Each decision is one keystroke:
+ * [a]pprove (HUMAN_REVIEW), [o]verride (BLOCKED, asks for a reason),
+ * [r]eject, [s]kip or [q]uit. Decisions go through submitReview and
+ * overrideDecision, so they are audited and leave the queue. An override
+ * that still needs more approvers (see QuorumPolicy) and a decision the
+ * reviewer registry refuses count as skipped.
+ */
+export async function runReviewSession(
+  items: ReviewQueueItem[],
+  io: ReviewIO,
+  opts: ReviewSessionOptions
+): Promise<ReviewSessionSummary> {
+  const summary: ReviewSessionSummary = {
+    approved: 0,
+    rejected: 0,
+    overridden: 0,
+    skipped: 0,
+    remaining: 0,
+  };
+  const remember: ApprovalOptions | undefined = opts.approvalStore
+    ? { store: opts.approvalStore, configPath: opts.configPath }
+    : undefined;
+
+  for (let i = 0; i < items.length; i++) {
+    const ctx = loadReviewItem(items[i]!, opts.configPath);
+    io.write(`${formatReviewItem(ctx, { index: i + 1, total: items.length, color: opts.color })}\n\n`);
+
+    const keys = new Map<string, string>();
+    if (ctx.result) {
+      if (ctx.result.decision === "BLOCKED") keys.set("o", "[o]verride");
+      else keys.set("a", "[a]pprove");
+      keys.set("r", "[r]eject");
+    }
+    keys.set("s", "[s]kip");
+    keys.set("q", "[q]uit");
+    const prompt = `${[...keys.values()].join("  ")} > `;
+
+    let done = false;
+    while (!done) {
+      io.write(prompt);
+      const key = (await io.readKey()).toLowerCase();
+      io.write(`${key}\n`);
+      if (key === "" || key === "q") {
+        summary.remaining = items.length - i;
+        return summary;
+      }
+      if (!keys.has(key)) {
+        io.write(`Unknown key "${key}".\n`);
+        continue;
+      }
+      const { content, result, item } = ctx;
+      const sourceRepo = item.source_repo || undefined;
+      if (key === "s") {
+        summary.skipped++;
+        done = true;
+        continue;
+      }
+      let reason = "";
+      if (key === "o") {
+        io.write("Reason: ");
+        reason = (await io.readLine())?.trim() ?? "";
+        if (!reason) {
+          io.write("\nAn override needs a reason.\n");
+          continue;
+        }
+      }
+      try {
+        if (key === "o") {
+          const overridden = overrideDecision(result!, content!, opts.reviewer, reason, opts.auditConfig, {
+            sourceRepo,
+            remember,
+          });
+          if (overridden.quorum) {
+            // Still BLOCKED: the item stays queued for the other approvers
+            const { approvers, required } = overridden.quorum;
+            summary.skipped++;
+            io.write(`Approval recorded (${approvers.length}/${required} approvers)\n`);
+          } else {
+            summary.overridden++;
+            io.write(`OVERRIDE by ${opts.reviewer}\n`);
+          }
+        } else {
+          const decision = key === "a" ? "HUMAN_APPROVED" : "HUMAN_REJECTED";
+          submitReview(result!, content!, opts.reviewer, decision, opts.auditConfig, {
+            sourceRepo,
+            remember,
+          });
+          if (key === "a") summary.approved++;
+          else summary.rejected++;
+          io.write(`${decision} by ${opts.reviewer}\n`);
+        }
+      } catch (e) {
+        // Refused (reviewer registry, quorum rules): the item stays queued
+        io.write(`${e instanceof Error ? e.message : String(e)}\n`);
+        summary.skipped++;
+      }
+      done = true;
+    }
+    io.write("\n");
+  }
+
+  return summary;
+}
@@ -0,0 +1,203 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import {
+  createAuditEntry,
+  generateSessionId,
+  hashContent,
+  logAuditEntry,
+} from "./audit";
+import { parseSimpleYaml } from "./pattern-matcher";
+import { reviewSeverity } from "./review-policy";
+import { ReviewerRegistrySchema } from "./types";
+import type {
+  AuditConfig,
+  FilterResult,
+  ReviewerAction,
+  ReviewerCategory,
+  ReviewerRegistry,
+  ReviewerRole,
+} from "./types";
+
+/**
+ * Default registry location, next to the review policy.
+ */
+export const DEFAULT_REVIEWERS_PATH = join(
+  homedir(),
+  ".config",
+  "content-filter",
+  "reviewers.yaml"
+);
+
+/**
+ * Role an identity needs for each action.
+ */
+export const ACTION_ROLES: Record<ReviewerAction, ReviewerRole> = {
+  review: "reviewer",
+  override: "overrider",
+  bypass: "bypasser",
+};
+
+/**
+ * Parse and validate a reviewer registry from a YAML string.
+ *
+ * ```yaml
+ * reviewers:
+ *   - id: alice
+ *     roles: [reviewer, overrider]
+ *   - id: ci-bot
+ *     roles: bypasser
+ * roles:
+ *   - role: reviewer
+ *     severities: [MEDIUM, LOW, NONE]
+ *   - role: overrider
+ *     categories: [injection, exfiltration, encoding]
+ * ```
+ *
+ * Throws on an unknown role, severity or category.
+ */
+export function loadReviewerRegistryFromString(text: string): ReviewerRegistry {
+  return ReviewerRegistrySchema.parse(parseSimpleYaml(text));
+}
+
+/**
+ * Load and validate a reviewer registry from a YAML file.
+ */
+export function loadReviewerRegistry(registryPath: string): ReviewerRegistry {
+  return loadReviewerRegistryFromString(readFileSync(registryPath, "utf-8"));
+}
+
+/**
+ * Resolve the reviewer registry used by the CLI and hooks.
+ *
+ * 1. CONTENT_FILTER_REVIEWERS names a registry file (must exist)
+ * 2. ~/.config/content-filter/reviewers.yaml if present
+ * 3. undefined: any non-empty identity may decide
+ *
+ * An unreadable or invalid registry throws rather than opening up.
+ */
+export function resolveReviewerRegistry(): ReviewerRegistry | undefined {
+  const envPath = process.env.CONTENT_FILTER_REVIEWERS;
+  if (envPath) return loadReviewerRegistry(envPath);
+  if (existsSync(DEFAULT_REVIEWERS_PATH)) {
+    return loadReviewerRegistry(DEFAULT_REVIEWERS_PATH);
+  }
+  return undefined;
+}
+
+/**
+ * Whether an identity (trimmed, case-insensitive) is registered with a role.
+ */
+export function hasRole(registry: ReviewerRegistry, identity: string, role: ReviewerRole): boolean {
+  const id = identity.trim().toLowerCase();
+  return registry.reviewers.some((r) => r.id.trim().toLowerCase() === id && r.roles.includes(role));
+}
+
+/**
+ * Categories a decision on this result covers: the categories of every
+ * match and decoded match, plus "encoding" for encoded payloads.
+ */
+export function resultCategories(result: FilterResult): ReviewerCategory[] {
+  const categories = new Set<ReviewerCategory>();
+  for (const m of [...result.matches, ...(result.decoded_matches ?? [])]) {
+    categories.add(m.category as ReviewerCategory);
+  }
+  if (result.encodings.length > 0) categories.add("encoding");
+  return [...categories];
+}
+
+/**
+ * Check an identity against the registry. Returns why the action is
+ * refused, or null when it is allowed.
+ *
+ * The identity (trimmed, case-insensitive) must be registered with the
+ * action's role. Approvals must also fall within one of the role's
+ * grants: the result's severity and every category it covers
+ * (categories, by default resultCategories(result)). A rejection
+ * (approve = false) only needs the role.
+ */
+export function checkAuthorization(
+  registry: ReviewerRegistry,
+  identity: string,
+  action: ReviewerAction,
+  result: FilterResult,
+  approve: boolean = true,
+  categories: ReviewerCategory[] = resultCategories(result)
+): string | null {
+  const id = identity.trim().toLowerCase();
+  const reviewer = registry.reviewers.find((r) => r.id.trim().toLowerCase() === id);
+  if (!reviewer) return `${identity.trim()} is not a registered reviewer`;
+
+  const role = ACTION_ROLES[action];
+  if (!reviewer.roles.includes(role)) {
+    return `${identity.trim()} does not have the ${role} role`;
+  }
+  if (!approve) return null;
+
+  const grants = registry.roles.filter((g) => g.role === role);
+  if (grants.length === 0) return null;
+
+  const severity = reviewSeverity(result);
+  const covered = grants.some(
+    (g) =>
+      (!g.severities || g.severities.includes(severity)) &&
+      (!g.categories || categories.every((c) => g.categories!.includes(c)))
+  );
+  if (covered) return null;
+  const scope = [severity, ...categories].join(", ");
+  return `the ${role} role may not approve ${scope} content`;
+}
+
+/**
+ * Enforce the reviewer registry for one decision: auditConfig.reviewers,
+ * or resolveReviewerRegistry() when the config has none, so a library
+ * caller with a plain buildAuditConfig() still honors the installed
+ * registry. An unreadable registry throws.
+ *
+ * Without a registry this does nothing. A refused identity is written to
+ * the audit trail as authorization_denied (with the attempted action and
+ * the refusal reason), then an error is thrown so the decision is never
+ * applied. opts.categories replaces the result's categories when the
+ * decision covers more than the result shows (see issueBypassGrant).
+ */
+export function enforceAuthorization(
+  result: FilterResult,
+  content: string,
+  identity: string,
+  action: ReviewerAction,
+  auditConfig: AuditConfig,
+  opts?: {
+    sourceRepo?: string;
+    sessionId?: string;
+    reason?: string;
+    approve?: boolean;
+    categories?: ReviewerCategory[];
+  }
+): void {
+  const registry = auditConfig.reviewers ?? resolveReviewerRegistry();
+  if (!registry) return;
+  const denied = checkAuthorization(
+    registry,
+    identity,
+    action,
+    result,
+    opts?.approve,
+    opts?.categories
+  );
+  if (!denied) return;
+
+  const entry = createAuditEntry(result, {
+    contentHash: hashContent(content),
+    sessionId: opts?.sessionId ?? generateSessionId(),
+    sourceRepo: opts?.sourceRepo,
+    approver: identity.trim(),
+    reason: opts?.reason?.trim(),
+    eventTypeOverride: "authorization_denied",
+    decisionOverride: result.decision,
+    evidence: auditConfig.evidence,
+    denial: { action, reason: denied },
+  });
+  logAuditEntry(entry, auditConfig);
+
+  throw new Error(`Unauthorized ${action}: ${denied}`);
+}
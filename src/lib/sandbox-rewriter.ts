@@ -1,10 +1,22 @@
 import { basename, join } from "node:path";
 import type {
+  CommandType,
   ParsedCommand,
   EnforcerMode,
   RewriteResult,
   HookOutput,
+  CommandLineRewriteResult,
+  SegmentRewrite,
 } from "./types";
+import {
+  splitCommandLine,
+  parseCommand,
+  classifyPipedWrite,
+  nestedShellCommand,
+  resolveWorkingDir,
+  shellQuote,
+} from "./command-parser";
+import { isInSandbox } from "./path-resolver";
 
 /**
  * Extract repository name from various URL formats.
@@ -70,14 +82,27 @@ export function rewriteCommand(
     return unchanged;
   }
 
-  if (parsed.type === "git-clone" || parsed.type === "gh-clone") {
+  if (
+    parsed.type === "git-clone" ||
+    parsed.type === "gh-clone" ||
+    parsed.type === "svn-checkout" ||
+    parsed.type === "hg-clone"
+  ) {
     return rewriteClone(parsed, sandboxDir, mode);
   }
 
+  if (parsed.outputs !== undefined) {
+    return checkOutputs(parsed, sandboxDir);
+  }
+
   if (parsed.type === "curl-download") {
     return rewriteOutputFlag(parsed, sandboxDir, mode, ["-o", "--output"]);
   }
 
+  if (parsed.type === "tee-download") {
+    return rewriteOutputFlag(parsed, sandboxDir, mode, []);
+  }
+
   if (parsed.type === "wget-download") {
     return rewriteOutputFlag(parsed, sandboxDir, mode, [
       "-O",
@@ -89,9 +114,125 @@ export function rewriteCommand(
     return rewriteDirFlag(parsed, sandboxDir, mode);
   }
 
+  if (parsed.type === "scp-download" || parsed.type === "rsync-download") {
+    return rewriteDestination(parsed, sandboxDir, mode);
+  }
+
+  const destinationFlag = DESTINATION_FLAGS[parsed.type];
+  if (destinationFlag) {
+    return rewriteDestination(parsed, sandboxDir, mode, destinationFlag);
+  }
+
+  if (
+    parsed.type === "git-fetch" ||
+    parsed.type === "gh-pr-checkout" ||
+    parsed.type === "git-submodule-add"
+  ) {
+    return rewriteInPlace(parsed, sandboxDir);
+  }
+
   return unchanged;
 }
 
+/**
+ * Tools whose output location is set by a flag, and the flag inserted
+ * when the command has none. Without the flag most of them write into
+ * the working directory; huggingface downloads go to the shared HF cache.
+ */
+const DESTINATION_FLAGS: Partial<
+  Record<CommandType, { flag: string; defaultsToCwd: boolean }>
+> = {
+  "gh-release-download": { flag: "-D", defaultsToCwd: true },
+  "npm-pack": { flag: "--pack-destination", defaultsToCwd: true },
+  "pip-download": { flag: "-d", defaultsToCwd: true },
+  "aria2c-download": { flag: "-d", defaultsToCwd: true },
+  "hf-download": { flag: "--local-dir", defaultsToCwd: false },
+  "curl-remote-name": { flag: "--output-dir", defaultsToCwd: true },
+};
+
+/**
+ * Rewrite every acquisition segment of a full command line.
+ *
+ * Splits raw with splitCommandLine (tracking cd from cwd), classifies and
+ * rewrites each segment (a `tee` fed by a stdout download counts as the
+ * download's destination), and splices rewritten segments back into the
+ * original line. Segments nested inside a rewritten segment (e.g. a
+ * $(...) inside a clone) cannot be spliced independently, and commands
+ * that write into the current repository have no sandbox equivalent —
+ * in those cases, and always in block mode, `rewritten` is null and the
+ * caller must block. Command lines nested in `bash -c` or `eval` are
+ * checked the same way but never rewritten, and so is the command
+ * `xargs` runs.
+ */
+export function rewriteCommandLine(
+  raw: string,
+  sandboxDir: string,
+  mode: EnforcerMode,
+  cwd: string | null = null
+): CommandLineRewriteResult {
+  const segments: SegmentRewrite[] = [];
+  const split = splitCommandLine(raw, cwd);
+  const parsedAll: ParsedCommand[] = [];
+
+  for (const segment of split) {
+    const source = segment.pipedFrom === undefined ? undefined : parsedAll[segment.pipedFrom];
+    const parsed = source
+      ? classifyPipedWrite(segment.text, source)
+      : parseCommand(segment.text);
+    parsedAll.push(parsed);
+
+    // bash -c '...' / eval / xargs: check the nested command line; it cannot
+    // be spliced back, so any acquisition inside it blocks without a rewrite
+    const nested = nestedShellCommand(segment.text);
+    if (nested !== null) {
+      for (const inner of rewriteCommandLine(nested, sandboxDir, mode, segment.cwd).segments) {
+        if (!inner.result.changed) continue;
+        segments.push({ segment, parsed: inner.parsed, result: { ...inner.result, newPath: null } });
+      }
+      continue;
+    }
+
+    if (parsed.type === "passthrough") continue;
+    parsed.cwd =
+      parsed.chdir === undefined
+        ? segment.cwd
+        : resolveWorkingDir(parsed.chdir, segment.cwd);
+    segments.push({
+      segment,
+      parsed,
+      result: rewriteCommand(parsed, sandboxDir, mode),
+    });
+  }
+
+  const toSplice = segments
+    .filter((s) => s.result.changed)
+    .sort((a, b) => b.segment.start - a.segment.start);
+  const changed = toSplice.length > 0;
+
+  if (!changed) {
+    return { original: raw, rewritten: raw, changed, segments };
+  }
+  if (mode === "block" || toSplice.some((s) => s.result.newPath === null)) {
+    return { original: raw, rewritten: null, changed, segments };
+  }
+
+  // Splice from the end so earlier offsets stay valid
+  let rewritten = raw;
+  let boundary = Infinity;
+  for (const { segment, result } of toSplice) {
+    if (segment.end > boundary) {
+      return { original: raw, rewritten: null, changed, segments };
+    }
+    rewritten =
+      rewritten.slice(0, segment.start) +
+      result.rewritten +
+      rewritten.slice(segment.end);
+    boundary = segment.start;
+  }
+
+  return { original: raw, rewritten, changed, segments };
+}
+
 /**
  * Build Claude Code hook output from a rewrite result.
  *
@@ -103,7 +244,7 @@ export function buildHookOutput(
 ): HookOutput | null {
   if (!result.changed) return null;
 
-  if (mode === "rewrite") {
+  if (mode === "rewrite" && result.newPath !== null) {
     return {
       hookSpecificOutput: {
         hookEventName: "PreToolUse" as const,
@@ -143,12 +284,17 @@ function rewriteClone(
   const repoName = extractRepoName(parsed.url ?? "");
   const dest = parsed.destination;
 
+  // No destination, but the working directory is already the sandbox
+  if (!dest && parsed.cwd && isInSandbox(parsed.cwd, sandboxDir)) {
+    return unchangedResult(parsed);
+  }
+
   // No destination specified: append sandbox/repoName
   if (!dest) {
     const newPath = join(sandboxDir, repoName);
     if (mode === "block") return blockResult(parsed);
     return {
-      rewritten: `${parsed.raw} ${newPath}`,
+      rewritten: `${parsed.raw} ${shellQuote(newPath)}`,
       original: parsed.raw,
       changed: true,
       newPath,
@@ -156,90 +302,56 @@ function rewriteClone(
   }
 
   // Destination already inside sandbox
-  if (dest.startsWith(sandboxDir)) {
-    return {
-      rewritten: parsed.raw,
-      original: parsed.raw,
-      changed: false,
-      newPath: null,
-    };
+  if (isInSandbox(dest, sandboxDir, parsed.cwd ?? null)) {
+    return unchangedResult(parsed);
   }
 
-  // Destination is "." — replace with sandbox/repoName
-  if (dest === ".") {
-    const newPath = join(sandboxDir, repoName);
-    if (mode === "block") return blockResult(parsed);
-    const rewritten = parsed.raw.replace(/\s\.\s*$/, ` ${newPath}`);
-    return {
-      rewritten,
-      original: parsed.raw,
-      changed: true,
-      newPath,
-    };
-  }
-
-  // Destination outside sandbox: redirect to sandbox/basename(destination)
-  const destName = basename(dest);
-  const newPath = join(sandboxDir, destName);
+  // Destination is "." — sandbox/repoName; otherwise sandbox/basename(destination)
+  const newPath = join(sandboxDir, dest === "." ? repoName : basename(dest));
   if (mode === "block") return blockResult(parsed);
 
-  const rewritten = parsed.raw.replace(dest, newPath);
+  // Replace the destination token, not the first matching substring —
+  // the destination name usually also appears inside the URL
+  const index = parsed.destinationIndex ?? parsed.tokens.lastIndexOf(dest);
   return {
-    rewritten,
+    rewritten: renderWithValue(parsed, index, parsed.destinationPrefix ?? "", newPath),
     original: parsed.raw,
     changed: true,
     newPath,
   };
 }
 
+/**
+ * Commands with several output targets are not rewritten: unchanged when
+ * every target is already inside the sandbox, blocked otherwise.
+ */
+function checkOutputs(parsed: ParsedCommand, sandboxDir: string): RewriteResult {
+  const outside = parsed.outputs!.some(
+    (output) => !isInSandbox(output, sandboxDir, parsed.cwd ?? null)
+  );
+  return outside ? blockResult(parsed) : unchangedResult(parsed);
+}
+
 function rewriteOutputFlag(
   parsed: ParsedCommand,
   sandboxDir: string,
   mode: EnforcerMode,
   flagNames: string[]
 ): RewriteResult {
-  const tokens = [...parsed.tokens];
-  let outputIdx = -1;
-
-  // Find the flag token and its value
-  for (let i = 0; i < tokens.length; i++) {
-    if (flagNames.includes(tokens[i]!)) {
-      outputIdx = i;
-      break;
-    }
-  }
-
-  if (outputIdx === -1 || outputIdx + 1 >= tokens.length) {
-    return {
-      rewritten: parsed.raw,
-      original: parsed.raw,
-      changed: false,
-      newPath: null,
-    };
-  }
-
-  const valueIdx = outputIdx + 1;
-  const currentPath = tokens[valueIdx]!;
+  const location = locateFlagValue(parsed, flagNames);
+  if (!location) return unchangedResult(parsed);
 
   // Already inside sandbox
-  if (currentPath.startsWith(sandboxDir)) {
-    return {
-      rewritten: parsed.raw,
-      original: parsed.raw,
-      changed: false,
-      newPath: null,
-    };
+  if (isInSandbox(location.value, sandboxDir, parsed.cwd ?? null)) {
+    return unchangedResult(parsed);
   }
 
   // Rewrite needed
   if (mode === "block") return blockResult(parsed);
 
-  const fileName = basename(currentPath);
-  const newPath = join(sandboxDir, fileName);
-  tokens[valueIdx] = newPath;
-
+  const newPath = join(sandboxDir, basename(location.value));
   return {
-    rewritten: tokens.join(" "),
+    rewritten: renderWithValue(parsed, location.index, location.prefix, newPath),
     original: parsed.raw,
     changed: true,
     newPath,
@@ -251,48 +363,166 @@ function rewriteDirFlag(
   sandboxDir: string,
   mode: EnforcerMode
 ): RewriteResult {
-  const tokens = [...parsed.tokens];
-  const dirFlags = ["-P", "--directory-prefix"];
-  let dirIdx = -1;
-
-  for (let i = 0; i < tokens.length; i++) {
-    if (dirFlags.includes(tokens[i]!)) {
-      dirIdx = i;
-      break;
-    }
-  }
+  const location = locateFlagValue(parsed, ["-P", "--directory-prefix"]);
 
-  if (dirIdx === -1 || dirIdx + 1 >= tokens.length) {
+  // No -P: files land in the working directory
+  if (!location) {
+    if (parsed.cwd && isInSandbox(parsed.cwd, sandboxDir)) {
+      return unchangedResult(parsed);
+    }
+    if (mode === "block") return blockResult(parsed);
     return {
-      rewritten: parsed.raw,
+      rewritten: renderWithInsertion(
+        parsed,
+        parsed.optionIndex ?? parsed.tokens.length,
+        ["-P", sandboxDir]
+      ),
       original: parsed.raw,
-      changed: false,
-      newPath: null,
+      changed: true,
+      newPath: sandboxDir,
     };
   }
 
-  const valueIdx = dirIdx + 1;
-  const currentDir = tokens[valueIdx]!;
-
   // Already targeting sandbox
-  if (currentDir.startsWith(sandboxDir)) {
+  if (isInSandbox(location.value, sandboxDir, parsed.cwd ?? null)) {
+    return unchangedResult(parsed);
+  }
+
+  // Rewrite needed
+  if (mode === "block") return blockResult(parsed);
+
+  return {
+    rewritten: renderWithValue(parsed, location.index, location.prefix, sandboxDir),
+    original: parsed.raw,
+    changed: true,
+    newPath: sandboxDir,
+  };
+}
+
+/**
+ * Rewrite a destination path (flag value or trailing positional) into the
+ * sandbox, keeping its basename. When the command has no destination and
+ * insert is given, the flag is added right after the subcommand.
+ */
+function rewriteDestination(
+  parsed: ParsedCommand,
+  sandboxDir: string,
+  mode: EnforcerMode,
+  insert?: { flag: string; defaultsToCwd: boolean }
+): RewriteResult {
+  const dest = parsed.destination;
+
+  if (dest === null) {
+    if (!insert) return unchangedResult(parsed);
+    if (insert.defaultsToCwd && parsed.cwd && isInSandbox(parsed.cwd, sandboxDir)) {
+      return unchangedResult(parsed);
+    }
+    if (mode === "block") return blockResult(parsed);
+
+    // Directory tools get the sandbox itself; cache-based tools a per-repo dir
+    const newPath = insert.defaultsToCwd
+      ? sandboxDir
+      : join(sandboxDir, extractRepoName(parsed.url ?? ""));
     return {
-      rewritten: parsed.raw,
+      rewritten: renderWithInsertion(
+        parsed,
+        parsed.optionIndex ?? parsed.tokens.length,
+        [insert.flag, newPath]
+      ),
       original: parsed.raw,
-      changed: false,
-      newPath: null,
+      changed: true,
+      newPath,
     };
   }
 
-  // Rewrite needed
+  if (isInSandbox(dest, sandboxDir, parsed.cwd ?? null)) {
+    return unchangedResult(parsed);
+  }
   if (mode === "block") return blockResult(parsed);
 
-  tokens[valueIdx] = sandboxDir;
-
+  const newPath = join(sandboxDir, basename(dest));
+  const index = parsed.destinationIndex ?? parsed.tokens.lastIndexOf(dest);
   return {
-    rewritten: tokens.join(" "),
+    rewritten: renderWithValue(parsed, index, parsed.destinationPrefix ?? "", newPath),
     original: parsed.raw,
     changed: true,
-    newPath: sandboxDir,
+    newPath,
+  };
+}
+
+/**
+ * Commands that write into the current repository (git fetch/pull of a
+ * URL, gh pr checkout, git submodule add) have no sandbox destination to
+ * redirect to. They are allowed only when the repository is already in
+ * the sandbox; otherwise the result is a block (changed, newPath null).
+ */
+function rewriteInPlace(parsed: ParsedCommand, sandboxDir: string): RewriteResult {
+  if (parsed.cwd && isInSandbox(parsed.cwd, sandboxDir)) {
+    return unchangedResult(parsed);
+  }
+  return blockResult(parsed);
+}
+
+function unchangedResult(parsed: ParsedCommand): RewriteResult {
+  return {
+    rewritten: parsed.raw,
+    original: parsed.raw,
+    changed: false,
+    newPath: null,
   };
 }
+
+/**
+ * Find the token holding a flag's value.
+ *
+ * Uses the destination location recorded by the parser (which understands
+ * --flag=value and -fvalue); falls back to "flag, then next token" for
+ * ParsedCommands built without it.
+ */
+function locateFlagValue(
+  parsed: ParsedCommand,
+  flagNames: string[]
+): { index: number; prefix: string; value: string } | null {
+  if (parsed.destinationIndex !== undefined && parsed.destination !== null) {
+    return {
+      index: parsed.destinationIndex,
+      prefix: parsed.destinationPrefix ?? "",
+      value: parsed.destination,
+    };
+  }
+
+  const flagIdx = parsed.tokens.findIndex((t) => flagNames.includes(t));
+  if (flagIdx === -1 || flagIdx + 1 >= parsed.tokens.length) return null;
+  return { index: flagIdx + 1, prefix: "", value: parsed.tokens[flagIdx + 1]! };
+}
+
+/**
+ * Re-emit the command with one token replaced by prefix + value.
+ *
+ * Untouched tokens keep their original shell text (quotes, variables);
+ * the replaced token is re-quoted so paths with spaces or shell
+ * metacharacters stay a single, literal word.
+ */
+function renderWithValue(
+  parsed: ParsedCommand,
+  index: number,
+  prefix: string,
+  value: string
+): string {
+  const words = [...(parsed.rawTokens ?? parsed.tokens.map(shellQuote))];
+  words[index] = shellQuote(prefix + value);
+  return words.join(" ");
+}
+
+/**
+ * Re-emit the command with extra words inserted before token index.
+ */
+function renderWithInsertion(
+  parsed: ParsedCommand,
+  index: number,
+  added: string[]
+): string {
+  const words = [...(parsed.rawTokens ?? parsed.tokens.map(shellQuote))];
+  words.splice(index, 0, ...added.map(shellQuote));
+  return words.join(" ");
+}
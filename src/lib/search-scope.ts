@@ -0,0 +1,103 @@
+import { statSync } from "fs";
+import { basename, isAbsolute, join, relative, sep } from "path";
+import type { SearchScope } from "./types";
+import { canonicalizePath, isPathWithin } from "./path-resolver";
+import { listFiles } from "./directory-scanner";
+
+/**
+ * Characters that make a path segment a glob rather than a literal name.
+ */
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Work out which files a Glob or Grep tool call would read.
+ *
+ * Glob: `pattern` relative to `path` (default cwd); an absolute pattern
+ * is split into its literal directory prefix and the glob remainder.
+ * Grep: everything under `path` (a file or directory, default cwd),
+ * narrowed by its optional `glob` filter. Grep's `type` filter is not
+ * modelled, so the scope is a superset of what ripgrep searches.
+ *
+ * Returns null for other tools or when the root cannot be resolved.
+ */
+export function resolveSearchScope(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  cwd: string
+): SearchScope | null {
+  const path = typeof toolInput.path === "string" ? toolInput.path : cwd;
+
+  if (toolName === "Glob") {
+    const pattern = typeof toolInput.pattern === "string" ? toolInput.pattern : "**/*";
+    if (!isAbsolute(pattern)) {
+      const root = canonicalizePath(path, cwd, { literal: true });
+      return root === null ? null : { root, pattern, matchBasename: false };
+    }
+
+    // Absolute pattern: the literal leading segments are the root
+    const segments = pattern.split("/");
+    const firstGlob = segments.findIndex((s) => GLOB_CHARS.test(s));
+    const literal = firstGlob === -1 ? segments : segments.slice(0, firstGlob);
+    const root = canonicalizePath(literal.join("/") || "/", cwd, { literal: true });
+    if (root === null) return null;
+    return {
+      root,
+      pattern: firstGlob === -1 ? null : segments.slice(firstGlob).join("/"),
+      matchBasename: false,
+    };
+  }
+
+  if (toolName === "Grep") {
+    const root = canonicalizePath(path, cwd, { literal: true });
+    if (root === null) return null;
+    const glob = typeof toolInput.glob === "string" ? toolInput.glob : null;
+    // ripgrep matches a slash-free glob against the file name at any depth
+    return { root, pattern: glob, matchBasename: glob !== null && !glob.includes("/") };
+  }
+
+  return null;
+}
+
+/**
+ * List the files in scope that live inside the sandbox (absolute paths).
+ *
+ * Only the part of the tree shared by the search root and the sandbox is
+ * walked: a search rooted above the sandbox walks just the sandbox, and a
+ * search entirely outside it walks nothing. The scan excludes (.git,
+ * node_modules) do not apply — a search reads those directories too.
+ * Symlinks are not followed.
+ */
+export function listSandboxFiles(scope: SearchScope, sandboxDir: string): string[] {
+  const { root } = scope;
+
+  let isDirectory: boolean;
+  try {
+    isDirectory = statSync(root).isDirectory();
+  } catch {
+    return [];
+  }
+
+  if (!isDirectory) {
+    return isPathWithin(root, sandboxDir) ? [root] : [];
+  }
+
+  let walkRoot: string;
+  if (isPathWithin(root, sandboxDir)) {
+    walkRoot = root;
+  } else if (isPathWithin(sandboxDir, root)) {
+    walkRoot = sandboxDir;
+  } else {
+    return [];
+  }
+
+  const glob = scope.pattern === null ? null : new Bun.Glob(scope.pattern);
+  return listFiles(walkRoot, [], { defaultExcludes: false })
+    .map((rel) => join(walkRoot, rel))
+    .filter((abs) => {
+      if (!glob) return true;
+      const target = scope.matchBasename
+        ? basename(abs)
+        : relative(root, abs).split(sep).join("/");
+      return glob.match(target);
+    });
+}
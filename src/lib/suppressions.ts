@@ -0,0 +1,71 @@
+import { createHash } from "crypto";
+import type { PatternMatch, Suppression, SuppressionDirective } from "./types";
+
+/**
+ * Inline suppression directive, as an HTML/markdown or YAML/shell comment:
+ *
+ *   <!-- content-filter-ignore PI-001: quoted in the threat model -->
+ *   # content-filter-ignore PII-007: maintainer contact
+ *
+ * The directive may sit alone on its line or trail other text.
+ */
+const DIRECTIVE_RE =
+  /(?:<!--|#)\s*content-filter-ignore\s+([A-Za-z]+-\d+)\s*:\s*(.*?)\s*(?:-->)?\s*$/;
+
+/**
+ * Hash identifying a directive: SHA-256 over the directive's line and the
+ * line after it (trailing whitespace trimmed). The pattern ID and reason
+ * are part of the directive line, so an allowlisted directive copied next
+ * to other text, or edited, no longer matches its allowlist entry.
+ */
+export function suppressionHash(directiveLine: string, nextLine: string = ""): string {
+  return createHash("sha256")
+    .update(`${directiveLine.trimEnd()}\n${nextLine.trimEnd()}`)
+    .digest("hex");
+}
+
+/**
+ * Every `content-filter-ignore` directive in the content, allowlisted or not.
+ * Directives without a reason are ignored.
+ */
+export function findSuppressionDirectives(content: string): SuppressionDirective[] {
+  const lines = content.split("\n");
+  const directives: SuppressionDirective[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i]!.match(DIRECTIVE_RE);
+    if (!m || m[2]!.trim() === "") continue;
+    directives.push({
+      pattern_id: m[1]!.toUpperCase(),
+      reason: m[2]!.trim(),
+      line: i + 1,
+      hash: suppressionHash(lines[i]!, lines[i + 1]),
+    });
+  }
+  return directives;
+}
+
+/**
+ * Flag matches covered by an allowlisted directive as suppressed.
+ *
+ * A directive only counts when its hash is listed in the trusted
+ * config's suppressions; it then covers matches of its pattern ID on its
+ * own line and the next. Other directives are plain text, so adding the
+ * comment to untrusted content changes nothing.
+ */
+export function applySuppressions(
+  content: string,
+  matches: PatternMatch[],
+  allowlist: Suppression[]
+): PatternMatch[] {
+  if (allowlist.length === 0 || matches.length === 0) return matches;
+  const trusted = new Set(allowlist.map((s) => s.hash));
+  const directives = findSuppressionDirectives(content).filter((d) => trusted.has(d.hash));
+  if (directives.length === 0) return matches;
+
+  return matches.map((m) => {
+    const directive = directives.find(
+      (d) => d.pattern_id === m.pattern_id && (m.line === d.line || m.line === d.line + 1)
+    );
+    return directive ? { ...m, suppressed: true, suppression_reason: directive.reason } : m;
+  });
+}
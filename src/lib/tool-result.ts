@@ -0,0 +1,169 @@
+import type {
+  ApprovalStoreConfig,
+  AuditConfig,
+  FileFormat,
+  FilterResult,
+  ResultCacheConfig,
+} from "./types";
+import { filterContentString } from "./content-filter";
+
+/**
+ * Built-in tools whose results carry external content.
+ */
+const RESULT_TOOLS = new Set(["WebFetch", "WebSearch"]);
+
+/**
+ * MCP tools follow mcp__<server>__<tool>; any fetch-style tool qualifies.
+ */
+const MCP_FETCH_TOOL = /^mcp__.+__.*fetch/i;
+
+/**
+ * Response keys that hold metadata rather than fetched content.
+ */
+const METADATA_KEYS = new Set([
+  "url",
+  "uri",
+  "type",
+  "mimeType",
+  "mime_type",
+  "contentType",
+  "content_type",
+  "headers",
+  "code",
+  "codeText",
+  "bytes",
+  "durationMs",
+  "durationSeconds",
+  "tool_use_id",
+]);
+
+/**
+ * Whether a PostToolUse result from this tool should be filtered.
+ */
+export function isResultTool(toolName: string): boolean {
+  return RESULT_TOOLS.has(toolName) || MCP_FETCH_TOOL.test(toolName);
+}
+
+/**
+ * Collect the text of a tool response.
+ *
+ * Responses are a plain string (WebFetch), an object with the text under
+ * result/content (WebFetch, MCP `{ content: [{ type: "text", text }] }`),
+ * or a list of search results. Every string value is gathered, in order,
+ * except metadata fields (URLs, MIME types, status codes, timings).
+ */
+export function extractResponseText(response: unknown): string {
+  const parts: string[] = [];
+
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") {
+      if (value.trim() !== "") parts.push(value);
+    } else if (Array.isArray(value)) {
+      for (const item of value) visit(item);
+    } else if (value !== null && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        if (!METADATA_KEYS.has(key)) visit(child);
+      }
+    }
+  };
+
+  visit(response);
+  return parts.join("\n");
+}
+
+/**
+ * Find a content type in the response (contentType, mimeType, or a
+ * content-type header), searching nested MCP content items as well.
+ */
+export function extractContentType(response: unknown): string | null {
+  if (Array.isArray(response)) {
+    for (const item of response) {
+      const found = extractContentType(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (response === null || typeof response !== "object") return null;
+
+  const record = response as Record<string, unknown>;
+  for (const key of ["contentType", "content_type", "mimeType", "mime_type"]) {
+    if (typeof record[key] === "string") return record[key] as string;
+  }
+  const headers = record.headers;
+  if (headers && typeof headers === "object") {
+    for (const [name, value] of Object.entries(headers)) {
+      if (name.toLowerCase() === "content-type" && typeof value === "string") return value;
+    }
+  }
+  for (const key of ["content", "resource", "result"]) {
+    const found = extractContentType(record[key]);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Infer the pipeline format for fetched content.
+ *
+ * HTML and markdown are scanned as markdown; everything else, including
+ * JSON and YAML, as mixed free text. Schema validation only applies to
+ * the repo's own structured files, so a fetched JSON document must not
+ * be validated against it. Falls back to the URL's extension.
+ */
+export function inferResultFormat(contentType: string | null, url: string | null): FileFormat {
+  const type = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  if (type === "text/markdown" || type === "text/x-markdown" || type === "text/html") {
+    return "markdown";
+  }
+  if (type !== "") return "mixed";
+  if (url && /\.(?:md|markdown|html?)(?:[?#]|$)/i.test(url)) return "markdown";
+  return "mixed";
+}
+
+/**
+ * Identify where a tool result came from: the fetched URL, the search
+ * query for WebSearch, or the MCP tool name as a last resort.
+ */
+export function resultSource(toolName: string, toolInput: Record<string, unknown>): string {
+  for (const key of ["url", "uri"]) {
+    if (typeof toolInput[key] === "string") return toolInput[key] as string;
+  }
+  if (typeof toolInput.query === "string") return `websearch:${toolInput.query}`;
+  return toolName;
+}
+
+/**
+ * Run the filter pipeline over a tool result.
+ *
+ * The source (URL) is both the result's `file` and the audit entry's
+ * source_repo. Returns null when the response has no text to scan.
+ */
+export function filterToolResult(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  toolResponse: unknown,
+  opts?: {
+    configPath?: string;
+    auditConfig?: AuditConfig;
+    sessionId?: string;
+    cacheConfig?: ResultCacheConfig;
+    approvalStore?: ApprovalStoreConfig;
+  }
+): FilterResult | null {
+  const text = extractResponseText(toolResponse);
+  if (text === "") return null;
+
+  const source = resultSource(toolName, toolInput);
+  const url = typeof toolInput.url === "string" ? toolInput.url : null;
+  const format = inferResultFormat(extractContentType(toolResponse), url);
+
+  return filterContentString(
+    text,
+    source,
+    format,
+    opts?.configPath,
+    opts?.auditConfig,
+    { sourceRepo: source, sessionId: opts?.sessionId },
+    { cacheConfig: opts?.cacheConfig, approvalStore: opts?.approvalStore }
+  );
+}
@@ -59,12 +59,52 @@ export const EncodingRuleSchema = z.object({
 });
 export type EncodingRule = z.infer<typeof EncodingRuleSchema>;
 
+// --- Suppression Allowlist (from YAML config) ---
+
+/**
+ * An inline suppression directive the config trusts, identified by the
+ * hash of the lines it covers (see suppressionHash).
+ */
+export const SuppressionSchema = z.object({
+  hash: z.string().regex(/^[0-9a-f]{64}$/, "hash must be a lowercase SHA-256 hex digest"),
+  note: z.string().optional(),
+});
+export type Suppression = z.infer<typeof SuppressionSchema>;
+
+// --- Finding Baseline (known findings in an onboarded repo) ---
+
+/**
+ * One known finding: a review-severity pattern match in a file, keyed by
+ * the matched line's text rather than its number, so it survives edits
+ * elsewhere in the file.
+ */
+export const BaselineFindingSchema = z.object({
+  pattern_id: z.string(),
+  /** POSIX path relative to the baseline root */
+  file: z.string(),
+  /** SHA-256 of the matched line, trimmed (see lineFingerprint) */
+  fingerprint: z.string(),
+});
+export type BaselineFinding = z.infer<typeof BaselineFindingSchema>;
+
+export const BaselineSchema = z.object({
+  version: z.literal(1),
+  /** Absolute, symlink-resolved directory the findings are relative to */
+  root: z.string(),
+  created_at: z.string(),
+  /** version of the pattern config the baseline was created with */
+  config_version: z.string().optional(),
+  findings: z.array(BaselineFindingSchema),
+});
+export type Baseline = z.infer<typeof BaselineSchema>;
+
 // --- Filter Config (top-level YAML) ---
 
 export const FilterConfigSchema = z.object({
   version: z.string(),
   patterns: z.array(FilterPatternSchema),
   encoding_rules: z.array(EncodingRuleSchema),
+  suppressions: z.array(SuppressionSchema).optional(),
 });
 export type FilterConfig = z.infer<typeof FilterConfigSchema>;
 
@@ -79,6 +119,24 @@ export interface PatternMatch {
   line: number;
   column: number;
   placeholder_skipped?: boolean;
+  /** Set when an allowlisted inline directive suppressed this match */
+  suppressed?: boolean;
+  /** Reason given by the suppressing directive */
+  suppression_reason?: string;
+  /** Set when the finding is recorded in a baseline (known, not new) */
+  baselined?: boolean;
+}
+
+/**
+ * An inline `content-filter-ignore` directive found in scanned content.
+ */
+export interface SuppressionDirective {
+  pattern_id: string;
+  reason: string;
+  /** 1-based line of the directive; it covers this line and the next */
+  line: number;
+  /** SHA-256 of the covered lines, as listed in FilterConfig.suppressions */
+  hash: string;
 }
 
 export interface EncodingMatch {
@@ -131,6 +189,204 @@ export interface FilterResult {
   overall_severity?: SeverityTier;
   /** Pattern matches found in decoded encoded content (from decode-then-match step) */
   decoded_matches?: DecodedMatch[];
+  /** Matches suppressed by allowlisted inline directives (not part of the decision) */
+  suppressed_matches?: PatternMatch[];
+  /** Known findings recorded in a baseline (not part of the decision) */
+  baselined_matches?: PatternMatch[];
+  /** Set when a remembered human decision replaced the filter decision */
+  approval?: ApprovalRef;
+  /** Set while an override or bypass is waiting for more approvers */
+  quorum?: AuditQuorum;
+}
+
+// --- Result Cache ---
+
+export interface ResultCacheConfig {
+  cacheDir: string;
+  /** Signing key directory; entries that do not verify are misses (see audit-keys) */
+  keyDir: string;
+}
+
+// --- Approval Memory (remembered human decisions) ---
+
+export interface ApprovalStoreConfig {
+  storeDir: string;
+  /** How long a new approval stays valid (default 30 days) */
+  ttlMs?: number;
+}
+
+/** Where an approval applies: anywhere, in the same source repo, or the same file */
+export const ApprovalScope = z.enum(["content", "repo", "file"]);
+export type ApprovalScope = z.infer<typeof ApprovalScope>;
+
+/** Points a decision back at the audit entry that approved it */
+export const ApprovalRefSchema = z.object({
+  decision: z.enum(["OVERRIDE", "HUMAN_APPROVED"]),
+  approver: z.string(),
+  approved_at: z.string(),
+  expires_at: z.string(),
+  /** seq of the approving audit entry */
+  audit_seq: z.number().int().nonnegative().optional(),
+  /** SHA-256 of the approving audit entry's line */
+  audit_hash: z.string(),
+});
+export type ApprovalRef = z.infer<typeof ApprovalRefSchema>;
+
+export const ApprovalRecordSchema = ApprovalRefSchema.extend({
+  content_hash: z.string(),
+  /** hashConfig() of the pattern config the decision was made under */
+  config_hash: z.string(),
+  config_version: z.string(),
+  format: FileFormat,
+  scope: ApprovalScope,
+  source_repo: z.string().optional(),
+  file: z.string().optional(),
+  reason: z.string().optional(),
+});
+export type ApprovalRecord = z.infer<typeof ApprovalRecordSchema>;
+
+/** Remember a review or override decision (overrideDecision / submitReview) */
+export interface ApprovalOptions {
+  store: ApprovalStoreConfig;
+  /** Pattern config the result was produced with (resolved like filterContentString) */
+  configPath?: string;
+  /** Default "repo" */
+  scope?: ApprovalScope;
+  /** Overrides store.ttlMs */
+  ttlMs?: number;
+}
+
+// --- Bypass grants (scoped, time-boxed bypass tokens) ---
+
+export interface BypassGrantStoreConfig {
+  storeDir: string;
+}
+
+/** What a grant unblocks: one content hash, files matching a path glob, or one sandbox repo */
+export const BypassGrantScope = z.enum(["content", "path", "repo"]);
+export type BypassGrantScope = z.infer<typeof BypassGrantScope>;
+
+export const BypassGrantSchema = z.object({
+  /** Token naming the grant (list, revoke, audit entries) */
+  id: z.string(),
+  scope: BypassGrantScope,
+  /** Content hash, absolute path glob or repo name, per scope */
+  target: z.string(),
+  granted_by: z.string(),
+  reason: z.string(),
+  created_at: z.string(),
+  expires_at: z.string(),
+  max_uses: z.number().int().positive(),
+  uses: z.number().int().nonnegative(),
+  last_used_at: z.string().optional(),
+});
+export type BypassGrant = z.infer<typeof BypassGrantSchema>;
+
+/** Points an audit entry at the grant it issued, revoked or used */
+export const BypassGrantRefSchema = z.object({
+  id: z.string(),
+  scope: BypassGrantScope,
+  /** Set on grant_issued and grant_revoked entries */
+  target: z.string().optional(),
+  /** Uses including this one */
+  uses: z.number().int().nonnegative(),
+  max_uses: z.number().int().positive(),
+});
+export type BypassGrantRef = z.infer<typeof BypassGrantRefSchema>;
+
+/** A blocked file a grant may cover */
+export interface BypassGrantKey {
+  contentHash: string;
+  /** Canonical absolute path */
+  file: string;
+  sourceRepo?: string;
+}
+
+/** A BLOCKED file offered to a grant: its result, content and key */
+export interface BypassGrantClaim {
+  result: FilterResult;
+  content: string;
+  key: Omit<BypassGrantKey, "contentHash">;
+}
+
+// --- Two-person rule (quorum for overrides and bypasses) ---
+
+export interface QuorumPolicy {
+  /** Distinct approvers needed before the decision changes (min 2) */
+  required: number;
+  /** Severity tiers the rule applies to (default ["CRITICAL"]) */
+  severities: SeverityTier[];
+  /** Pending approvals older than this are ignored (default 24 hours) */
+  windowMs: number;
+}
+
+export const QuorumAction = z.enum(["override", "bypass", "grant"]);
+export type QuorumAction = z.infer<typeof QuorumAction>;
+
+/** Progress of an override, bypass or bypass grant that needs several approvers */
+export const AuditQuorumSchema = z.object({
+  action: QuorumAction,
+  required: z.number().int(),
+  /** Distinct approvers so far, oldest first */
+  approvers: z.array(z.string()),
+  /** Identity that asked for the action; may not approve it */
+  requested_by: z.string().optional(),
+});
+export type AuditQuorum = z.infer<typeof AuditQuorumSchema>;
+
+// --- Filter Options (optional stores for filterContent) ---
+
+export interface FilterOptions {
+  /** Serve and store results in the on-disk result cache */
+  cacheConfig?: ResultCacheConfig;
+  /** Honor remembered human decisions (see rememberApproval) */
+  approvalStore?: ApprovalStoreConfig;
+  /** Known findings that no longer affect the decision (see Baseline) */
+  baselines?: Baseline[];
+}
+
+// --- Directory Scan (whole-repo filtering) ---
+
+export interface SkippedFile {
+  file: string;
+  reason: "binary" | "too_large" | "unreadable";
+}
+
+export interface DirectoryScanOptions extends FilterOptions {
+  /** Glob patterns (relative to the root) a file must match to be scanned */
+  include?: string[];
+  /** Glob patterns (relative to the root) excluding files or directories */
+  exclude?: string[];
+  /** Files larger than this are skipped (default: 1MB) */
+  maxFileBytes?: number;
+  configPath?: string;
+  auditConfig?: AuditConfig;
+  auditOpts?: { sourceRepo?: string; sessionId?: string };
+}
+
+export interface DirectoryScanResult {
+  root: string;
+  /** Repo-level verdict: BLOCKED if any file is blocked, else HUMAN_REVIEW if any needs review */
+  decision: FilterDecision;
+  files: FilterResult[];
+  skipped: SkippedFile[];
+  summary: {
+    scanned: number;
+    /** Includes files allowed by a remembered approval */
+    allowed: number;
+    blocked: number;
+    human_review: number;
+    skipped: number;
+  };
+}
+
+export interface SearchScope {
+  /** Canonical file or directory the Glob/Grep call searches */
+  root: string;
+  /** Glob selecting files under root (null = every file) */
+  pattern: string | null;
+  /** Match pattern against the file name instead of the root-relative path */
+  matchBasename: boolean;
 }
 
 // --- Audit Types (F-002) ---
@@ -143,6 +399,10 @@ export const AuditEventType = z.enum([
   "human_reject",
   "override",
   "content_filter_bypass",
+  "approval_pending",
+  "authorization_denied",
+  "grant_issued",
+  "grant_revoked",
 ]);
 export type AuditEventType = z.infer<typeof AuditEventType>;
 
@@ -156,6 +416,32 @@ export const AuditDecision = z.enum([
 ]);
 export type AuditDecision = z.infer<typeof AuditDecision>;
 
+export const AuditEvidenceSchema = z.object({
+  pattern_id: z.string(),
+  line: z.number().int(),
+  column: z.number().int(),
+  /** matched_text, truncated; masked for redacted patterns */
+  snippet: z.string(),
+  /** True when snippet is masked by the redaction policy */
+  redacted: z.boolean().optional(),
+  /** Set when the match was found in decoded content (decoded_matches) */
+  encoding_type: z.string().optional(),
+  /** Position of the encoded string the match was decoded from */
+  encoded_line: z.number().int().optional(),
+  encoded_column: z.number().int().optional(),
+});
+export type AuditEvidence = z.infer<typeof AuditEvidenceSchema>;
+
+/** A decision the registry authorizes: submitReview, overrideDecision, bypassFilter */
+export const ReviewerAction = z.enum(["review", "override", "bypass"]);
+export type ReviewerAction = z.infer<typeof ReviewerAction>;
+
+export const AuditDenialSchema = z.object({
+  action: ReviewerAction,
+  reason: z.string(),
+});
+export type AuditDenial = z.infer<typeof AuditDenialSchema>;
+
 export const AuditEntrySchema = z.object({
   timestamp: z.string(),
   session_id: z.string(),
@@ -170,9 +456,69 @@ export const AuditEntrySchema = z.object({
   format: z.string(),
   approver: z.string().optional(),
   reason: z.string().optional(),
+  /** True when the decision was served from the result cache */
+  cache_hit: z.boolean().optional(),
+  /** Remembered approval that decided this entry (see ApprovalStoreConfig) */
+  approval: ApprovalRefSchema.optional(),
+  /** Approvers behind a quorum-gated override or bypass (see QuorumPolicy) */
+  quorum: AuditQuorumSchema.optional(),
+  /** Bypass grant issued, revoked or used by this entry (see BypassGrant) */
+  grant: BypassGrantRefSchema.optional(),
+  /** Pattern IDs suppressed by allowlisted inline directives */
+  suppressed_patterns: z.array(z.string()).optional(),
+  /** Pattern IDs of known findings matched by a baseline */
+  baselined_patterns: z.array(z.string()).optional(),
+  /** Why the reviewer registry refused the approver (authorization_denied) */
+  denial: AuditDenialSchema.optional(),
+  /** Where each pattern fired (only with AuditConfig.evidence) */
+  evidence: z.array(AuditEvidenceSchema).optional(),
+  overall_confidence: z.number().optional(),
+  overall_severity: z.string().optional(),
+  /** version of the pattern config that produced the decision */
+  config_version: z.string().optional(),
+  /** Position in the hash chain (assigned by logAuditEntry) */
+  seq: z.number().int().nonnegative().optional(),
+  /** SHA-256 of the previous entry's JSONL line (genesis: 64 zeros) */
+  prev_hash: z.string().optional(),
+  /** ID of the HMAC key that signed this entry */
+  key_id: z.string().optional(),
+  /** HMAC-SHA256 over the entry as written, minus this field */
+  signature: z.string().optional(),
 });
 export type AuditEntry = z.infer<typeof AuditEntrySchema>;
 
+/**
+ * An entry as returned by readAuditLog. signature_valid is computed on
+ * read (never stored) when a signing key directory is configured:
+ * false for unsigned entries, unknown keys and bad signatures.
+ */
+export type ReadAuditEntry = AuditEntry & { signature_valid?: boolean };
+
+export interface AuditChainBreak {
+  file: string;
+  /** 1-based line number within file */
+  line: number;
+  seq?: number;
+  reason: string;
+}
+
+export interface AuditVerifyResult {
+  valid: boolean;
+  /** Log files walked, oldest first */
+  files: string[];
+  /** Chained entries verified before the first break */
+  entries: number;
+  /** Entries written before hash chaining, preceding the chain */
+  legacy_entries: number;
+  first_seq: number | null;
+  last_seq: number | null;
+  /** Hash of the last verified line — record it to detect tail truncation */
+  last_hash: string | null;
+  /** The oldest chained entry links to a file removed by rotation */
+  pruned: boolean;
+  break?: AuditChainBreak;
+}
+
 export interface ContentFilterBypassEvent {
   event_type: "content_filter_bypass";
   caller_id: string;
@@ -181,10 +527,213 @@ export interface ContentFilterBypassEvent {
   timestamp: string;
 }
 
+export const AuditBackend = z.enum(["jsonl", "sqlite"]);
+export type AuditBackend = z.infer<typeof AuditBackend>;
+
 export interface AuditConfig {
   logDir: string;
   maxSizeBytes: number;
   maxRotatedFiles: number;
+  /** Sign entries with the HMAC key in this directory (unsigned when unset) */
+  signingKeyDir?: string;
+  /** Storage backend (default jsonl); sqlite stores logDir/audit.db */
+  backend?: AuditBackend;
+  /** Archive or delete old monthly JSONL files (kept forever when unset) */
+  retention?: AuditRetention;
+  /** Forward each appended entry to a local collector (off when unset) */
+  forward?: AuditForwardConfig;
+  /** Record match evidence and scores on filter entries (off when unset) */
+  evidence?: AuditEvidencePolicy;
+  /** Require several approvers for high-severity overrides and bypasses (off when unset) */
+  quorum?: QuorumPolicy;
+  /** Only registered identities may review, override or bypass (unset: resolveReviewerRegistry) */
+  reviewers?: ReviewerRegistry;
+}
+
+export interface AuditEvidencePolicy {
+  /** Pattern IDs whose matched text is stored masked, never verbatim */
+  redactPatterns: string[];
+  /** Longest snippet stored, in characters */
+  maxSnippetLength: number;
+}
+
+export interface AuditRetention {
+  /** Months of plain JSONL kept, including the current month (min 1) */
+  maxMonths: number;
+  /** gzip older months to <name>.gz (true) or delete them (false) */
+  archive: boolean;
+}
+
+export interface AuditQuery {
+  /** Inclusive lower bound on timestamp (ISO 8601) */
+  since?: string;
+  /** Exclusive upper bound on timestamp (ISO 8601) */
+  until?: string;
+  sessionId?: string;
+  sourceRepo?: string;
+  /** Glob matched against source_file (Bun.Glob syntax) */
+  sourceFile?: string;
+  /** Entries whose matched_patterns include this ID */
+  patternId?: string;
+  approver?: string;
+  contentHash?: string;
+  decision?: string;
+  eventType?: string;
+  /** Return only the newest N matching entries */
+  last?: number;
+}
+
+/**
+ * Storage for audit entries. Sinks chain (and optionally sign) entries
+ * on append and answer queries newest first.
+ */
+export interface AuditSink {
+  readonly backend: AuditBackend;
+  /** Store an entry; returns the line as written (chained, signed) */
+  append(entry: AuditEntry): string;
+  /** Matching entries sorted newest first */
+  query(query?: AuditQuery): ReadAuditEntry[];
+  /** Matching entries newest first in storage order, read lazily */
+  stream(query?: AuditQuery): Iterable<ReadAuditEntry>;
+  /** Raw stored lines, oldest first, for chain verification */
+  lines(): Iterable<AuditLogLine>;
+  close(): void;
+}
+
+export interface AuditMigrationResult {
+  /** sqlite database written */
+  db: string;
+  /** JSONL files read, oldest first */
+  files: string[];
+  imported: number;
+  /** Lines already present in the database */
+  skipped: number;
+  malformed: number;
+}
+
+export interface AuditLogLine {
+  /** File (or database) the line came from */
+  file: string;
+  /** 1-based line number, or row ID for sqlite */
+  line: number;
+  text: string;
+}
+
+export const AuditExportFormat = z.enum(["cef", "syslog", "ocsf", "csv"]);
+export type AuditExportFormat = z.infer<typeof AuditExportFormat>;
+
+export interface AuditForwardConfig {
+  /** unix:///path (syslog socket), udp://host:port or http(s)://host/path; loopback only */
+  target: string;
+  /** Record format sent to the collector (csv is export-only) */
+  format: Exclude<AuditExportFormat, "csv">;
+  /** Records waiting for delivery, one file each */
+  spoolDir: string;
+  /** Delivery attempts per record before it stays spooled */
+  retries: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+}
+
+export interface AuditForwardResult {
+  delivered: number;
+  /** Records still spooled after this flush */
+  pending: number;
+  /** Why delivery stopped, when it did */
+  error?: string;
+}
+
+export const AuditStatsBucket = z.enum(["day", "week", "month"]);
+export type AuditStatsBucket = z.infer<typeof AuditStatsBucket>;
+
+export interface AuditStatsOptions {
+  /** Inclusive lower bound on timestamp (ISO 8601) */
+  since?: string;
+  /** Exclusive upper bound on timestamp (ISO 8601) */
+  until?: string;
+  sourceRepo?: string;
+  /** Trend period (default day; weeks start on Monday, UTC) */
+  bucket?: AuditStatsBucket;
+  /** Length of each top-N list (default 10) */
+  top?: number;
+}
+
+export interface AuditCount {
+  key: string;
+  count: number;
+}
+
+export interface AuditTrendPeriod {
+  /** Period start: YYYY-MM-DD for day/week, YYYY-MM for month */
+  period: string;
+  total: number;
+  decisions: Partial<Record<AuditDecision, number>>;
+}
+
+export interface AuditApproverStats {
+  approver: string;
+  overrides: number;
+  bypasses: number;
+  approvals: number;
+  rejections: number;
+}
+
+export interface AuditBacklogItem {
+  content_hash: string;
+  source_repo: string;
+  source_file: string;
+  matched_patterns: string[];
+  first_seen: string;
+  last_seen: string;
+  /** HUMAN_REVIEW entries logged for this content */
+  occurrences: number;
+}
+
+export interface FalsePositiveCandidate {
+  pattern_id: string;
+  /** Override and bypass entries that carried this pattern */
+  overridden: number;
+  /** BLOCKED entries that carried this pattern */
+  blocked: number;
+  /** overridden / blocked, or null when nothing was blocked in range */
+  override_rate: number | null;
+}
+
+export interface AuditSummary {
+  since: string | null;
+  until: string | null;
+  bucket: AuditStatsBucket;
+  total_entries: number;
+  first_timestamp: string | null;
+  last_timestamp: string | null;
+  decisions: Partial<Record<AuditDecision, number>>;
+  /** Decision counts per period, oldest first */
+  trend: AuditTrendPeriod[];
+  /** Pattern IDs of filter decisions (filter_block, human_review, filter_pass) */
+  top_patterns: AuditCount[];
+  top_blocked_repos: AuditCount[];
+  top_blocked_files: AuditCount[];
+  approvers: AuditApproverStats[];
+  /** HUMAN_REVIEW content with no later approve, reject, override or bypass */
+  review_backlog: AuditBacklogItem[];
+  false_positive_candidates: FalsePositiveCandidate[];
+}
+
+// --- Review Queue (pending HUMAN_REVIEW items) ---
+
+export interface ReviewQueueItem extends AuditBacklogItem {
+  /** human_review, or filter_block when blocked content is queued too */
+  event_type: "human_review" | "filter_block";
+  format: string;
+}
+
+export interface ReviewSessionSummary {
+  approved: number;
+  rejected: number;
+  overridden: number;
+  skipped: number;
+  /** Items not reached because the reviewer quit */
+  remaining: number;
 }
 
 export const DEFAULT_AUDIT_CONFIG: Omit<AuditConfig, "logDir"> = {
@@ -258,6 +807,20 @@ export const CommandType = z.enum([
   "curl-download",
   "wget-download",
   "wget-dir",
+  "git-submodule-add",
+  "git-fetch",
+  "gh-release-download",
+  "gh-pr-checkout",
+  "scp-download",
+  "rsync-download",
+  "svn-checkout",
+  "hg-clone",
+  "npm-pack",
+  "pip-download",
+  "hf-download",
+  "aria2c-download",
+  "curl-remote-name",
+  "tee-download",
   "passthrough",
 ]);
 export type CommandType = z.infer<typeof CommandType>;
@@ -269,6 +832,33 @@ export interface ParsedCommand {
   flags: string[];
   tokens: string[];
   raw: string;
+  /** Shell source text of each token (quotes intact), parallel to tokens */
+  rawTokens?: string[];
+  /** Token index holding the destination, and the text before it in that token */
+  destinationIndex?: number;
+  destinationPrefix?: string;
+  /** Token index where the subcommand's options start (appended flags go here) */
+  optionIndex?: number;
+  /** Every output target when the command writes several (curl -o a -o b, tee a b) */
+  outputs?: string[];
+  /** Downloaded content goes to stdout (curl without -o, wget -O -) */
+  toStdout?: boolean;
+  /** Directory a wrapper switches to before running (env -C, sudo -D, git -C) */
+  chdir?: string;
+  /** Working directory the command runs in (null/undefined = unknown) */
+  cwd?: string | null;
+}
+
+export interface CommandSegment {
+  /** Trimmed text of one simple command */
+  text: string;
+  /** Offset of text within the full command line */
+  start: number;
+  end: number;
+  /** Working directory in effect for this segment (null = unknown) */
+  cwd: string | null;
+  /** Index (in the same array) of the segment piped into this one */
+  pipedFrom?: number;
 }
 
 export const EnforcerMode = z.enum(["rewrite", "block"]);
@@ -281,6 +871,21 @@ export interface RewriteResult {
   newPath: string | null;
 }
 
+export interface SegmentRewrite {
+  segment: CommandSegment;
+  parsed: ParsedCommand;
+  result: RewriteResult;
+}
+
+export interface CommandLineRewriteResult {
+  original: string;
+  /** Full command line with every segment rewritten; null in block mode or when segments overlap */
+  rewritten: string | null;
+  changed: boolean;
+  /** One entry per acquisition segment (passthrough segments omitted) */
+  segments: SegmentRewrite[];
+}
+
 export const HookSpecificOutputSchema = z.object({
   hookEventName: z.literal("PreToolUse"),
   permissionDecision: z.enum(["allow", "ask", "deny"]),
@@ -296,3 +901,77 @@ export const HookOutputSchema = z.object({
   hookSpecificOutput: HookSpecificOutputSchema,
 });
 export type HookOutput = z.infer<typeof HookOutputSchema>;
+
+// --- Review Policy (HUMAN_REVIEW → permission decision) ---
+
+export const ReviewAction = z.enum(["ask", "allow"]);
+export type ReviewAction = z.infer<typeof ReviewAction>;
+
+/** Severity a rule can match: a scored tier, or NONE for zero detections */
+export const ReviewSeverity = z.enum(["CRITICAL", "HIGH", "MEDIUM", "LOW", "NONE"]);
+export type ReviewSeverity = z.infer<typeof ReviewSeverity>;
+
+export const ReviewRuleSchema = z.object({
+  /** Applies to every format when omitted */
+  format: FileFormat.optional(),
+  /** Applies to every severity when omitted */
+  severity: ReviewSeverity.optional(),
+  action: ReviewAction,
+});
+export type ReviewRule = z.infer<typeof ReviewRuleSchema>;
+
+export const ReviewPolicySchema = z.object({
+  /** Action when no rule matches */
+  default: ReviewAction.default("ask"),
+  /** Evaluated in order; the first matching rule wins */
+  rules: z.array(ReviewRuleSchema).default([]),
+});
+export type ReviewPolicy = z.infer<typeof ReviewPolicySchema>;
+
+// --- Reviewer registry (who may review, override and bypass) ---
+
+export const ReviewerRole = z.enum(["reviewer", "overrider", "bypasser"]);
+export type ReviewerRole = z.infer<typeof ReviewerRole>;
+
+/** Pattern categories, plus "encoding" for encoded-payload detections */
+export const ReviewerCategory = z.enum([...PatternCategory.options, "encoding"]);
+export type ReviewerCategory = z.infer<typeof ReviewerCategory>;
+
+/**
+ * A list written either as YAML flow ("[a, b]") or comma-separated
+ * ("a, b"), since the config parser only reads scalar values.
+ */
+function listOf<T extends z.ZodTypeAny>(item: T) {
+  return z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value
+            .replace(/^\[|\]$/g, "")
+            .split(",")
+            .map((v) => v.trim())
+            .filter((v) => v !== "")
+        : value,
+    z.array(item)
+  );
+}
+
+export const ReviewerSchema = z.object({
+  id: z.coerce.string().min(1),
+  roles: listOf(ReviewerRole),
+});
+export type Reviewer = z.infer<typeof ReviewerSchema>;
+
+/** What a role may approve; omitted lists allow every severity or category */
+export const ReviewerRoleGrantSchema = z.object({
+  role: ReviewerRole,
+  severities: listOf(ReviewSeverity).optional(),
+  categories: listOf(ReviewerCategory).optional(),
+});
+export type ReviewerRoleGrant = z.infer<typeof ReviewerRoleGrantSchema>;
+
+export const ReviewerRegistrySchema = z.object({
+  reviewers: z.array(ReviewerSchema).default([]),
+  /** Roles without a grant may approve anything */
+  roles: z.array(ReviewerRoleGrantSchema).default([]),
+});
+export type ReviewerRegistry = z.infer<typeof ReviewerRegistrySchema>;
@@ -0,0 +1,301 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdirSync, rmSync } from "fs";
+import { buildAuditConfig, hashContent, logAuditEntry } from "../src/lib/audit";
+import {
+  AUDIT_CSV_COLUMNS,
+  csvHeader,
+  exportAuditLog,
+  formatAuditRecord,
+  formatCef,
+  formatCsvRow,
+  formatOcsf,
+  formatSyslog,
+} from "../src/lib/audit-export";
+import type { AuditEntry } from "../src/lib/types";
+
+const TMP_BASE = `/private/tmp/claude-503/audit-export-test-${Date.now()}`;
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+
+function freshDir(label: string): string {
+  const dir = join(
+    TMP_BASE,
+    `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+function makeEntry(overrides?: Partial<AuditEntry>): AuditEntry {
+  return {
+    timestamp: "2026-03-02T09:00:00.000Z",
+    session_id: "sess-1",
+    event_type: "filter_block",
+    source_repo: "org/alpha",
+    source_file: "alpha/README.md",
+    content_hash: hashContent("blocked"),
+    decision: "BLOCKED",
+    matched_patterns: ["PI-001", "PI-002"],
+    encoding_detections: ["base64"],
+    schema_valid: true,
+    format: "markdown",
+    seq: 4,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CEF
+// ---------------------------------------------------------------------------
+
+describe("formatCef", () => {
+  test("header carries vendor, event type, description and severity", () => {
+    const cef = formatCef(makeEntry());
+    const header = cef.split("|");
+    expect(header.slice(0, 5)).toEqual([
+      "CEF:0",
+      "metafactory",
+      "content-filter",
+      "0.1.0",
+      "filter_block",
+    ]);
+    expect(header[5]).toBe("BLOCKED alpha/README.md patterns PI-001,PI-002");
+    expect(header[6]).toBe("8");
+  });
+
+  test("extension maps entry fields", () => {
+    const cef = formatCef(makeEntry());
+    expect(cef).toContain(`rt=${Date.parse("2026-03-02T09:00:00.000Z")}`);
+    expect(cef).toContain("act=BLOCKED");
+    expect(cef).toContain("fname=alpha/README.md");
+    expect(cef).toContain(`fileHash=${hashContent("blocked")}`);
+    expect(cef).toContain("cs1Label=sourceRepo cs1=org/alpha");
+    expect(cef).toContain("cs3Label=matchedPatterns cs3=PI-001,PI-002");
+    expect(cef).toContain("cn1Label=seq cn1=4");
+    expect(cef).not.toContain("suser=");
+  });
+
+  test("escapes pipes in the header and = / newlines in extensions", () => {
+    const cef = formatCef(
+      makeEntry({
+        event_type: "override",
+        decision: "OVERRIDE",
+        source_file: "a|b.md",
+        approver: "alice",
+        reason: "x=1\nsecond line",
+      })
+    );
+    expect(cef).toContain("OVERRIDE a\\|b.md");
+    expect(cef).toContain("suser=alice");
+    expect(cef).toContain("reason=x\\=1\\nsecond line");
+    expect(cef.split("\n")).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Syslog
+// ---------------------------------------------------------------------------
+
+describe("formatSyslog", () => {
+  test("RFC 5424 header with log-audit facility", () => {
+    const msg = formatSyslog(makeEntry(), "host1");
+    // facility 13 * 8 + warning (4)
+    expect(msg.startsWith(
+      "<108>1 2026-03-02T09:00:00.000Z host1 content-filter - filter_block [content-filter@32473 "
+    )).toBe(true);
+    expect(msg.endsWith("] BLOCKED alpha/README.md patterns PI-001,PI-002")).toBe(true);
+  });
+
+  test("structured data holds entry fields, escaped", () => {
+    const msg = formatSyslog(
+      makeEntry({ reason: 'said "hi" ] \\ done', approver: "bob" }),
+      "host1"
+    );
+    expect(msg).toContain('decision="BLOCKED"');
+    expect(msg).toContain('source_repo="org/alpha"');
+    expect(msg).toContain('schema_valid="true"');
+    expect(msg).toContain('seq="4"');
+    expect(msg).toContain('reason="said \\"hi\\" \\] \\\\ done"');
+  });
+
+  test("severity follows the event type", () => {
+    const pass = formatSyslog(
+      makeEntry({ event_type: "filter_pass", decision: "ALLOWED", matched_patterns: [] }),
+      "h"
+    );
+    expect(pass.startsWith("<110>1 ")).toBe(true);
+    expect(pass).not.toContain("matched_patterns=");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OCSF
+// ---------------------------------------------------------------------------
+
+describe("formatOcsf", () => {
+  test("Detection Finding with mapped fields", () => {
+    const event = formatOcsf(makeEntry({ approver: "alice" }));
+    expect(event).toMatchObject({
+      class_uid: 2004,
+      category_uid: 2,
+      type_uid: 200401,
+      time: Date.parse("2026-03-02T09:00:00.000Z"),
+      severity_id: 4,
+      action: "Denied",
+      disposition: "BLOCKED",
+      metadata: { product: { name: "content-filter", vendor_name: "metafactory" }, sequence: 4 },
+      finding_info: { uid: hashContent("blocked"), types: ["filter_block"] },
+      actor: { user: { name: "alice" } },
+      unmapped: { session_id: "sess-1", source_repo: "org/alpha", encoding_detections: ["base64"] },
+    });
+    expect((event.finding_info as { analytic_list: unknown[] }).analytic_list).toEqual([
+      { uid: "PI-001", type_id: 1, type: "Rule" },
+      { uid: "PI-002", type_id: 1, type: "Rule" },
+    ]);
+  });
+
+  test("allowed entries have no actor and action Allowed", () => {
+    const event = formatOcsf(makeEntry({ event_type: "filter_pass", decision: "ALLOWED" }));
+    expect(event.action).toBe("Allowed");
+    expect(event.actor).toBeUndefined();
+    expect(event.severity_id).toBe(1);
+  });
+
+  test("formatAuditRecord emits compact single-line JSON", () => {
+    const line = formatAuditRecord(makeEntry(), "ocsf");
+    expect(line.includes("\n")).toBe(false);
+    expect(JSON.parse(line).class_uid).toBe(2004);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+describe("CSV", () => {
+  test("header lists the columns", () => {
+    expect(csvHeader()).toBe(AUDIT_CSV_COLUMNS.join(","));
+  });
+
+  test("row follows the header, lists joined with semicolons", () => {
+    const row = formatCsvRow(makeEntry());
+    expect(row).toBe(
+      [
+        "2026-03-02T09:00:00.000Z",
+        "4",
+        "sess-1",
+        "filter_block",
+        "BLOCKED",
+        "org/alpha",
+        "alpha/README.md",
+        hashContent("blocked"),
+        "PI-001;PI-002",
+        "base64",
+        "true",
+        "markdown",
+        "",
+        "",
+        "",
+      ].join(",")
+    );
+  });
+
+  test("quotes commas, quotes and newlines", () => {
+    const row = formatCsvRow(makeEntry({ reason: 'a, "b"\nc' }));
+    expect(row).toContain('"a, ""b""\nc"');
+  });
+
+  test("neutralizes spreadsheet formulas", () => {
+    const row = formatCsvRow(makeEntry({ source_file: "=HYPERLINK(\"x\")" }));
+    expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// exportAuditLog / CLI
+// ---------------------------------------------------------------------------
+
+describe("exportAuditLog", () => {
+  function seed(dir: string): void {
+    const config = buildAuditConfig(dir);
+    logAuditEntry(makeEntry({ timestamp: "2026-03-02T09:00:00.000Z" }), config);
+    logAuditEntry(
+      makeEntry({
+        timestamp: "2026-03-03T09:00:00.000Z",
+        event_type: "override",
+        decision: "OVERRIDE",
+        approver: "alice",
+        source_repo: "org/beta",
+      }),
+      config
+    );
+  }
+
+  test("exports oldest first, with chain positions", () => {
+    const dir = freshDir("order");
+    seed(dir);
+    const lines = [...exportAuditLog(buildAuditConfig(dir), "ocsf")].map((l) => JSON.parse(l));
+    expect(lines.map((e) => e.disposition)).toEqual(["BLOCKED", "OVERRIDE"]);
+    expect(lines.map((e) => e.metadata.sequence)).toEqual([0, 1]);
+  });
+
+  test("CSV starts with the header and honors the query", () => {
+    const dir = freshDir("csv");
+    seed(dir);
+    const lines = [...exportAuditLog(buildAuditConfig(dir), "csv", { sourceRepo: "org/beta" })];
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toBe(csvHeader());
+    expect(lines[1]).toContain("OVERRIDE");
+  });
+
+  test("missing log exports nothing (CSV: header only)", () => {
+    const config = buildAuditConfig(join(TMP_BASE, "missing"));
+    expect([...exportAuditLog(config, "cef")]).toEqual([]);
+    expect([...exportAuditLog(config, "csv")]).toEqual([csvHeader()]);
+  });
+
+  async function runCli(args: string[]) {
+    const proc = Bun.spawn(["bun", "run", CLI, ...args], { stdout: "pipe", stderr: "pipe" });
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ]);
+    return { exitCode: await proc.exited, stdout, stderr };
+  }
+
+  test("audit export --format cef prints one line per entry", async () => {
+    const dir = freshDir("cli");
+    seed(dir);
+    const { exitCode, stdout } = await runCli(["audit", "export", "--format", "cef", "--log-dir", dir]);
+    expect(exitCode).toBe(0);
+    const lines = stdout.trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(lines.every((l) => l.startsWith("CEF:0|metafactory|content-filter|"))).toBe(true);
+  });
+
+  test("audit export --decision filters entries", async () => {
+    const dir = freshDir("cli-decision");
+    seed(dir);
+    const { stdout } = await runCli([
+      "audit", "export", "--format", "syslog", "--decision", "OVERRIDE", "--log-dir", dir,
+    ]);
+    expect(stdout.trim().split("\n")).toHaveLength(1);
+    expect(stdout).toContain(" override [content-filter@32473 ");
+  });
+
+  test("audit export rejects a missing or unknown format", async () => {
+    const dir = freshDir("cli-bad");
+    expect((await runCli(["audit", "export", "--log-dir", dir])).exitCode).toBe(1);
+    const bad = await runCli(["audit", "export", "--format", "xml", "--log-dir", dir]);
+    expect(bad.exitCode).toBe(1);
+    expect(bad.stderr).toContain("cef|syslog|ocsf|csv");
+  });
+});
@@ -0,0 +1,322 @@
+import { describe, test, expect, afterAll, afterEach } from "bun:test";
+import { join } from "path";
+import { existsSync, mkdirSync, readdirSync, renameSync, rmSync, writeFileSync } from "fs";
+import { buildAuditConfig, hashContent, logAuditEntry } from "../src/lib/audit";
+import {
+  buildForwardConfig,
+  deliverRecord,
+  flushAuditSpool,
+  parseForwardTarget,
+  resolveForwardConfig,
+  settleAuditForwarding,
+  spoolAuditEntry,
+} from "../src/lib/audit-forward";
+import type { AuditEntry, AuditForwardConfig } from "../src/lib/types";
+
+const TMP_BASE = `/private/tmp/claude-503/audit-forward-test-${Date.now()}`;
+
+function freshDir(label: string): string {
+  const dir = join(
+    TMP_BASE,
+    `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+function makeEntry(overrides?: Partial<AuditEntry>): AuditEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    session_id: "sess-1",
+    event_type: "filter_block",
+    source_repo: "org/alpha",
+    source_file: "alpha/README.md",
+    content_hash: hashContent("blocked"),
+    decision: "BLOCKED",
+    matched_patterns: ["PI-001"],
+    encoding_detections: [],
+    schema_valid: true,
+    format: "markdown",
+    ...overrides,
+  };
+}
+
+/**
+ * Local HTTP collector recording every POST body. `failures` requests
+ * are answered 503 first.
+ */
+function startCollector(failures = 0) {
+  const received: { body: string; type: string | null }[] = [];
+  let remaining = failures;
+  const server = Bun.serve({
+    port: 0,
+    hostname: "127.0.0.1",
+    async fetch(req) {
+      if (remaining > 0) {
+        remaining--;
+        return new Response("busy", { status: 503 });
+      }
+      received.push({ body: await req.text(), type: req.headers.get("content-type") });
+      return new Response("ok");
+    },
+  });
+  return { server, received, url: `http://127.0.0.1:${server.port}/ingest` };
+}
+
+const servers: { stop(force?: boolean): void }[] = [];
+afterEach(() => {
+  for (const s of servers.splice(0)) s.stop(true);
+});
+
+function forwardTo(url: string, overrides?: Partial<AuditForwardConfig>): AuditForwardConfig {
+  return buildForwardConfig(url, {
+    spoolDir: freshDir("spool"),
+    retries: 2,
+    timeoutMs: 1000,
+    ...overrides,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Targets and config
+// ---------------------------------------------------------------------------
+
+describe("parseForwardTarget", () => {
+  test("accepts unix sockets and loopback udp/http", () => {
+    expect(parseForwardTarget("unix:///dev/log")).toEqual({ kind: "unix", path: "/dev/log" });
+    expect(parseForwardTarget("udp://127.0.0.1")).toEqual({
+      kind: "udp",
+      host: "127.0.0.1",
+      port: 514,
+    });
+    expect(parseForwardTarget("udp://[::1]:5514")).toEqual({ kind: "udp", host: "::1", port: 5514 });
+    expect(parseForwardTarget("http://localhost:8088/services/collector")).toEqual({
+      kind: "http",
+      url: "http://localhost:8088/services/collector",
+    });
+  });
+
+  test("rejects remote hosts, unknown schemes and junk", () => {
+    expect(() => parseForwardTarget("http://siem.example.com/ingest")).toThrow("loopback");
+    expect(() => parseForwardTarget("udp://10.0.0.5:514")).toThrow("loopback");
+    expect(() => parseForwardTarget("tcp://127.0.0.1:514")).toThrow("Unsupported");
+    expect(() => parseForwardTarget("not a url")).toThrow("Invalid");
+  });
+});
+
+describe("buildForwardConfig / resolveForwardConfig", () => {
+  const saved = {
+    target: process.env.CONTENT_FILTER_AUDIT_FORWARD,
+    format: process.env.CONTENT_FILTER_AUDIT_FORWARD_FORMAT,
+    spool: process.env.CONTENT_FILTER_AUDIT_SPOOL_DIR,
+  };
+
+  afterAll(() => {
+    const restore = (key: string, value: string | undefined) => {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    };
+    restore("CONTENT_FILTER_AUDIT_FORWARD", saved.target);
+    restore("CONTENT_FILTER_AUDIT_FORWARD_FORMAT", saved.format);
+    restore("CONTENT_FILTER_AUDIT_SPOOL_DIR", saved.spool);
+  });
+
+  test("format defaults to syslog for sockets and ocsf for http", () => {
+    expect(buildForwardConfig("unix:///dev/log").format).toBe("syslog");
+    expect(buildForwardConfig("udp://127.0.0.1:514").format).toBe("syslog");
+    expect(buildForwardConfig("http://127.0.0.1:9000/").format).toBe("ocsf");
+  });
+
+  test("csv and unknown formats are rejected", () => {
+    expect(() => buildForwardConfig("unix:///dev/log", { format: "csv" as never })).toThrow();
+    expect(() => buildForwardConfig("unix:///dev/log", { format: "xml" as never })).toThrow();
+  });
+
+  test("environment configures forwarding", () => {
+    delete process.env.CONTENT_FILTER_AUDIT_FORWARD;
+    expect(resolveForwardConfig()).toBeUndefined();
+
+    process.env.CONTENT_FILTER_AUDIT_FORWARD = "http://127.0.0.1:9000/x";
+    process.env.CONTENT_FILTER_AUDIT_FORWARD_FORMAT = "cef";
+    process.env.CONTENT_FILTER_AUDIT_SPOOL_DIR = "/tmp/spool-x";
+    expect(resolveForwardConfig()).toMatchObject({
+      target: "http://127.0.0.1:9000/x",
+      format: "cef",
+      spoolDir: "/tmp/spool-x",
+    });
+
+    process.env.CONTENT_FILTER_AUDIT_FORWARD = "http://collector.example.com/";
+    expect(() => resolveForwardConfig()).toThrow("loopback");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+describe("deliverRecord", () => {
+  test("posts to an HTTP collector", async () => {
+    const c = startCollector();
+    servers.push(c.server);
+    await deliverRecord('{"a":1}', forwardTo(c.url));
+    expect(c.received).toEqual([{ body: '{"a":1}', type: "application/json" }]);
+  });
+
+  test("writes a newline-terminated record to a unix socket", async () => {
+    const path = join(freshDir("sock"), "syslog.sock");
+    let data = "";
+    const listener = Bun.listen({
+      unix: path,
+      socket: { data(_s, chunk) { data += chunk.toString(); } },
+    });
+    servers.push(listener);
+
+    await deliverRecord("<108>1 hello", forwardTo(`unix://${path}`));
+    for (let i = 0; i < 50 && data === ""; i++) await Bun.sleep(10);
+    expect(data).toBe("<108>1 hello\n");
+  });
+
+  test("sends a datagram over udp", async () => {
+    const got: string[] = [];
+    const socket = await Bun.udpSocket({
+      hostname: "127.0.0.1",
+      socket: { data(_s, buf) { got.push(buf.toString()); } },
+    });
+    servers.push({ stop: () => socket.close() });
+
+    await deliverRecord("<108>1 udp", forwardTo(`udp://127.0.0.1:${socket.port}`));
+    for (let i = 0; i < 50 && got.length === 0; i++) await Bun.sleep(10);
+    expect(got).toEqual(["<108>1 udp"]);
+  });
+
+  test("non-2xx and unreachable collectors reject", async () => {
+    const c = startCollector(1);
+    servers.push(c.server);
+    await expect(deliverRecord("x", forwardTo(c.url))).rejects.toThrow("HTTP 503");
+    await expect(
+      deliverRecord("x", forwardTo(`unix://${join(TMP_BASE, "no-such.sock")}`))
+    ).rejects.toThrow();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Spool
+// ---------------------------------------------------------------------------
+
+describe("spool", () => {
+  test("flush delivers spooled records in order and empties the spool", async () => {
+    const c = startCollector();
+    servers.push(c.server);
+    const forward = forwardTo(c.url, { format: "cef" });
+    spoolAuditEntry(makeEntry({ source_file: "one.md" }), forward);
+    spoolAuditEntry(makeEntry({ source_file: "two.md" }), forward);
+
+    const result = await flushAuditSpool(forward);
+    expect(result).toEqual({ delivered: 2, pending: 0 });
+    expect(c.received.map((r) => r.body.includes("one.md"))).toEqual([true, false]);
+    expect(c.received[0]!.type).toBe("text/plain");
+    expect(readdirSync(forward.spoolDir)).toEqual([]);
+  });
+
+  test("retries a failing collector before giving up", async () => {
+    const c = startCollector(1);
+    servers.push(c.server);
+    const forward = forwardTo(c.url);
+    spoolAuditEntry(makeEntry(), forward);
+
+    expect(await flushAuditSpool(forward)).toEqual({ delivered: 1, pending: 0 });
+    expect(c.received).toHaveLength(1);
+  });
+
+  test("a collector that stays down leaves records spooled for later", async () => {
+    const c = startCollector(100);
+    servers.push(c.server);
+    const forward = forwardTo(c.url);
+    spoolAuditEntry(makeEntry({ source_file: "one.md" }), forward);
+    spoolAuditEntry(makeEntry({ source_file: "two.md" }), forward);
+
+    const down = await flushAuditSpool(forward);
+    expect(down.delivered).toBe(0);
+    expect(down.pending).toBe(2);
+    expect(down.error).toContain("HTTP 503");
+
+    const up = startCollector();
+    servers.push(up.server);
+    const later = await flushAuditSpool({ ...forward, target: up.url });
+    expect(later).toEqual({ delivered: 2, pending: 0 });
+    expect(up.received.map((r) => JSON.parse(r.body).resources[0].name)).toEqual([
+      "one.md",
+      "two.md",
+    ]);
+  });
+
+  test("concurrent flushes deliver each record once", async () => {
+    const c = startCollector();
+    servers.push(c.server);
+    const forward = forwardTo(c.url);
+    for (let i = 0; i < 5; i++) spoolAuditEntry(makeEntry({ source_file: `f${i}.md` }), forward);
+
+    const results = await Promise.all([flushAuditSpool(forward), flushAuditSpool(forward)]);
+    expect(results[0]!.delivered + results[1]!.delivered).toBe(5);
+    expect(c.received).toHaveLength(5);
+  });
+
+  test("records claimed by a dead flush are released after the claim expires", async () => {
+    const c = startCollector();
+    servers.push(c.server);
+    const forward = forwardTo(c.url);
+    const name = spoolAuditEntry(makeEntry(), forward);
+    renameSync(
+      join(forward.spoolDir, name),
+      join(forward.spoolDir, `${name}.${Date.now() - 120_000}.sending`)
+    );
+    writeFileSync(join(forward.spoolDir, "unrelated.txt"), "x");
+
+    expect(await flushAuditSpool(forward)).toEqual({ delivered: 1, pending: 0 });
+  });
+
+  test("missing spool directory flushes nothing", async () => {
+    const forward = forwardTo("http://127.0.0.1:9/", { spoolDir: join(TMP_BASE, "none") });
+    expect(await flushAuditSpool(forward)).toEqual({ delivered: 0, pending: 0 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// logAuditEntry integration
+// ---------------------------------------------------------------------------
+
+describe("logAuditEntry with forwarding", () => {
+  test("forwards the stored entry, including its chain position", async () => {
+    const c = startCollector();
+    servers.push(c.server);
+    const forward = forwardTo(c.url);
+    const config = buildAuditConfig(freshDir("log"), { forward });
+
+    logAuditEntry(makeEntry(), config);
+    logAuditEntry(makeEntry({ source_file: "second.md" }), config);
+    await settleAuditForwarding();
+
+    expect(c.received.map((r) => JSON.parse(r.body).metadata.sequence)).toEqual([0, 1]);
+    expect(existsSync(forward.spoolDir) && readdirSync(forward.spoolDir)).toEqual([]);
+  });
+
+  test("audit write still succeeds when the collector is down", async () => {
+    const forward = forwardTo(`unix://${join(TMP_BASE, "down.sock")}`, { retries: 1 });
+    const dir = freshDir("down");
+    const config = buildAuditConfig(dir, { forward });
+
+    logAuditEntry(makeEntry(), config);
+    await settleAuditForwarding();
+
+    expect(readdirSync(dir).some((f) => f.endsWith(".jsonl"))).toBe(true);
+    expect(readdirSync(forward.spoolDir).filter((f) => f.endsWith(".rec"))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdirSync, rmSync, readFileSync, statSync, writeFileSync } from "fs";
+import {
+  currentSigningKey,
+  keyIdFor,
+  loadSigningKey,
+  resolveSigningKeyDir,
+  rotateSigningKey,
+  signPayload,
+  verifyPayload,
+  DEFAULT_KEY_DIR,
+} from "../src/lib/audit-keys";
+
+const TMP_BASE = `/private/tmp/claude-503/audit-keys-test-${Date.now()}`;
+
+function freshDir(label: string): string {
+  const dir = join(
+    TMP_BASE,
+    `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+describe("currentSigningKey", () => {
+  test("generates a key on first use", () => {
+    const dir = join(freshDir("first-use"), "keys");
+    const key = currentSigningKey(dir);
+
+    expect(key.id).toMatch(/^[0-9a-f]{16}$/);
+    expect(key.key.length).toBe(32);
+    expect(readFileSync(join(dir, "current"), "utf-8").trim()).toBe(key.id);
+    expect(statSync(join(dir, `${key.id}.key`)).mode & 0o777).toBe(0o600);
+  });
+
+  test("returns the same key on later calls", () => {
+    const dir = freshDir("stable");
+    const first = currentSigningKey(dir);
+    const second = currentSigningKey(dir);
+    expect(second.id).toBe(first.id);
+    expect(second.key.equals(first.key)).toBe(true);
+  });
+
+  test("regenerates when the current key file is missing", () => {
+    const dir = freshDir("missing");
+    writeFileSync(join(dir, "current"), "0123456789abcdef\n");
+    const key = currentSigningKey(dir);
+    expect(key.id).not.toBe("0123456789abcdef");
+  });
+});
+
+describe("rotateSigningKey", () => {
+  test("activates a new key and keeps the old one", () => {
+    const dir = freshDir("rotate");
+    const old = currentSigningKey(dir);
+    const rotated = rotateSigningKey(dir);
+
+    expect(rotated.id).not.toBe(old.id);
+    expect(currentSigningKey(dir).id).toBe(rotated.id);
+    expect(loadSigningKey(dir, old.id)!.key.equals(old.key)).toBe(true);
+  });
+});
+
+describe("loadSigningKey", () => {
+  test("rejects a key whose bytes do not match its ID", () => {
+    const dir = freshDir("mismatch");
+    const key = currentSigningKey(dir);
+    writeFileSync(join(dir, `${key.id}.key`), "ab".repeat(32) + "\n");
+    expect(loadSigningKey(dir, key.id)).toBeNull();
+  });
+
+  test("rejects IDs that are not key IDs", () => {
+    const dir = freshDir("bad-id");
+    expect(loadSigningKey(dir, "../../etc/passwd")).toBeNull();
+    expect(loadSigningKey(dir, "0123456789abcdef")).toBeNull();
+  });
+});
+
+describe("signPayload / verifyPayload", () => {
+  const key = { id: keyIdFor(Buffer.alloc(32, 1)), key: Buffer.alloc(32, 1) };
+  const other = { id: keyIdFor(Buffer.alloc(32, 2)), key: Buffer.alloc(32, 2) };
+
+  test("round-trips", () => {
+    expect(verifyPayload("payload", signPayload("payload", key), key)).toBe(true);
+  });
+
+  test("rejects a changed payload, another key or a malformed signature", () => {
+    const sig = signPayload("payload", key);
+    expect(verifyPayload("payload!", sig, key)).toBe(false);
+    expect(verifyPayload("payload", sig, other)).toBe(false);
+    expect(verifyPayload("payload", "nothex", key)).toBe(false);
+  });
+});
+
+describe("resolveSigningKeyDir", () => {
+  const saved = {
+    sign: process.env.CONTENT_FILTER_AUDIT_SIGN,
+    dir: process.env.CONTENT_FILTER_KEY_DIR,
+  };
+
+  afterAll(() => {
+    if (saved.sign === undefined) delete process.env.CONTENT_FILTER_AUDIT_SIGN;
+    else process.env.CONTENT_FILTER_AUDIT_SIGN = saved.sign;
+    if (saved.dir === undefined) delete process.env.CONTENT_FILTER_KEY_DIR;
+    else process.env.CONTENT_FILTER_KEY_DIR = saved.dir;
+  });
+
+  test("signing is off by default", () => {
+    delete process.env.CONTENT_FILTER_AUDIT_SIGN;
+    expect(resolveSigningKeyDir()).toBeUndefined();
+  });
+
+  test("CONTENT_FILTER_AUDIT_SIGN=on uses the default key dir", () => {
+    process.env.CONTENT_FILTER_AUDIT_SIGN = "on";
+    delete process.env.CONTENT_FILTER_KEY_DIR;
+    expect(resolveSigningKeyDir()).toBe(DEFAULT_KEY_DIR);
+  });
+
+  test("CONTENT_FILTER_KEY_DIR overrides the key dir", () => {
+    process.env.CONTENT_FILTER_AUDIT_SIGN = "on";
+    process.env.CONTENT_FILTER_KEY_DIR = "/tmp/custom-keys";
+    expect(resolveSigningKeyDir()).toBe("/tmp/custom-keys");
+  });
+});
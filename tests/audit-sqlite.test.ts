@@ -0,0 +1,298 @@
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync } from "fs";
+import {
+  buildAuditConfig,
+  currentLogName,
+  generateSessionId,
+  hashContent,
+  logAuditEntry,
+  openAuditSink,
+  readAuditLog,
+  verifyAuditLog,
+} from "../src/lib/audit";
+import { createSqliteSink, migrateJsonlToSqlite, sqliteDbPath } from "../src/lib/audit-sqlite";
+import type { AuditConfig, AuditEntry } from "../src/lib/types";
+
+const TMP_BASE = `/private/tmp/claude-503/audit-sqlite-test-${Date.now()}`;
+
+function freshDir(label: string): string {
+  const dir = join(
+    TMP_BASE,
+    `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+function makeEntry(overrides?: Partial<AuditEntry>): AuditEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    session_id: generateSessionId(),
+    event_type: "filter_block",
+    source_repo: "",
+    source_file: "test.md",
+    content_hash: hashContent("test-content"),
+    decision: "BLOCKED",
+    matched_patterns: ["PI-001"],
+    encoding_detections: [],
+    schema_valid: true,
+    format: "markdown",
+    ...overrides,
+  };
+}
+
+/**
+ * Five entries spread over three days, two repos and two approvers.
+ */
+function seed(config: AuditConfig): void {
+  logAuditEntry(
+    makeEntry({
+      timestamp: "2026-03-01T10:00:00.000Z",
+      session_id: "s1",
+      source_repo: "org/alpha",
+      source_file: "alpha/README.md",
+      matched_patterns: ["PI-001", "PI-002"],
+    }),
+    config
+  );
+  logAuditEntry(
+    makeEntry({
+      timestamp: "2026-03-02T10:00:00.000Z",
+      session_id: "s1",
+      source_repo: "org/alpha",
+      source_file: "alpha/docs/guide.md",
+      decision: "OVERRIDE",
+      event_type: "override",
+      approver: "alice",
+      matched_patterns: ["PI-002"],
+    }),
+    config
+  );
+  logAuditEntry(
+    makeEntry({
+      timestamp: "2026-03-02T12:00:00.000Z",
+      session_id: "s2",
+      source_repo: "org/beta",
+      source_file: "beta/EXTEND.yaml",
+      format: "yaml",
+      decision: "ALLOWED",
+      event_type: "filter_pass",
+      matched_patterns: [],
+      content_hash: hashContent("beta"),
+    }),
+    config
+  );
+  logAuditEntry(
+    makeEntry({
+      timestamp: "2026-03-03T09:00:00.000Z",
+      session_id: "s2",
+      source_repo: "org/beta",
+      source_file: "beta/docs/notes.md",
+      decision: "HUMAN_APPROVED",
+      event_type: "human_approve",
+      approver: "bob",
+      matched_patterns: ["PII-007"],
+    }),
+    config
+  );
+  logAuditEntry(
+    makeEntry({
+      timestamp: "2026-03-03T11:00:00.000Z",
+      session_id: "s3",
+      source_repo: "org/alpha",
+      source_file: "alpha/docs/api.md",
+      matched_patterns: ["PI-001"],
+    }),
+    config
+  );
+}
+
+const ids = (entries: AuditEntry[]): string[] => entries.map((e) => e.source_file);
+
+// Every query runs against both backends and must agree
+for (const backend of ["jsonl", "sqlite"] as const) {
+  describe(`audit queries (${backend})`, () => {
+    let config: AuditConfig;
+
+    beforeEach(() => {
+      config = buildAuditConfig(freshDir(backend), { backend });
+      seed(config);
+    });
+
+    test("returns every entry newest first", () => {
+      expect(ids(readAuditLog(config))).toEqual([
+        "alpha/docs/api.md",
+        "beta/docs/notes.md",
+        "beta/EXTEND.yaml",
+        "alpha/docs/guide.md",
+        "alpha/README.md",
+      ]);
+    });
+
+    test("time range is inclusive of since and exclusive of until", () => {
+      const entries = readAuditLog(config, {
+        since: "2026-03-02T10:00:00.000Z",
+        until: "2026-03-03T09:00:00.000Z",
+      });
+      expect(ids(entries)).toEqual(["beta/EXTEND.yaml", "alpha/docs/guide.md"]);
+    });
+
+    test("filters by session_id, source_repo, approver and content_hash", () => {
+      expect(readAuditLog(config, { sessionId: "s2" }).length).toBe(2);
+      expect(readAuditLog(config, { sourceRepo: "org/alpha" }).length).toBe(3);
+      expect(ids(readAuditLog(config, { approver: "alice" }))).toEqual(["alpha/docs/guide.md"]);
+      expect(ids(readAuditLog(config, { contentHash: hashContent("beta") }))).toEqual([
+        "beta/EXTEND.yaml",
+      ]);
+    });
+
+    test("filters by source_file glob", () => {
+      expect(ids(readAuditLog(config, { sourceFile: "*/docs/*.md" }))).toEqual([
+        "alpha/docs/api.md",
+        "beta/docs/notes.md",
+        "alpha/docs/guide.md",
+      ]);
+      expect(ids(readAuditLog(config, { sourceFile: "beta/**", last: 1 }))).toEqual([
+        "beta/docs/notes.md",
+      ]);
+    });
+
+    test("filters by pattern ID", () => {
+      expect(ids(readAuditLog(config, { patternId: "PI-002" }))).toEqual([
+        "alpha/docs/guide.md",
+        "alpha/README.md",
+      ]);
+    });
+
+    test("combines filters and the last limit", () => {
+      const entries = readAuditLog(config, {
+        sourceRepo: "org/alpha",
+        patternId: "PI-001",
+        last: 1,
+      });
+      expect(ids(entries)).toEqual(["alpha/docs/api.md"]);
+    });
+
+    test("hash chain verifies", () => {
+      const result = verifyAuditLog(config);
+      expect(result.valid).toBe(true);
+      expect(result.entries).toBe(5);
+    });
+  });
+}
+
+// ============================================================
+// sqlite sink specifics
+// ============================================================
+
+describe("sqlite sink", () => {
+  test("stores entries in logDir/audit.db, not JSONL", () => {
+    const config = buildAuditConfig(freshDir("db"), { backend: "sqlite" });
+    logAuditEntry(makeEntry(), config);
+
+    expect(existsSync(sqliteDbPath(config))).toBe(true);
+    expect(existsSync(join(config.logDir, currentLogName()))).toBe(false);
+    expect(openAuditSink(config).backend).toBe("sqlite");
+  });
+
+  test("reading a missing database does not create it", () => {
+    const config = buildAuditConfig(freshDir("missing"), { backend: "sqlite" });
+    expect(readAuditLog(config)).toEqual([]);
+    expect(existsSync(sqliteDbPath(config))).toBe(false);
+  });
+
+  test("chains entries like the JSONL sink", () => {
+    const config = buildAuditConfig(freshDir("chain"), { backend: "sqlite" });
+    for (let i = 0; i < 3; i++) logAuditEntry(makeEntry(), config);
+
+    const sink = createSqliteSink(config);
+    const lines = [...sink.lines()].map((l) => l.text);
+    sink.close();
+    expect(lines.map((l) => JSON.parse(l).seq)).toEqual([0, 1, 2]);
+    expect(JSON.parse(lines[2]!).prev_hash).toBe(hashContent(lines[1]!));
+  });
+
+  test("signs entries and reports signature_valid", () => {
+    const dir = freshDir("signed");
+    const config = buildAuditConfig(join(dir, "audit"), {
+      backend: "sqlite",
+      signingKeyDir: join(dir, "keys"),
+    });
+    logAuditEntry(makeEntry(), config);
+
+    const [entry] = readAuditLog(config);
+    expect(entry!.key_id).toBeDefined();
+    expect(entry!.signature_valid).toBe(true);
+  });
+});
+
+// ============================================================
+// migrateJsonlToSqlite
+// ============================================================
+
+describe("migrateJsonlToSqlite", () => {
+  test("imports every monthly and rotated file", () => {
+    const dir = freshDir("migrate");
+    const jsonl = buildAuditConfig(dir);
+    logAuditEntry(makeEntry({ timestamp: "2026-01-15T00:00:00.000Z" }), jsonl);
+    logAuditEntry(makeEntry({ timestamp: "2026-01-16T00:00:00.000Z" }), jsonl);
+    // Move the chain's start into an earlier month and a rotated file
+    const current = join(dir, currentLogName());
+    const [first, second] = readFileSync(current, "utf-8").trim().split("\n");
+    writeFileSync(join(dir, "audit-2026-01.1.jsonl"), first + "\n");
+    writeFileSync(join(dir, "audit-2026-01.jsonl"), second + "\n");
+    rmSync(current);
+    logAuditEntry(makeEntry(), jsonl);
+
+    const result = migrateJsonlToSqlite(jsonl);
+    expect(result.files.length).toBe(3);
+    expect(result.imported).toBe(3);
+    expect(result.db).toBe(sqliteDbPath(jsonl));
+
+    const sqlite = buildAuditConfig(dir, { backend: "sqlite" });
+    expect(readAuditLog(sqlite).length).toBe(3);
+    expect(verifyAuditLog(sqlite).valid).toBe(true);
+  });
+
+  test("is idempotent and counts malformed lines", () => {
+    const dir = freshDir("rerun");
+    const jsonl = buildAuditConfig(dir);
+    logAuditEntry(makeEntry(), jsonl);
+    writeFileSync(
+      join(dir, currentLogName()),
+      readFileSync(join(dir, currentLogName()), "utf-8") + "not json\n"
+    );
+
+    const first = migrateJsonlToSqlite(jsonl);
+    expect(first.imported).toBe(1);
+    expect(first.malformed).toBe(1);
+
+    const second = migrateJsonlToSqlite(jsonl);
+    expect(second.imported).toBe(0);
+    expect(second.skipped).toBe(1);
+  });
+
+  test("sqlite appends continue the migrated chain", () => {
+    const dir = freshDir("continue");
+    const jsonl = buildAuditConfig(dir);
+    logAuditEntry(makeEntry(), jsonl);
+    logAuditEntry(makeEntry(), jsonl);
+    migrateJsonlToSqlite(jsonl);
+
+    const sqlite = buildAuditConfig(dir, { backend: "sqlite" });
+    logAuditEntry(makeEntry(), sqlite);
+
+    const result = verifyAuditLog(sqlite);
+    expect(result.valid).toBe(true);
+    expect(result.last_seq).toBe(2);
+  });
+});
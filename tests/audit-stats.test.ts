@@ -0,0 +1,371 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdirSync, rmSync } from "fs";
+import {
+  buildAuditConfig,
+  generateSessionId,
+  hashContent,
+  logAuditEntry,
+} from "../src/lib/audit";
+import { formatAuditSummary, statsPeriod, summarizeAudit } from "../src/lib/audit-stats";
+import type { AuditConfig, AuditEntry } from "../src/lib/types";
+
+const TMP_BASE = `/private/tmp/claude-503/audit-stats-test-${Date.now()}`;
+const CLI = join(import.meta.dir, "..", "src", "cli.ts");
+
+function freshDir(label: string): string {
+  const dir = join(
+    TMP_BASE,
+    `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+function makeEntry(overrides?: Partial<AuditEntry>): AuditEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    session_id: generateSessionId(),
+    event_type: "filter_block",
+    source_repo: "org/alpha",
+    source_file: "alpha/README.md",
+    content_hash: hashContent("blocked"),
+    decision: "BLOCKED",
+    matched_patterns: ["PI-001"],
+    encoding_detections: [],
+    schema_valid: true,
+    format: "markdown",
+    ...overrides,
+  };
+}
+
+/**
+ * A week of activity: blocks, an override, a bypass, two reviews of which
+ * one is approved, and a clean pass.
+ */
+function seed(config: AuditConfig): void {
+  const review = {
+    event_type: "human_review" as const,
+    decision: "HUMAN_REVIEW" as const,
+    matched_patterns: ["PII-007"],
+  };
+  const entries: Partial<AuditEntry>[] = [
+    { timestamp: "2026-03-02T09:00:00.000Z", matched_patterns: ["PI-001", "PI-002"] },
+    { timestamp: "2026-03-02T10:00:00.000Z", source_file: "alpha/docs/a.md" },
+    {
+      timestamp: "2026-03-02T11:00:00.000Z",
+      event_type: "override",
+      decision: "OVERRIDE",
+      approver: "alice",
+      reason: "docs example",
+    },
+    {
+      timestamp: "2026-03-03T09:00:00.000Z",
+      source_repo: "org/beta",
+      source_file: "beta/x.yaml",
+      matched_patterns: ["EX-001"],
+      content_hash: hashContent("beta"),
+    },
+    {
+      timestamp: "2026-03-03T10:00:00.000Z",
+      source_repo: "org/beta",
+      source_file: "beta/x.yaml",
+      event_type: "content_filter_bypass",
+      decision: "ALLOWED",
+      approver: "bob",
+      matched_patterns: ["EX-001"],
+      content_hash: hashContent("beta"),
+    },
+    {
+      ...review,
+      timestamp: "2026-03-04T09:00:00.000Z",
+      source_file: "alpha/CONTACT.md",
+      content_hash: hashContent("contact"),
+    },
+    {
+      ...review,
+      timestamp: "2026-03-05T09:00:00.000Z",
+      source_file: "alpha/CONTACT.md",
+      content_hash: hashContent("contact"),
+    },
+    {
+      ...review,
+      timestamp: "2026-03-05T10:00:00.000Z",
+      source_file: "alpha/TEAM.md",
+      content_hash: hashContent("team"),
+    },
+    {
+      timestamp: "2026-03-05T11:00:00.000Z",
+      event_type: "human_approve",
+      decision: "HUMAN_APPROVED",
+      approver: "alice",
+      source_file: "alpha/TEAM.md",
+      matched_patterns: ["PII-007"],
+      content_hash: hashContent("team"),
+    },
+    {
+      timestamp: "2026-03-09T09:00:00.000Z",
+      event_type: "filter_pass",
+      decision: "ALLOWED",
+      matched_patterns: [],
+      source_file: "alpha/clean.md",
+      content_hash: hashContent("clean"),
+    },
+  ];
+  for (const e of entries) logAuditEntry(makeEntry(e), config);
+}
+
+// ---------------------------------------------------------------------------
+// statsPeriod
+// ---------------------------------------------------------------------------
+
+describe("statsPeriod", () => {
+  test("days, Monday-based weeks and months", () => {
+    expect(statsPeriod("2026-03-05T23:59:00.000Z", "day")).toBe("2026-03-05");
+    expect(statsPeriod("2026-03-05T23:59:00.000Z", "week")).toBe("2026-03-02");
+    expect(statsPeriod("2026-03-08T12:00:00.000Z", "week")).toBe("2026-03-02");
+    expect(statsPeriod("2026-03-02T00:00:00.000Z", "week")).toBe("2026-03-02");
+    expect(statsPeriod("2026-03-01T12:00:00.000Z", "week")).toBe("2026-02-23");
+    expect(statsPeriod("2026-03-05T23:59:00.000Z", "month")).toBe("2026-03");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// summarizeAudit
+// ---------------------------------------------------------------------------
+
+describe("summarizeAudit", () => {
+  test("empty or missing log summarizes to zero", () => {
+    const config = buildAuditConfig(join(TMP_BASE, "missing"));
+    const summary = summarizeAudit(config);
+    expect(summary.total_entries).toBe(0);
+    expect(summary.trend).toEqual([]);
+    expect(summary.review_backlog).toEqual([]);
+    expect(summary.first_timestamp).toBeNull();
+  });
+
+  test("decision totals and per-day trend", () => {
+    const config = buildAuditConfig(freshDir("trend"));
+    seed(config);
+    const summary = summarizeAudit(config);
+
+    expect(summary.total_entries).toBe(10);
+    expect(summary.first_timestamp).toBe("2026-03-02T09:00:00.000Z");
+    expect(summary.last_timestamp).toBe("2026-03-09T09:00:00.000Z");
+    expect(summary.decisions).toEqual({
+      BLOCKED: 3,
+      OVERRIDE: 1,
+      ALLOWED: 2,
+      HUMAN_REVIEW: 3,
+      HUMAN_APPROVED: 1,
+    });
+    expect(summary.trend.map((t) => t.period)).toEqual([
+      "2026-03-02",
+      "2026-03-03",
+      "2026-03-04",
+      "2026-03-05",
+      "2026-03-09",
+    ]);
+    expect(summary.trend[0]).toEqual({
+      period: "2026-03-02",
+      total: 3,
+      decisions: { BLOCKED: 2, OVERRIDE: 1 },
+    });
+  });
+
+  test("weekly buckets group by Monday", () => {
+    const config = buildAuditConfig(freshDir("weekly"));
+    seed(config);
+    const summary = summarizeAudit(config, { bucket: "week" });
+    expect(summary.bucket).toBe("week");
+    expect(summary.trend.map((t) => [t.period, t.total])).toEqual([
+      ["2026-03-02", 9],
+      ["2026-03-09", 1],
+    ]);
+  });
+
+  test("top patterns and top blocked repos/files", () => {
+    const config = buildAuditConfig(freshDir("top"));
+    seed(config);
+    const summary = summarizeAudit(config);
+
+    expect(summary.top_patterns[0]).toEqual({ key: "PII-007", count: 3 });
+    expect(summary.top_blocked_repos).toEqual([
+      { key: "org/alpha", count: 2 },
+      { key: "org/beta", count: 1 },
+    ]);
+    expect(summary.top_blocked_files).toEqual([
+      { key: "alpha/docs/a.md", count: 1 },
+      { key: "alpha/README.md", count: 1 },
+      { key: "beta/x.yaml", count: 1 },
+    ]);
+  });
+
+  test("top patterns count a blocked-then-overridden file once", () => {
+    const config = buildAuditConfig(freshDir("overridden"));
+    logAuditEntry(makeEntry({ timestamp: "2026-03-02T09:00:00.000Z" }), config);
+    logAuditEntry(
+      makeEntry({
+        timestamp: "2026-03-02T10:00:00.000Z",
+        event_type: "override",
+        decision: "OVERRIDE",
+        approver: "alice",
+      }),
+      config
+    );
+    expect(summarizeAudit(config).top_patterns).toEqual([{ key: "PI-001", count: 1 }]);
+  });
+
+  test("top limits every list", () => {
+    const config = buildAuditConfig(freshDir("limit"));
+    seed(config);
+    const summary = summarizeAudit(config, { top: 1 });
+    expect(summary.top_patterns).toHaveLength(1);
+    expect(summary.top_blocked_files).toHaveLength(1);
+    expect(summary.false_positive_candidates).toHaveLength(1);
+  });
+
+  test("counts overrides, bypasses and reviews per approver", () => {
+    const config = buildAuditConfig(freshDir("approvers"));
+    seed(config);
+    const summary = summarizeAudit(config);
+    expect(summary.approvers).toEqual([
+      { approver: "alice", overrides: 1, bypasses: 0, approvals: 1, rejections: 0 },
+      { approver: "bob", overrides: 0, bypasses: 1, approvals: 0, rejections: 0 },
+    ]);
+  });
+
+  test("backlog lists reviews without a later resolution", () => {
+    const config = buildAuditConfig(freshDir("backlog"));
+    seed(config);
+    const summary = summarizeAudit(config);
+
+    expect(summary.review_backlog).toEqual([
+      {
+        content_hash: hashContent("contact"),
+        source_repo: "org/alpha",
+        source_file: "alpha/CONTACT.md",
+        matched_patterns: ["PII-007"],
+        first_seen: "2026-03-04T09:00:00.000Z",
+        last_seen: "2026-03-05T09:00:00.000Z",
+        occurrences: 2,
+      },
+    ]);
+  });
+
+  test("a review requested again after approval is pending again", () => {
+    const config = buildAuditConfig(freshDir("reopen"));
+    seed(config);
+    logAuditEntry(
+      makeEntry({
+        timestamp: "2026-03-10T09:00:00.000Z",
+        event_type: "human_review",
+        decision: "HUMAN_REVIEW",
+        source_file: "alpha/TEAM.md",
+        content_hash: hashContent("team"),
+      }),
+      config
+    );
+    const pending = summarizeAudit(config).review_backlog.map((b) => b.source_file);
+    expect(pending).toEqual(["alpha/CONTACT.md", "alpha/TEAM.md"]);
+  });
+
+  test("false-positive candidates rank the most overridden patterns", () => {
+    const config = buildAuditConfig(freshDir("fp"));
+    seed(config);
+    const summary = summarizeAudit(config);
+    expect(summary.false_positive_candidates).toEqual([
+      { pattern_id: "EX-001", overridden: 1, blocked: 1, override_rate: 1 },
+      { pattern_id: "PI-001", overridden: 1, blocked: 2, override_rate: 0.5 },
+    ]);
+  });
+
+  test("since/until and repo narrow the summary", () => {
+    const config = buildAuditConfig(freshDir("range"));
+    seed(config);
+    const summary = summarizeAudit(config, {
+      since: "2026-03-03",
+      until: "2026-03-05",
+      sourceRepo: "org/beta",
+    });
+    expect(summary.since).toBe("2026-03-03");
+    expect(summary.total_entries).toBe(2);
+    expect(summary.approvers.map((a) => a.approver)).toEqual(["bob"]);
+  });
+
+  test("works on the sqlite backend", () => {
+    const config = buildAuditConfig(freshDir("sqlite"), { backend: "sqlite" });
+    seed(config);
+    const summary = summarizeAudit(config);
+    expect(summary.total_entries).toBe(10);
+    expect(summary.review_backlog).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Report output
+// ---------------------------------------------------------------------------
+
+describe("formatAuditSummary", () => {
+  test("prints every section", () => {
+    const config = buildAuditConfig(freshDir("format"));
+    seed(config);
+    const text = formatAuditSummary(summarizeAudit(config));
+    expect(text).toContain("Audit Statistics (10 entries, 2026-03-02 .. 2026-03-09)");
+    expect(text).toContain("Trend (per day):");
+    expect(text).toContain("alice: 1 overrides, 0 bypasses, 1 approvals, 0 rejections");
+    expect(text).toContain("HUMAN_REVIEW backlog (1 pending):");
+    expect(text).toContain("alpha/CONTACT.md  (PII-007)");
+    expect(text).toContain("EX-001: overridden 1x, blocked 1x (100% of blocks)");
+  });
+
+  test("empty sections say none", () => {
+    const text = formatAuditSummary(summarizeAudit(buildAuditConfig(join(TMP_BASE, "none"))));
+    expect(text).toContain("(0 entries, no entries)");
+    expect(text).toContain("Approvers:\n  (none)");
+  });
+});
+
+describe("content-filter audit stats", () => {
+  async function runCli(args: string[]) {
+    const proc = Bun.spawn(["bun", "run", CLI, ...args], {
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ]);
+    return { exitCode: await proc.exited, stdout, stderr };
+  }
+
+  test("--json prints the summary", async () => {
+    const dir = freshDir("cli");
+    seed(buildAuditConfig(dir));
+    const { exitCode, stdout } = await runCli([
+      "audit", "stats", "--log-dir", dir, "--bucket", "month", "--json",
+    ]);
+    expect(exitCode).toBe(0);
+    const summary = JSON.parse(stdout);
+    expect(summary.total_entries).toBe(10);
+    expect(summary.trend).toEqual([
+      expect.objectContaining({ period: "2026-03", total: 10 }),
+    ]);
+  });
+
+  test("rejects an unknown bucket", async () => {
+    const { exitCode, stderr } = await runCli([
+      "audit", "stats", "--log-dir", freshDir("cli-bad"), "--bucket", "year",
+    ]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("unknown bucket");
+  });
+});
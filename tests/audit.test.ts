@@ -6,6 +6,8 @@ import {
   readFileSync,
   writeFileSync,
   existsSync,
+  renameSync,
+  unlinkSync,
 } from "fs";
 import {
   logAuditEntry,
@@ -16,7 +18,19 @@ import {
   generateSessionId,
   currentLogName,
   rotateIfNeeded,
+  resolveAuditConfig,
+  DEFAULT_AUDIT_DIR,
+  listLogFiles,
+  chainHead,
+  verifyAuditLog,
+  GENESIS_HASH,
+  signEntry,
+  verifyEntrySignature,
+  applyRetention,
+  streamAuditLog,
 } from "../src/lib/audit";
+import { gzipSync, gunzipSync } from "zlib";
+import { currentSigningKey, rotateSigningKey } from "../src/lib/audit-keys";
 import type { AuditEntry, FilterResult } from "../src/lib/types";
 
 // ---------------------------------------------------------------------------
@@ -558,3 +572,431 @@ describe("readAuditLog", () => {
     expect(results[2]!.session_id).toBe("rotated-2");
   });
 });
+
+// ---------------------------------------------------------------------------
+// resolveAuditConfig
+// ---------------------------------------------------------------------------
+
+describe("resolveAuditConfig", () => {
+  const saved = {
+    dir: process.env.CONTENT_FILTER_AUDIT_DIR,
+    mode: process.env.CONTENT_FILTER_AUDIT,
+  };
+
+  afterAll(() => {
+    if (saved.dir === undefined) delete process.env.CONTENT_FILTER_AUDIT_DIR;
+    else process.env.CONTENT_FILTER_AUDIT_DIR = saved.dir;
+    if (saved.mode === undefined) delete process.env.CONTENT_FILTER_AUDIT;
+    else process.env.CONTENT_FILTER_AUDIT = saved.mode;
+  });
+
+  test("defaults to ~/.config/content-filter/audit", () => {
+    delete process.env.CONTENT_FILTER_AUDIT_DIR;
+    delete process.env.CONTENT_FILTER_AUDIT;
+    expect(resolveAuditConfig()!.logDir).toBe(DEFAULT_AUDIT_DIR);
+  });
+
+  test("CONTENT_FILTER_AUDIT_DIR overrides the directory", () => {
+    process.env.CONTENT_FILTER_AUDIT_DIR = "/tmp/custom-audit";
+    expect(resolveAuditConfig()!.logDir).toBe("/tmp/custom-audit");
+  });
+
+  test("CONTENT_FILTER_AUDIT_MAX_MONTHS enables retention", () => {
+    const saved = process.env.CONTENT_FILTER_AUDIT_MAX_MONTHS;
+    process.env.CONTENT_FILTER_AUDIT_MAX_MONTHS = "6";
+    expect(resolveAuditConfig()!.retention).toEqual({ maxMonths: 6, archive: true });
+    if (saved === undefined) delete process.env.CONTENT_FILTER_AUDIT_MAX_MONTHS;
+    else process.env.CONTENT_FILTER_AUDIT_MAX_MONTHS = saved;
+  });
+
+  test("CONTENT_FILTER_AUDIT=off disables logging", () => {
+    process.env.CONTENT_FILTER_AUDIT = "off";
+    expect(resolveAuditConfig()).toBeUndefined();
+  });
+});
+
+// ============================================================
+// Hash chain
+// ============================================================
+
+describe("hash chain", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = freshDir("chain");
+  });
+
+  function logLines(dir: string, name = currentLogName()): string[] {
+    return readFileSync(join(dir, name), "utf-8")
+      .split("\n")
+      .filter((l) => l.trim() !== "");
+  }
+
+  test("entries carry consecutive seq and link to the previous line", () => {
+    const config = buildAuditConfig(tempDir);
+    logAuditEntry(makeEntry({ session_id: "a" }), config);
+    logAuditEntry(makeEntry({ session_id: "b" }), config);
+    logAuditEntry(makeEntry({ session_id: "c" }), config);
+
+    const lines = logLines(tempDir);
+    const parsed = lines.map((l) => JSON.parse(l));
+    expect(parsed.map((e) => e.seq)).toEqual([0, 1, 2]);
+    expect(parsed[0].prev_hash).toBe(GENESIS_HASH);
+    expect(parsed[1].prev_hash).toBe(hashContent(lines[0]!));
+    expect(parsed[2].prev_hash).toBe(hashContent(lines[1]!));
+  });
+
+  test("chain head is genesis for an empty directory", () => {
+    expect(chainHead(buildAuditConfig(tempDir))).toEqual({ seq: 0, prevHash: GENESIS_HASH });
+  });
+
+  test("readAuditLog exposes seq and prev_hash", () => {
+    const config = buildAuditConfig(tempDir);
+    logAuditEntry(makeEntry(), config);
+    const [entry] = readAuditLog(config);
+    expect(entry!.seq).toBe(0);
+    expect(entry!.prev_hash).toBe(GENESIS_HASH);
+  });
+
+  test("verify passes for an untouched log", () => {
+    const config = buildAuditConfig(tempDir);
+    for (let i = 0; i < 5; i++) logAuditEntry(makeEntry(), config);
+
+    const result = verifyAuditLog(config);
+    expect(result.valid).toBe(true);
+    expect(result.entries).toBe(5);
+    expect(result.first_seq).toBe(0);
+    expect(result.last_seq).toBe(4);
+    expect(result.last_hash).toBe(hashContent(logLines(tempDir)[4]!));
+    expect(result.break).toBeUndefined();
+  });
+
+  test("verify reports an edited entry at the next link", () => {
+    const config = buildAuditConfig(tempDir);
+    for (let i = 0; i < 4; i++) logAuditEntry(makeEntry(), config);
+
+    const lines = logLines(tempDir);
+    lines[1] = lines[1]!.replace('"BLOCKED"', '"ALLOWED"');
+    writeFileSync(join(tempDir, currentLogName()), lines.join("\n") + "\n");
+
+    const result = verifyAuditLog(config);
+    expect(result.valid).toBe(false);
+    expect(result.entries).toBe(2);
+    expect(result.break).toEqual({
+      file: join(tempDir, currentLogName()),
+      line: 3,
+      seq: 2,
+      reason: "prev_hash does not match the previous entry",
+    });
+  });
+
+  test("verify reports a deleted entry as a sequence gap", () => {
+    const config = buildAuditConfig(tempDir);
+    for (let i = 0; i < 4; i++) logAuditEntry(makeEntry(), config);
+
+    const lines = logLines(tempDir);
+    lines.splice(2, 1);
+    writeFileSync(join(tempDir, currentLogName()), lines.join("\n") + "\n");
+
+    const result = verifyAuditLog(config);
+    expect(result.valid).toBe(false);
+    expect(result.break!.reason).toBe("sequence gap: expected 2, found 3");
+  });
+
+  test("verify rejects an unchained entry inserted after chaining began", () => {
+    const config = buildAuditConfig(tempDir);
+    logAuditEntry(makeEntry(), config);
+    const logPath = join(tempDir, currentLogName());
+    writeFileSync(logPath, readFileSync(logPath, "utf-8") + JSON.stringify(makeEntry()) + "\n");
+
+    const result = verifyAuditLog(config);
+    expect(result.valid).toBe(false);
+    expect(result.break!.reason).toBe("entry is missing seq/prev_hash");
+  });
+
+  test("legacy entries ahead of the chain are accepted", () => {
+    const config = buildAuditConfig(tempDir);
+    const logPath = join(tempDir, currentLogName());
+    writeFileSync(logPath, JSON.stringify(makeEntry()) + "\n" + JSON.stringify(makeEntry()) + "\n");
+    logAuditEntry(makeEntry(), config);
+
+    const [, , chained] = logLines(tempDir).map((l) => JSON.parse(l));
+    expect(chained.seq).toBe(0);
+
+    const result = verifyAuditLog(config);
+    expect(result.valid).toBe(true);
+    expect(result.legacy_entries).toBe(2);
+    expect(result.entries).toBe(1);
+  });
+
+  test("chain continues across rotation", () => {
+    const config = buildAuditConfig(tempDir, { maxSizeBytes: 600, maxRotatedFiles: 5 });
+    for (let i = 0; i < 8; i++) logAuditEntry(makeEntry(), config);
+
+    expect(listLogFiles(config).length).toBeGreaterThan(1);
+    const result = verifyAuditLog(config);
+    expect(result.valid).toBe(true);
+    expect(result.entries).toBe(8);
+    expect(result.last_seq).toBe(7);
+  });
+
+  test("chain continues across a month boundary", () => {
+    const config = buildAuditConfig(tempDir);
+    logAuditEntry(makeEntry(), config);
+    logAuditEntry(makeEntry(), config);
+    // Simulate last month's log
+    renameSync(join(tempDir, currentLogName()), join(tempDir, "audit-2000-01.jsonl"));
+
+    logAuditEntry(makeEntry(), config);
+
+    const [first] = logLines(tempDir).map((l) => JSON.parse(l));
+    expect(first.seq).toBe(2);
+    expect(first.prev_hash).toBe(hashContent(logLines(tempDir, "audit-2000-01.jsonl")[1]!));
+    expect(verifyAuditLog(config).valid).toBe(true);
+  });
+
+  test("oldest file removed by rotation leaves a verifiable, pruned chain", () => {
+    const config = buildAuditConfig(tempDir, { maxSizeBytes: 600, maxRotatedFiles: 5 });
+    for (let i = 0; i < 8; i++) logAuditEntry(makeEntry(), config);
+
+    const oldest = listLogFiles(config)[0]!;
+    unlinkSync(oldest);
+
+    const result = verifyAuditLog(config);
+    expect(result.valid).toBe(true);
+    expect(result.pruned).toBe(true);
+    expect(result.first_seq).toBeGreaterThan(0);
+  });
+
+  test("listLogFiles orders months, then rotations oldest first", () => {
+    for (const name of [
+      "audit-2026-02.jsonl",
+      "audit-2026-01.1.jsonl",
+      "audit-2026-01.jsonl",
+      "audit-2025-12.jsonl",
+      "audit-2026-01.2.jsonl",
+      "audit-2025-11.jsonl.gz",
+      "notes.txt",
+    ]) {
+      writeFileSync(join(tempDir, name), "");
+    }
+    expect(listLogFiles(buildAuditConfig(tempDir))).toEqual(
+      [
+        "audit-2025-11.jsonl.gz",
+        "audit-2025-12.jsonl",
+        "audit-2026-01.2.jsonl",
+        "audit-2026-01.1.jsonl",
+        "audit-2026-01.jsonl",
+        "audit-2026-02.jsonl",
+      ].map((n) => join(tempDir, n))
+    );
+  });
+});
+
+// ============================================================
+// HMAC signatures
+// ============================================================
+
+describe("signed entries", () => {
+  let tempDir: string;
+  let keyDir: string;
+
+  beforeEach(() => {
+    tempDir = freshDir("signed");
+    keyDir = join(tempDir, "keys");
+  });
+
+  function logPath(): string {
+    return join(tempDir, "audit", currentLogName());
+  }
+
+  test("entries carry key_id and signature when signing is configured", () => {
+    const config = buildAuditConfig(join(tempDir, "audit"), { signingKeyDir: keyDir });
+    logAuditEntry(makeEntry(), config);
+
+    const [line] = readFileSync(logPath(), "utf-8").split("\n");
+    const parsed = JSON.parse(line!);
+    expect(parsed.key_id).toBe(currentSigningKey(keyDir).id);
+    expect(parsed.signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyEntrySignature(line!, keyDir)).toBe(true);
+  });
+
+  test("entries are unsigned by default", () => {
+    const config = buildAuditConfig(join(tempDir, "audit"));
+    logAuditEntry(makeEntry(), config);
+
+    const parsed = JSON.parse(readFileSync(logPath(), "utf-8").split("\n")[0]!);
+    expect(parsed.key_id).toBeUndefined();
+    expect(parsed.signature).toBeUndefined();
+    expect(readAuditLog(config)[0]!.signature_valid).toBeUndefined();
+  });
+
+  test("readAuditLog flags forged and unsigned entries", () => {
+    const config = buildAuditConfig(join(tempDir, "audit"), { signingKeyDir: keyDir });
+    logAuditEntry(makeEntry({ session_id: "genuine" }), config);
+
+    const path = logPath();
+    const [genuine] = readFileSync(path, "utf-8").split("\n");
+    const tampered = genuine!.replace('"BLOCKED"', '"OVERRIDE"').replace("genuine", "tampered");
+    const unsigned = JSON.stringify(makeEntry({ session_id: "unsigned", decision: "OVERRIDE" }));
+    writeFileSync(path, [genuine, tampered, unsigned].join("\n") + "\n");
+
+    const validity = Object.fromEntries(
+      readAuditLog(config).map((e) => [e.session_id, e.signature_valid])
+    );
+    expect(validity).toEqual({ genuine: true, tampered: false, unsigned: false });
+  });
+
+  test("entries signed with a rotated-out key still verify", () => {
+    const config = buildAuditConfig(join(tempDir, "audit"), { signingKeyDir: keyDir });
+    logAuditEntry(makeEntry({ session_id: "old-key" }), config);
+    const rotated = rotateSigningKey(keyDir);
+    logAuditEntry(makeEntry({ session_id: "new-key" }), config);
+
+    const entries = readAuditLog(config);
+    expect(entries.every((e) => e.signature_valid)).toBe(true);
+    expect(entries.find((e) => e.session_id === "new-key")!.key_id).toBe(rotated.id);
+  });
+
+  test("signature from an unknown key is invalid", () => {
+    const line = signEntry(makeEntry(), currentSigningKey(join(tempDir, "other-keys")));
+    expect(verifyEntrySignature(line, keyDir)).toBe(false);
+  });
+
+  test("signed entries keep a valid hash chain", () => {
+    const config = buildAuditConfig(join(tempDir, "audit"), { signingKeyDir: keyDir });
+    for (let i = 0; i < 3; i++) logAuditEntry(makeEntry(), config);
+    expect(verifyAuditLog(config).valid).toBe(true);
+  });
+});
+
+// ============================================================
+// History across months, streaming and retention
+// ============================================================
+
+describe("audit history", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = freshDir("history");
+  });
+
+  function writeLog(name: string, entries: AuditEntry[]): void {
+    writeFileSync(join(tempDir, name), entries.map((e) => JSON.stringify(e)).join("\n") + "\n");
+  }
+
+  test("readAuditLog includes earlier months and their rotated files", () => {
+    writeLog("audit-2026-01.1.jsonl", [makeEntry({ timestamp: "2026-01-05T00:00:00.000Z", session_id: "jan-rotated" })]);
+    writeLog("audit-2026-01.jsonl", [makeEntry({ timestamp: "2026-01-20T00:00:00.000Z", session_id: "jan" })]);
+    writeLog("audit-2026-02.jsonl", [makeEntry({ timestamp: "2026-02-03T00:00:00.000Z", session_id: "feb" })]);
+
+    const ids = readAuditLog(buildAuditConfig(tempDir)).map((e) => e.session_id);
+    expect(ids).toEqual(["feb", "jan", "jan-rotated"]);
+  });
+
+  test("readAuditLog reads gzip archives", () => {
+    const entry = makeEntry({ timestamp: "2025-06-01T00:00:00.000Z", session_id: "archived" });
+    writeFileSync(join(tempDir, "audit-2025-06.jsonl.gz"), gzipSync(JSON.stringify(entry) + "\n"));
+
+    const [read] = readAuditLog(buildAuditConfig(tempDir));
+    expect(read!.session_id).toBe("archived");
+  });
+
+  test("since and until filter across months", () => {
+    writeLog("audit-2026-01.jsonl", [makeEntry({ timestamp: "2026-01-20T00:00:00.000Z", session_id: "jan" })]);
+    writeLog("audit-2026-02.jsonl", [makeEntry({ timestamp: "2026-02-03T00:00:00.000Z", session_id: "feb" })]);
+    writeLog("audit-2026-03.jsonl", [makeEntry({ timestamp: "2026-03-09T00:00:00.000Z", session_id: "mar" })]);
+
+    const ids = readAuditLog(buildAuditConfig(tempDir), {
+      since: "2026-02-01",
+      until: "2026-03-01",
+    }).map((e) => e.session_id);
+    expect(ids).toEqual(["feb"]);
+  });
+
+  test("streamAuditLog yields newest first and stops at the limit", () => {
+    // An unreadable archive far in the past is never opened
+    writeFileSync(join(tempDir, "audit-2020-01.jsonl.gz"), "not gzip");
+    writeLog("audit-2026-01.jsonl", [
+      makeEntry({ session_id: "a" }),
+      makeEntry({ session_id: "b" }),
+    ]);
+    writeLog("audit-2026-02.jsonl", [makeEntry({ session_id: "c" })]);
+
+    const config = buildAuditConfig(tempDir);
+    const ids = [...streamAuditLog(config, { last: 3 })].map((e) => e.session_id);
+    expect(ids).toEqual(["c", "b", "a"]);
+    expect(() => readAuditLog(config)).toThrow();
+  });
+
+  test("streamAuditLog skips months well before since", () => {
+    writeFileSync(join(tempDir, "audit-2020-01.jsonl.gz"), "not gzip");
+    writeLog("audit-2026-03.jsonl", [makeEntry({ timestamp: "2026-03-09T00:00:00.000Z", session_id: "mar" })]);
+
+    const ids = [...streamAuditLog(buildAuditConfig(tempDir), { since: "2026-03-01" })].map(
+      (e) => e.session_id
+    );
+    expect(ids).toEqual(["mar"]);
+  });
+
+  test("streamAuditLog can be stopped early", () => {
+    writeLog("audit-2026-01.jsonl", [makeEntry({ session_id: "a" }), makeEntry({ session_id: "b" })]);
+    for (const entry of streamAuditLog(buildAuditConfig(tempDir))) {
+      expect(entry.session_id).toBe("b");
+      break;
+    }
+  });
+
+  test("applyRetention gzips months older than maxMonths", () => {
+    for (const month of ["01", "02", "03", "04"]) {
+      writeLog(`audit-2026-${month}.jsonl`, [makeEntry({ session_id: month })]);
+    }
+    writeLog("audit-2026-01.1.jsonl", [makeEntry({ session_id: "01-rotated" })]);
+
+    const config = buildAuditConfig(tempDir, { retention: { maxMonths: 2, archive: true } });
+    const archived = applyRetention(config, new Date(2026, 3, 15));
+
+    expect(archived.map((p) => p.slice(tempDir.length + 1)).sort()).toEqual([
+      "audit-2026-01.1.jsonl.gz",
+      "audit-2026-01.jsonl.gz",
+      "audit-2026-02.jsonl.gz",
+    ]);
+    expect(existsSync(join(tempDir, "audit-2026-01.jsonl"))).toBe(false);
+    expect(existsSync(join(tempDir, "audit-2026-03.jsonl"))).toBe(true);
+    expect(
+      JSON.parse(gunzipSync(readFileSync(join(tempDir, "audit-2026-02.jsonl.gz"))).toString()).session_id
+    ).toBe("02");
+    expect(readAuditLog(config).length).toBe(5);
+  });
+
+  test("applyRetention deletes old months when archive is off", () => {
+    writeLog("audit-2026-01.jsonl", [makeEntry()]);
+    writeLog("audit-2026-04.jsonl", [makeEntry()]);
+
+    const config = buildAuditConfig(tempDir, { retention: { maxMonths: 1, archive: false } });
+    applyRetention(config, new Date(2026, 3, 15));
+
+    expect(listLogFiles(config)).toEqual([join(tempDir, "audit-2026-04.jsonl")]);
+  });
+
+  test("applyRetention does nothing without a policy", () => {
+    writeLog("audit-2000-01.jsonl", [makeEntry()]);
+    expect(applyRetention(buildAuditConfig(tempDir))).toEqual([]);
+    expect(existsSync(join(tempDir, "audit-2000-01.jsonl"))).toBe(true);
+  });
+
+  test("archived months keep the hash chain verifiable", () => {
+    const config = buildAuditConfig(tempDir, { retention: { maxMonths: 1, archive: true } });
+    logAuditEntry(makeEntry(), config);
+    logAuditEntry(makeEntry(), config);
+    renameSync(join(tempDir, currentLogName()), join(tempDir, "audit-2000-01.jsonl"));
+
+    // The next append archives last month and continues its chain
+    logAuditEntry(makeEntry(), config);
+
+    expect(existsSync(join(tempDir, "audit-2000-01.jsonl.gz"))).toBe(true);
+    const result = verifyAuditLog(config);
+    expect(result.valid).toBe(true);
+    expect(result.entries).toBe(3);
+  });
+});
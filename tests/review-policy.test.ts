@@ -0,0 +1,210 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import {
+  buildAskOutput,
+  loadReviewPolicy,
+  loadReviewPolicyFromString,
+  resolveReviewPolicy,
+  reviewAction,
+  reviewSeverity,
+  reviewSummary,
+  DEFAULT_REVIEW_POLICY,
+} from "../src/lib/review-policy";
+import { filterContentString } from "../src/lib/content-filter";
+import { HookOutputSchema } from "../src/lib/types";
+import type { FilterResult } from "../src/lib/types";
+
+const TMP_BASE = `/private/tmp/claude-503/review-policy-test-${Date.now()}`;
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+function review(overrides: Partial<FilterResult> = {}): FilterResult {
+  return {
+    decision: "HUMAN_REVIEW",
+    matches: [],
+    encodings: [],
+    schema_valid: true,
+    file: "README.md",
+    format: "markdown",
+    ...overrides,
+  };
+}
+
+const EMAIL_MATCH = {
+  pattern_id: "PII-007",
+  pattern_name: "Email address",
+  category: "pii",
+  severity: "review",
+  matched_text: "alice.smith@acme-corp.io",
+  line: 3,
+  column: 10,
+};
+
+// ---------------------------------------------------------------------------
+// Policy loading
+// ---------------------------------------------------------------------------
+
+describe("loadReviewPolicyFromString", () => {
+  test("parses default and rules", () => {
+    const policy = loadReviewPolicyFromString(
+      [
+        "default: allow",
+        "rules:",
+        "  - format: markdown",
+        "    severity: NONE",
+        "    action: allow",
+        "  - severity: MEDIUM",
+        "    action: ask",
+      ].join("\n")
+    );
+    expect(policy.default).toBe("allow");
+    expect(policy.rules).toEqual([
+      { format: "markdown", severity: "NONE", action: "allow" },
+      { severity: "MEDIUM", action: "ask" },
+    ]);
+  });
+
+  test("empty policy defaults to ask with no rules", () => {
+    expect(loadReviewPolicyFromString("")).toEqual(DEFAULT_REVIEW_POLICY);
+  });
+
+  test("rejects unknown actions, formats and severities", () => {
+    expect(() => loadReviewPolicyFromString("default: maybe")).toThrow();
+    expect(() =>
+      loadReviewPolicyFromString("rules:\n  - format: html\n    action: allow")
+    ).toThrow();
+    expect(() =>
+      loadReviewPolicyFromString("rules:\n  - severity: SEVERE\n    action: allow")
+    ).toThrow();
+  });
+
+  test("loadReviewPolicy reads a file", () => {
+    mkdirSync(TMP_BASE, { recursive: true });
+    const path = join(TMP_BASE, "policy.yaml");
+    writeFileSync(path, "default: allow\n");
+    expect(loadReviewPolicy(path).default).toBe("allow");
+  });
+});
+
+describe("resolveReviewPolicy", () => {
+  const saved = process.env.CONTENT_FILTER_REVIEW_POLICY;
+
+  afterAll(() => {
+    if (saved === undefined) delete process.env.CONTENT_FILTER_REVIEW_POLICY;
+    else process.env.CONTENT_FILTER_REVIEW_POLICY = saved;
+  });
+
+  test("CONTENT_FILTER_REVIEW_POLICY names the policy file", () => {
+    mkdirSync(TMP_BASE, { recursive: true });
+    const path = join(TMP_BASE, "env-policy.yaml");
+    writeFileSync(path, "default: allow\n");
+    process.env.CONTENT_FILTER_REVIEW_POLICY = path;
+    expect(resolveReviewPolicy().default).toBe("allow");
+  });
+
+  test("missing policy file named by the environment throws", () => {
+    process.env.CONTENT_FILTER_REVIEW_POLICY = join(TMP_BASE, "missing.yaml");
+    expect(() => resolveReviewPolicy()).toThrow();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// reviewAction
+// ---------------------------------------------------------------------------
+
+describe("reviewAction", () => {
+  test("default policy asks for every HUMAN_REVIEW", () => {
+    expect(reviewAction(review(), DEFAULT_REVIEW_POLICY)).toBe("ask");
+  });
+
+  test("non-review decisions never ask", () => {
+    expect(reviewAction(review({ decision: "ALLOWED" }), DEFAULT_REVIEW_POLICY)).toBe("allow");
+    expect(reviewAction(review({ decision: "BLOCKED" }), DEFAULT_REVIEW_POLICY)).toBe("allow");
+  });
+
+  test("zero matches have severity NONE", () => {
+    expect(reviewSeverity(review())).toBe("NONE");
+    expect(reviewSeverity(review({ overall_severity: "MEDIUM" }))).toBe("MEDIUM");
+  });
+
+  test("rule matches on format and severity together", () => {
+    const policy = loadReviewPolicyFromString(
+      "rules:\n  - format: markdown\n    severity: NONE\n    action: allow"
+    );
+    expect(reviewAction(review(), policy)).toBe("allow");
+    expect(reviewAction(review({ format: "mixed" }), policy)).toBe("ask");
+    expect(
+      reviewAction(review({ matches: [EMAIL_MATCH], overall_severity: "MEDIUM" }), policy)
+    ).toBe("ask");
+  });
+
+  test("first matching rule wins", () => {
+    const policy = loadReviewPolicyFromString(
+      [
+        "default: allow",
+        "rules:",
+        "  - severity: MEDIUM",
+        "    action: ask",
+        "  - format: markdown",
+        "    action: allow",
+      ].join("\n")
+    );
+    expect(reviewAction(review({ overall_severity: "MEDIUM" }), policy)).toBe("ask");
+    expect(reviewAction(review({ overall_severity: "LOW" }), policy)).toBe("allow");
+  });
+
+  test("pipeline results for clean markdown can be auto-allowed", () => {
+    const policy = loadReviewPolicyFromString(
+      "rules:\n  - format: markdown\n    severity: NONE\n    action: allow"
+    );
+    const clean = filterContentString("# Hello\n\nJust docs.", "README.md", "markdown");
+    expect(clean.decision).toBe("HUMAN_REVIEW");
+    expect(reviewAction(clean, policy)).toBe("allow");
+
+    const flagged = filterContentString(
+      "# Contact\n\nalice.smith@acme-corp.io",
+      "CONTACT.md",
+      "markdown"
+    );
+    expect(flagged.decision).toBe("HUMAN_REVIEW");
+    expect(reviewAction(flagged, policy)).toBe("ask");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// reviewSummary / buildAskOutput
+// ---------------------------------------------------------------------------
+
+describe("reviewSummary", () => {
+  test("lists severity, pattern IDs and line numbers", () => {
+    const summary = reviewSummary(
+      review({
+        matches: [EMAIL_MATCH, { ...EMAIL_MATCH, line: 7 }, { ...EMAIL_MATCH, pattern_id: "PII-008", line: 9 }],
+        overall_severity: "MEDIUM",
+      })
+    );
+    expect(summary).toBe("severity MEDIUM; patterns: PII-007 (lines 3, 7), PII-008 (line 9)");
+  });
+
+  test("explains a review with no matches", () => {
+    expect(reviewSummary(review())).toBe(
+      "severity NONE; no pattern matches (free-text always requires review)"
+    );
+  });
+});
+
+describe("buildAskOutput", () => {
+  test("produces a valid PreToolUse ask decision", () => {
+    const output = buildAskOutput("needs a look");
+    expect(HookOutputSchema.parse(output)).toEqual(output);
+    expect(output.hookSpecificOutput.permissionDecision).toBe("ask");
+    expect(output.hookSpecificOutput.permissionDecisionReason).toBe("needs a look");
+  });
+});
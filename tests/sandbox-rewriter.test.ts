@@ -2,6 +2,7 @@ import { describe, test, expect } from "bun:test";
 import {
   extractRepoName,
   rewriteCommand,
+  rewriteCommandLine,
   buildHookOutput,
 } from "../src/lib/sandbox-rewriter";
 import type { ParsedCommand, CommandType } from "../src/lib/types";
@@ -287,6 +288,572 @@ describe("rewriteCommand — passthrough", () => {
   });
 });
 
+// ============================================================
+// rewriteCommand — working directory
+// ============================================================
+
+describe("rewriteCommand — cwd resolution", () => {
+  test("relative destination resolved inside sandbox is unchanged", () => {
+    const parsed = makeParsed({
+      type: "git-clone",
+      raw: "git clone https://github.com/owner/repo.git repo",
+      url: "https://github.com/owner/repo.git",
+      destination: "repo",
+      cwd: SANDBOX,
+    });
+    expect(rewriteCommand(parsed, SANDBOX, "rewrite").changed).toBe(false);
+  });
+
+  test("no destination with cwd inside sandbox is unchanged", () => {
+    const parsed = makeParsed({
+      type: "git-clone",
+      raw: "git clone https://github.com/owner/repo.git",
+      url: "https://github.com/owner/repo.git",
+      cwd: `${SANDBOX}/work`,
+    });
+    expect(rewriteCommand(parsed, SANDBOX, "rewrite").changed).toBe(false);
+  });
+
+  test("relative -o with cwd outside sandbox is rewritten", () => {
+    const parsed = makeParsed({
+      type: "curl-download",
+      raw: "curl -o data.json https://example.com/data.json",
+      url: "https://example.com/data.json",
+      destination: "data.json",
+      cwd: "/tmp",
+    });
+    const result = rewriteCommand(parsed, SANDBOX, "rewrite");
+    expect(result.changed).toBe(true);
+    expect(result.newPath).toBe(`${SANDBOX}/data.json`);
+  });
+});
+
+// ============================================================
+// rewriteCommandLine
+// ============================================================
+
+describe("rewriteCommandLine", () => {
+  test("acquisition after cd is rewritten", () => {
+    const result = rewriteCommandLine(
+      "cd /tmp && git clone https://evil.example/repo",
+      SANDBOX,
+      "rewrite",
+      "/home/user/project"
+    );
+    expect(result.changed).toBe(true);
+    expect(result.rewritten).toBe(
+      `cd /tmp && git clone https://evil.example/repo ${SANDBOX}/repo`
+    );
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0]!.parsed.cwd).toBe("/tmp");
+  });
+
+  test("cd into sandbox makes a bare clone pass through", () => {
+    const result = rewriteCommandLine(
+      `cd ${SANDBOX} && git clone https://github.com/owner/repo.git`,
+      SANDBOX,
+      "rewrite",
+      "/home/user/project"
+    );
+    expect(result.changed).toBe(false);
+    expect(result.segments).toHaveLength(1);
+  });
+
+  test("a clone run only when cd into the sandbox fails is rewritten", () => {
+    const result = rewriteCommandLine(
+      `cd ${SANDBOX} || git clone https://github.com/owner/repo.git`,
+      SANDBOX,
+      "rewrite",
+      "/home/user/project"
+    );
+    expect(result.changed).toBe(true);
+    expect(result.rewritten).toContain(`git clone https://github.com/owner/repo.git ${SANDBOX}/repo`);
+  });
+
+  test("cd inside a subshell does not leak to later segments", () => {
+    const result = rewriteCommandLine(
+      `(cd ${SANDBOX} && true); git clone https://github.com/owner/repo.git repo`,
+      SANDBOX,
+      "rewrite",
+      "/home/user/project"
+    );
+    expect(result.changed).toBe(true);
+    expect(result.rewritten).toContain(`git clone https://github.com/owner/repo.git ${SANDBOX}/repo`);
+  });
+
+  test("every acquisition segment is rewritten", () => {
+    const result = rewriteCommandLine(
+      "curl -o a.json https://x.example/a.json; wget -O b.html https://x.example/b",
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.rewritten).toBe(
+      `curl -o ${SANDBOX}/a.json https://x.example/a.json; wget -O ${SANDBOX}/b.html https://x.example/b`
+    );
+    expect(result.segments.map((s) => s.parsed.type)).toEqual([
+      "curl-download",
+      "wget-download",
+    ]);
+  });
+
+  test("acquisition inside command substitution is detected", () => {
+    const result = rewriteCommandLine(
+      'echo "$(curl -o /tmp/x.md https://x.example/x.md)"',
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.changed).toBe(true);
+    expect(result.rewritten).toBe(
+      `echo "$(curl -o ${SANDBOX}/x.md https://x.example/x.md)"`
+    );
+  });
+
+  test("acquisition after a pipe is detected", () => {
+    const result = rewriteCommandLine(
+      "echo go | wget -O /tmp/page.html https://x.example/page",
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.changed).toBe(true);
+  });
+
+  test("quoted separators are not split on", () => {
+    const result = rewriteCommandLine(
+      'git commit -m "fix; git clone https://x.example/r"',
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.changed).toBe(false);
+    expect(result.segments).toEqual([]);
+  });
+
+  test("block mode reports changed segments without a rewrite", () => {
+    const result = rewriteCommandLine(
+      "ls && git clone https://github.com/owner/repo.git",
+      SANDBOX,
+      "block"
+    );
+    expect(result.changed).toBe(true);
+    expect(result.rewritten).toBeNull();
+    expect(result.segments[0]!.result.changed).toBe(true);
+  });
+
+  test("quoted destination is re-quoted in the rewrite", () => {
+    const result = rewriteCommandLine(
+      `git clone "https://host/repo" "my dir"`,
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.rewritten).toBe(
+      `git clone "https://host/repo" '${SANDBOX}/my dir'`
+    );
+  });
+
+  test("--output=file keeps its flag form", () => {
+    const result = rewriteCommandLine(
+      "curl --output=data.json https://x.example/data.json",
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.rewritten).toBe(
+      `curl --output=${SANDBOX}/data.json https://x.example/data.json`
+    );
+  });
+
+  test("attached -ofile keeps its flag form", () => {
+    const result = rewriteCommandLine(
+      "curl -sLodata.json https://x.example/data.json",
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.rewritten).toBe(
+      `curl -sLo${SANDBOX}/data.json https://x.example/data.json`
+    );
+  });
+
+  test("env prefix and wrapper are preserved", () => {
+    const result = rewriteCommandLine(
+      "GIT_TERMINAL_PROMPT=0 sudo git clone https://h.example/o/r.git",
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.rewritten).toBe(
+      `GIT_TERMINAL_PROMPT=0 sudo git clone https://h.example/o/r.git ${SANDBOX}/r`
+    );
+  });
+
+  test("env -C outside the sandbox is not trusted", () => {
+    const result = rewriteCommandLine(
+      "env -C /tmp git clone https://h.example/o/r.git",
+      SANDBOX,
+      "rewrite",
+      SANDBOX
+    );
+    expect(result.changed).toBe(true);
+  });
+
+  test("git -C into the sandbox passes through", () => {
+    const result = rewriteCommandLine(
+      `git -C ${SANDBOX} clone https://h.example/o/r.git`,
+      SANDBOX,
+      "rewrite",
+      "/home/user/project"
+    );
+    expect(result.changed).toBe(false);
+  });
+
+  test("unchanged words keep their original quoting", () => {
+    const result = rewriteCommandLine(
+      `curl -H "Accept: text/plain" -o out.txt "https://x.example/a b"`,
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.rewritten).toBe(
+      `curl -H "Accept: text/plain" -o ${SANDBOX}/out.txt "https://x.example/a b"`
+    );
+  });
+
+  test("overlapping rewrites yield no rewritten command", () => {
+    const result = rewriteCommandLine(
+      "git clone https://x.example/r.git $(curl -o /tmp/n https://x.example/n)",
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.changed).toBe(true);
+    expect(result.rewritten).toBeNull();
+  });
+});
+
+// ============================================================
+// rewriteCommandLine — path canonicalization
+// ============================================================
+
+describe("rewriteCommandLine — path canonicalization", () => {
+  test("sibling directory sharing the sandbox prefix is rewritten", () => {
+    const result = rewriteCommandLine(
+      `git clone https://github.com/owner/repo.git ${SANDBOX}-evil/repo`,
+      SANDBOX,
+      "rewrite"
+    );
+    expect(result.changed).toBe(true);
+    expect(result.rewritten).toBe(
+      `git clone https://github.com/owner/repo.git ${SANDBOX}/repo`
+    );
+  });
+
+  test("relative .. destination escaping the sandbox is rewritten", () => {
+    const result = rewriteCommandLine(
+      "git clone https://github.com/owner/repo.git ../repo",
+      SANDBOX,
+      "rewrite",
+      `${SANDBOX}/sub`
+    );
+    expect(result.changed).toBe(false);
+
+    const escaped = rewriteCommandLine(
+      "git clone https://github.com/owner/repo.git ../../repo",
+      SANDBOX,
+      "rewrite",
+      `${SANDBOX}/sub`
+    );
+    expect(escaped.changed).toBe(true);
+  });
+
+  test("~ and $HOME destinations resolve before the check", () => {
+    const home = process.env.HOME!;
+    const sandbox = `${home}/work/sandbox`;
+    for (const dest of ["~/work/sandbox/repo", "$HOME/work/sandbox/repo", "${HOME}/work/sandbox/repo"]) {
+      const result = rewriteCommandLine(
+        `git clone https://github.com/owner/repo.git ${dest}`,
+        sandbox,
+        "rewrite"
+      );
+      expect(result.changed).toBe(false);
+    }
+  });
+
+  test("cd $HOME/... into the sandbox is followed", () => {
+    const home = process.env.HOME!;
+    const result = rewriteCommandLine(
+      "cd $HOME/work/sandbox && git clone https://github.com/owner/repo.git",
+      `${home}/work/sandbox`,
+      "rewrite",
+      "/"
+    );
+    expect(result.changed).toBe(false);
+  });
+});
+
+// ============================================================
+// rewriteCommandLine — redirection and implicit-cwd downloads
+// ============================================================
+
+describe("rewriteCommandLine — redirection and implicit-cwd downloads", () => {
+  const CWD = "/home/user/project";
+
+  function rewrite(command: string, cwd: string = CWD) {
+    return rewriteCommandLine(command, SANDBOX, "rewrite", cwd);
+  }
+
+  test("redirection target is moved into the sandbox", () => {
+    expect(rewrite("curl https://x.example/payload.md > notes.md").rewritten).toBe(
+      `curl https://x.example/payload.md > ${SANDBOX}/notes.md`
+    );
+    expect(rewrite("wget -qO- https://x.example/f >> /tmp/f.txt").rewritten).toBe(
+      `wget -qO- https://x.example/f >> ${SANDBOX}/f.txt`
+    );
+  });
+
+  test(">| is one redirection, not a pipe", () => {
+    expect(rewrite("curl https://h.example/r >| /home/u/out").rewritten).toBe(
+      `curl https://h.example/r >| ${SANDBOX}/out`
+    );
+  });
+
+  test("relative redirection inside a sandbox cwd is unchanged", () => {
+    expect(rewrite("curl https://x.example/a > a.md", SANDBOX).changed).toBe(false);
+  });
+
+  test("tee fed by curl is rewritten, the rest of the pipeline kept", () => {
+    expect(rewrite("curl -s https://x.example/p.md | tee notes.md | grep foo").rewritten).toBe(
+      `curl -s https://x.example/p.md | tee ${SANDBOX}/notes.md | grep foo`
+    );
+  });
+
+  test("curl piped into a non-writing command is unchanged", () => {
+    expect(rewrite("curl -s https://x.example/api | jq .").changed).toBe(false);
+  });
+
+  test("curl -O gets --output-dir pointing at the sandbox", () => {
+    expect(rewrite("curl -sLO https://x.example/f.tgz").rewritten).toBe(
+      `curl --output-dir ${SANDBOX} -sLO https://x.example/f.tgz`
+    );
+  });
+
+  test("existing --output-dir is moved into the sandbox", () => {
+    expect(rewrite("curl -O --output-dir /tmp/dl https://x.example/f.tgz").rewritten).toBe(
+      `curl -O --output-dir ${SANDBOX}/dl https://x.example/f.tgz`
+    );
+  });
+
+  test("plain wget gets -P pointing at the sandbox", () => {
+    expect(rewrite("wget https://x.example/file").rewritten).toBe(
+      `wget -P ${SANDBOX} https://x.example/file`
+    );
+  });
+
+  test("plain wget and curl -O inside a sandbox cwd are unchanged", () => {
+    expect(rewrite("wget https://x.example/file", SANDBOX).changed).toBe(false);
+    expect(rewrite("curl -O https://x.example/file", `${SANDBOX}/dl`).changed).toBe(false);
+  });
+});
+
+// ============================================================
+// rewriteCommandLine — other acquisition tools
+// ============================================================
+
+describe("rewriteCommandLine — other acquisition tools", () => {
+  const CWD = "/home/user/project";
+
+  function rewrite(command: string, cwd: string = CWD) {
+    return rewriteCommandLine(command, SANDBOX, "rewrite", cwd);
+  }
+
+  test("svn checkout without path appends sandbox path", () => {
+    expect(rewrite("svn checkout https://svn.example.com/proj/trunk").rewritten).toBe(
+      `svn checkout https://svn.example.com/proj/trunk ${SANDBOX}/trunk`
+    );
+  });
+
+  test("hg clone destination is moved into the sandbox", () => {
+    expect(rewrite("hg clone https://hg.example.com/repo /tmp/repo").rewritten).toBe(
+      `hg clone https://hg.example.com/repo ${SANDBOX}/repo`
+    );
+  });
+
+  test("scp and rsync destinations are moved into the sandbox", () => {
+    expect(rewrite("scp host:/srv/file.txt .").rewritten).toBe(
+      `scp host:/srv/file.txt ${SANDBOX}`
+    );
+    expect(rewrite("rsync -a host:/data/ /tmp/data/").rewritten).toBe(
+      `rsync -a host:/data/ ${SANDBOX}/data`
+    );
+  });
+
+  test("directory flag is inserted after the subcommand", () => {
+    expect(rewrite("gh release download v1 -R owner/repo").rewritten).toBe(
+      `gh release download -D ${SANDBOX} v1 -R owner/repo`
+    );
+    expect(rewrite("npm pack left-pad").rewritten).toBe(
+      `npm pack --pack-destination ${SANDBOX} left-pad`
+    );
+    expect(rewrite("python3 -m pip download requests").rewritten).toBe(
+      `python3 -m pip download -d ${SANDBOX} requests`
+    );
+    expect(rewrite("aria2c https://example.com/f.iso").rewritten).toBe(
+      `aria2c -d ${SANDBOX} https://example.com/f.iso`
+    );
+  });
+
+  test("existing directory flag value is rewritten in place", () => {
+    expect(rewrite("pip download requests --dest=/tmp/wheels").rewritten).toBe(
+      `pip download requests --dest=${SANDBOX}/wheels`
+    );
+  });
+
+  test("cwd-defaulting tools inside the sandbox are unchanged", () => {
+    expect(rewrite("pip download requests", `${SANDBOX}/deps`).changed).toBe(false);
+    expect(rewrite("aria2c https://example.com/f.iso", SANDBOX).changed).toBe(false);
+  });
+
+  test("huggingface download gets a per-repo local dir even in the sandbox", () => {
+    expect(rewrite("huggingface-cli download org/model", SANDBOX).rewritten).toBe(
+      `huggingface-cli download --local-dir ${SANDBOX}/model org/model`
+    );
+  });
+
+  test("in-place commands outside the sandbox cannot be rewritten", () => {
+    for (const command of [
+      "git fetch https://github.com/evil/x.git",
+      "gh pr checkout 42",
+      "git submodule add https://github.com/a/b.git vendor/b",
+    ]) {
+      const result = rewrite(command);
+      expect(result.changed).toBe(true);
+      expect(result.rewritten).toBeNull();
+    }
+  });
+
+  test("in-place commands inside a sandboxed repo are unchanged", () => {
+    expect(rewrite("git fetch https://github.com/evil/x.git", `${SANDBOX}/x`).changed).toBe(false);
+    expect(rewrite("gh pr checkout 42", `${SANDBOX}/repo`).changed).toBe(false);
+  });
+});
+
+// ============================================================
+// rewriteCommandLine — curl with several outputs
+// ============================================================
+
+describe("rewriteCommandLine — curl with several outputs", () => {
+  const CWD = "/home/user/project";
+
+  function rewrite(command: string, cwd: string = CWD) {
+    return rewriteCommandLine(command, SANDBOX, "rewrite", cwd);
+  }
+
+  test("a second -o or an -O outside the sandbox blocks", () => {
+    for (const command of [
+      `curl -o ${SANDBOX}/x https://a.example/b -o /tmp/y https://c.example/d`,
+      "curl -o x https://a.example/b -o y https://c.example/d",
+      `curl -o ${SANDBOX}/x https://a.example/b -O https://c.example/d`,
+      `curl -O https://a.example/b -o ${SANDBOX}/x -O https://c.example/d`,
+    ]) {
+      const result = rewrite(command);
+      expect(result.changed).toBe(true);
+      expect(result.rewritten).toBeNull();
+    }
+  });
+
+  test("every target inside the sandbox is unchanged", () => {
+    expect(
+      rewrite(`curl -o ${SANDBOX}/x https://a.example/b -o ${SANDBOX}/y https://c.example/d`).changed
+    ).toBe(false);
+    expect(rewrite("curl -o x https://a.example/b -O https://c.example/d", SANDBOX).changed).toBe(
+      false
+    );
+  });
+
+  test("-o /dev/null is not rewritten", () => {
+    expect(rewrite("curl -s -o /dev/null -w '%{http_code}' https://a.example/b").changed).toBe(false);
+  });
+
+  test("tee with several files blocks unless every file is in the sandbox", () => {
+    for (const command of [
+      `curl https://h.example/r | tee ${SANDBOX}/out1 /etc/x`,
+      "curl https://h.example/r | tee -a out1 out2",
+    ]) {
+      const result = rewrite(command);
+      expect(result.changed).toBe(true);
+      expect(result.rewritten).toBeNull();
+    }
+    expect(rewrite(`curl https://h.example/r | tee ${SANDBOX}/a ${SANDBOX}/b /dev/null`).changed).toBe(
+      false
+    );
+  });
+});
+
+// ============================================================
+// rewriteCommandLine — shell syntax and nested shells
+// ============================================================
+
+describe("rewriteCommandLine — shell syntax and nested shells", () => {
+  const CWD = "/home/user/project";
+
+  function rewrite(command: string, cwd: string = CWD) {
+    return rewriteCommandLine(command, SANDBOX, "rewrite", cwd);
+  }
+
+  test("commands after reserved words are rewritten in place", () => {
+    expect(rewrite("if true; then git clone https://h/o/r.git; fi").rewritten).toBe(
+      `if true; then git clone https://h/o/r.git ${SANDBOX}/r; fi`
+    );
+    expect(rewrite("{ git clone https://h/o/r.git; }").rewritten).toBe(
+      `{ git clone https://h/o/r.git ${SANDBOX}/r; }`
+    );
+  });
+
+  test("bash -c, sh -c and eval bodies block without a rewrite", () => {
+    for (const command of [
+      "bash -c 'git clone https://h/o/r.git'",
+      "sh -c \"cd /tmp && curl -o f https://x.example/a\"",
+      "eval git clone https://h/o/r.git",
+    ]) {
+      const result = rewrite(command);
+      expect(result.changed).toBe(true);
+      expect(result.rewritten).toBeNull();
+      expect(result.segments[0]!.parsed.type).not.toBe("passthrough");
+    }
+  });
+
+  test("acquisitions behind timeout, stdbuf and ionice are rewritten in place", () => {
+    expect(rewrite("timeout 10 git clone https://h/o/r.git").rewritten).toBe(
+      `timeout 10 git clone https://h/o/r.git ${SANDBOX}/r`
+    );
+    expect(rewrite("stdbuf -oL curl -o f https://x.example/a").rewritten).toBe(
+      `stdbuf -oL curl -o ${SANDBOX}/f https://x.example/a`
+    );
+    expect(rewrite("ionice -c 3 git clone https://h/o/r.git").rewritten).toBe(
+      `ionice -c 3 git clone https://h/o/r.git ${SANDBOX}/r`
+    );
+  });
+
+  test("acquisitions run by xargs or a shell with long options block without a rewrite", () => {
+    for (const command of [
+      "echo https://h/o/r.git | xargs git clone",
+      "cat urls | xargs -n1 wget",
+      "cat urls | xargs -I{} git clone {}",
+      "cat urls | xargs sh -c 'git clone \"$1\"' _",
+      "timeout 10 sh -c 'curl -o f https://x.example/a'",
+      "bash --norc -c 'git clone https://h/o/r.git'",
+    ]) {
+      const result = rewrite(command);
+      expect(result.changed).toBe(true);
+      expect(result.rewritten).toBeNull();
+    }
+  });
+
+  test("xargs commands that stay in the sandbox or acquire nothing are unchanged", () => {
+    expect(rewrite(`cat urls | xargs wget -P ${SANDBOX}`).changed).toBe(false);
+    expect(rewrite("echo https://h/o/r.git | xargs git clone", SANDBOX).changed).toBe(false);
+    expect(rewrite("ls | xargs rm").changed).toBe(false);
+  });
+
+  test("nested commands already in the sandbox are unchanged", () => {
+    expect(rewrite(`bash -c 'git clone https://h/o/r.git ${SANDBOX}/r'`).changed).toBe(false);
+    expect(rewrite("bash -c 'echo hi'").changed).toBe(false);
+  });
+});
+
 // ============================================================
 // buildHookOutput
 // ============================================================
@@ -323,6 +890,20 @@ describe("buildHookOutput", () => {
     expect(result!.hookSpecificOutput.permissionDecision).toBe("allow");
   });
 
+  test("changed without a sandbox path denies even in rewrite mode", () => {
+    const result = buildHookOutput(
+      {
+        rewritten: "gh pr checkout 42",
+        original: "gh pr checkout 42",
+        changed: true,
+        newPath: null,
+      },
+      "rewrite"
+    );
+    expect(result!.hookSpecificOutput.permissionDecision).toBe("deny");
+    expect(result!.hookSpecificOutput.updatedInput).toBeUndefined();
+  });
+
   test("changed + block mode returns hookSpecificOutput with deny", () => {
     const result = buildHookOutput(
       {
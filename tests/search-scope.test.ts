@@ -0,0 +1,153 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { resolveSearchScope, listSandboxFiles } from "../src/lib/search-scope";
+
+const TMP_BASE = `/private/tmp/claude-503/search-scope-test-${Date.now()}`;
+
+function freshDir(label: string): string {
+  const dir = join(
+    TMP_BASE,
+    `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  );
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+afterAll(() => {
+  try {
+    rmSync(TMP_BASE, { recursive: true, force: true });
+  } catch {
+    // best-effort cleanup
+  }
+});
+
+/**
+ * workspace/
+ *   local.md
+ *   sandbox/
+ *     repo/README.md
+ *     repo/src/a.ts
+ *     repo/.git/config
+ */
+function makeWorkspace(): { workspace: string; sandbox: string } {
+  const workspace = freshDir("ws");
+  const sandbox = join(workspace, "sandbox");
+  mkdirSync(join(sandbox, "repo", "src"), { recursive: true });
+  mkdirSync(join(sandbox, "repo", ".git"), { recursive: true });
+  writeFileSync(join(workspace, "local.md"), "# local");
+  writeFileSync(join(sandbox, "repo", "README.md"), "# readme");
+  writeFileSync(join(sandbox, "repo", "src", "a.ts"), "export {}");
+  writeFileSync(join(sandbox, "repo", ".git", "config"), "[core]");
+  return { workspace, sandbox };
+}
+
+// ============================================================
+// resolveSearchScope
+// ============================================================
+
+describe("resolveSearchScope", () => {
+  test("Glob: relative pattern under path, default cwd", () => {
+    expect(resolveSearchScope("Glob", { pattern: "**/*.md" }, "/work")).toEqual({
+      root: "/work",
+      pattern: "**/*.md",
+      matchBasename: false,
+    });
+    expect(resolveSearchScope("Glob", { pattern: "*.md", path: "sub" }, "/work")!.root).toBe(
+      "/work/sub"
+    );
+  });
+
+  test("Glob: absolute pattern splits into literal root and glob", () => {
+    expect(resolveSearchScope("Glob", { pattern: "/work/sandbox/**/*.md" }, "/")).toEqual({
+      root: "/work/sandbox",
+      pattern: "**/*.md",
+      matchBasename: false,
+    });
+  });
+
+  test("Glob: absolute literal pattern is a single file", () => {
+    const scope = resolveSearchScope("Glob", { pattern: "/work/sandbox/a.md" }, "/");
+    expect(scope).toEqual({ root: "/work/sandbox/a.md", pattern: null, matchBasename: false });
+  });
+
+  test("Grep: glob without a slash matches file names", () => {
+    expect(resolveSearchScope("Grep", { pattern: "x", glob: "*.ts" }, "/work")).toEqual({
+      root: "/work",
+      pattern: "*.ts",
+      matchBasename: true,
+    });
+    expect(
+      resolveSearchScope("Grep", { pattern: "x", glob: "src/**/*.ts" }, "/work")!.matchBasename
+    ).toBe(false);
+  });
+
+  test("paths are literal", () => {
+    expect(resolveSearchScope("Grep", { pattern: "x", path: "$x?" }, "/work")!.root).toBe(
+      "/work/$x?"
+    );
+    expect(resolveSearchScope("Glob", { pattern: "*.md", path: "/work/a*b" }, "/")!.root).toBe(
+      "/work/a*b"
+    );
+  });
+
+  test("other tools have no scope", () => {
+    expect(resolveSearchScope("Read", { file_path: "/x" }, "/work")).toBeNull();
+  });
+});
+
+// ============================================================
+// listSandboxFiles
+// ============================================================
+
+describe("listSandboxFiles", () => {
+  test("search rooted above the sandbox lists only sandbox files", () => {
+    const { workspace, sandbox } = makeWorkspace();
+    const files = listSandboxFiles(
+      { root: workspace, pattern: "**/*.md", matchBasename: false },
+      sandbox
+    );
+    expect(files).toEqual([join(sandbox, "repo", "README.md")]);
+  });
+
+  test("pattern is matched relative to the search root", () => {
+    const { workspace, sandbox } = makeWorkspace();
+    const files = listSandboxFiles(
+      { root: workspace, pattern: "sandbox/repo/src/*", matchBasename: false },
+      sandbox
+    );
+    expect(files).toEqual([join(sandbox, "repo", "src", "a.ts")]);
+  });
+
+  test("basename matching and no pattern", () => {
+    const { sandbox } = makeWorkspace();
+    const repo = join(sandbox, "repo");
+    expect(
+      listSandboxFiles({ root: repo, pattern: "*.ts", matchBasename: true }, sandbox)
+    ).toEqual([join(repo, "src", "a.ts")]);
+    expect(
+      listSandboxFiles({ root: repo, pattern: null, matchBasename: false }, sandbox)
+    ).toEqual([join(repo, ".git", "config"), join(repo, "README.md"), join(repo, "src", "a.ts")]);
+  });
+
+  test("scan excludes do not apply: node_modules is in scope", () => {
+    const { sandbox } = makeWorkspace();
+    const repo = join(sandbox, "repo");
+    mkdirSync(join(repo, "node_modules", "pkg"), { recursive: true });
+    writeFileSync(join(repo, "node_modules", "pkg", "README.md"), "# pkg");
+    expect(
+      listSandboxFiles({ root: repo, pattern: "**/*.md", matchBasename: false }, sandbox)
+    ).toEqual([join(repo, "README.md"), join(repo, "node_modules", "pkg", "README.md")]);
+  });
+
+  test("search outside the sandbox lists nothing", () => {
+    const { workspace, sandbox } = makeWorkspace();
+    const other = join(workspace, "..");
+    expect(
+      listSandboxFiles({ root: join(workspace, "local.md"), pattern: null, matchBasename: false }, sandbox)
+    ).toEqual([]);
+    expect(
+      listSandboxFiles({ root: join(other, "missing"), pattern: null, matchBasename: false }, sandbox)
+    ).toEqual([]);
+  });
+});